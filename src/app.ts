@@ -15,12 +15,18 @@ import express, { Request, Response } from "express";
 import cors from "cors";
 import morgan from "morgan";
 import { errorHandler } from "./middlewares/errorHandler";
+import { requireAdminToken } from "./middlewares/adminAuth";
 import { configDotenv } from "dotenv";
 import {
+  getGitHubFunctions,
   initializeDaemoService,
   startHostedConnection,
 } from "./services/daemoService";
+import { auditScheduler } from "./services/auditSchedules";
 import agentController from "./controllers/agentController";
+import credentialController from "./controllers/credentialController";
+import scheduleController from "./controllers/scheduleController";
+import reportController from "./controllers/reportController";
  
 // Load environment variables
 configDotenv();
@@ -37,6 +43,9 @@ async function startServer() {
     // Start hosted connection if API key is provided
     await startHostedConnection(sessionData);
 
+    // Start the scheduled audits configured in AUDIT_SCHEDULES / AUDIT_SCHEDULES_FILE
+    auditScheduler.start(getGitHubFunctions()!);
+
     // Create a new express application instance
     const app = express();
 
@@ -71,6 +80,23 @@ async function startServer() {
     app.get("/agent/threads/:threadId", agentController.getThread);
     app.delete("/agent/threads/:threadId", agentController.deleteThread);
 
+    // GitHub credential routes
+    app.post("/credentials", credentialController.registerCredential);
+    app.delete("/credentials/:credentialRef", credentialController.removeCredential);
+
+    // Scheduled audit routes, which act with the server's own credential
+    app.get("/schedules", requireAdminToken, scheduleController.listSchedules);
+    app.post("/schedules/:scheduleId/pause", requireAdminToken, scheduleController.pauseSchedule);
+    app.post("/schedules/:scheduleId/resume", requireAdminToken, scheduleController.resumeSchedule);
+    app.post("/schedules/:scheduleId/run", requireAdminToken, scheduleController.triggerSchedule);
+    app.get("/runs", requireAdminToken, scheduleController.listRuns);
+    app.get("/runs/:runId", requireAdminToken, scheduleController.getRun);
+    app.get("/runs/:runId/report", requireAdminToken, scheduleController.getRunReport);
+
+    // Report routes
+    app.post("/reports", reportController.generateReport);
+    app.get("/reports/:reportId", reportController.downloadReport);
+
     // Set the network port
     const port = process.env.PORT || 5000;
 
@@ -0,0 +1,74 @@
+/**
+ * Credential Controller - Registers the GitHub credentials agent calls act with
+ *
+ * Each person using the deployment registers their own token or GitHub App installation
+ * and passes the returned credentialRef in the context of their agent queries. The reference
+ * is what grants use of the credential, so there is deliberately no route that lists them.
+ */
+
+import { Request, Response } from "express";
+import { Credential, credentialRegistry } from "../services/githubClients";
+
+/**
+ * Register a credential
+ * POST /credentials
+ *
+ * Body: { type: "token" | "oauth", token, label? }
+ *    or { type: "app", appId, privateKey, installationId, label? }
+ */
+const registerCredential = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, token, appId, privateKey, installationId, label } = req.body;
+
+    let credential: Credential;
+    if (type === "token" || type === "oauth") {
+      if (!token) {
+        res.status(400).json({ error: "token is required" });
+        return;
+      }
+      credential = { kind: type, token };
+    } else if (type === "app") {
+      if (!appId || !privateKey || !installationId) {
+        res.status(400).json({ error: "appId, privateKey and installationId are required" });
+        return;
+      }
+      credential = { kind: "app", appId: String(appId), privateKey, installationId: Number(installationId) };
+    } else {
+      res.status(400).json({ error: 'type must be "token", "oauth" or "app"' });
+      return;
+    }
+
+    const summary = await credentialRegistry.register(credential, label);
+
+    res.status(201).json({
+      success: true,
+      ...summary,
+      usage: `Pass { "credentialRef": "${summary.credentialRef}" } as the context of your agent queries.`
+    });
+  } catch (error: any) {
+    console.error("Error registering credential:", error);
+    res.status(400).json({
+      error: "GitHub rejected the credential",
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Forget a credential
+ * DELETE /credentials/:credentialRef
+ */
+const removeCredential = (req: Request, res: Response): void => {
+  const removed = credentialRegistry.remove(req.params.credentialRef as string);
+
+  if (!removed) {
+    res.status(404).json({ error: "Unknown credential" });
+    return;
+  }
+  res.status(200).json({ success: true });
+};
+
+export default {
+  registerCredential,
+  removeCredential,
+};
@@ -0,0 +1,104 @@
+/**
+ * Report Controller - Serves health reports as Markdown, HTML, CSV or JSON files
+ *
+ * Reports exported through the agent are saved and downloaded by the link it returns, which
+ * works for a day and after that only with the credential that exported it. Reports can also be
+ * generated directly with a registered credential, without going through the agent.
+ */
+
+import { Request, Response } from "express";
+import { getGitHubFunctions } from "../services/daemoService";
+import { credentialRegistry } from "../services/githubClients";
+import { REPORT_FORMATS, ReportFormat, canDownload, downloadName, renderReport, reportStore } from "../services/reportBuilder";
+
+const TARGET_FIELDS = ["username", "org", "affiliation", "includePrivate", "includeForks", "includeArchived"];
+
+/**
+ * Generate a report and respond with the file
+ * POST /reports
+ *
+ * Body: { format?: "markdown" | "html" | "csv" | "json", scope?: "portfolio" | "repository",
+ *         repo?, owner?, includeStatistics?, username?, org?, ...filters, credentialRef }
+ */
+const generateReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const functions = getGitHubFunctions();
+    if (!functions) {
+      res.status(500).json({ error: "Daemo service not initialized" });
+      return;
+    }
+
+    const body = req.body ?? {};
+    const { format = "html", scope = "portfolio", repo, owner, includeStatistics, credentialRef } = body;
+    if (typeof credentialRef !== "string" || !credentialRef) {
+      res.status(401).json({ error: "credentialRef is required. Register a credential with POST /credentials." });
+      return;
+    }
+    if (!REPORT_FORMATS.includes(format)) {
+      res.status(400).json({ error: `format must be one of ${REPORT_FORMATS.join(", ")}` });
+      return;
+    }
+    if (scope !== "portfolio" && scope !== "repository") {
+      res.status(400).json({ error: 'scope must be "portfolio" or "repository"' });
+      return;
+    }
+    if (scope === "repository" && !repo) {
+      res.status(400).json({ error: "repo is required for a repository report" });
+      return;
+    }
+
+    const target = Object.fromEntries(TARGET_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+    const report = await functions.buildReport({ ...target, scope, repo, owner, includeStatistics, credentialRef });
+    const rendered = renderReport(report, format as ReportFormat);
+
+    res.status(200)
+      .type(rendered.contentType)
+      .attachment(downloadName({ title: report.title, createdAt: report.generatedAt }, rendered.extension))
+      .send(rendered.content);
+  } catch (error: any) {
+    console.error("Error generating report:", error);
+    res.status(500).json({
+      error: "Failed to generate report",
+      message: error.message,
+    });
+  }
+};
+
+/**
+ * Download a report exported through the agent. Once the link has expired, pass the exporting
+ * credential in the X-Credential-Ref header.
+ * GET /reports/:reportId
+ */
+const downloadReport = (req: Request, res: Response): void => {
+  let credential: string | null = null;
+  const credentialRef = req.get("X-Credential-Ref");
+  if (credentialRef) {
+    try {
+      credential = credentialRegistry.resolve(credentialRef).identity;
+    } catch (error: any) {
+      res.status(401).json({ error: "Unknown credential", message: error.message });
+      return;
+    }
+  }
+
+  const found = reportStore.read(req.params.reportId as string);
+  if (!found) {
+    res.status(404).json({ error: "Unknown report" });
+    return;
+  }
+  if (!canDownload(found.report, credential)) {
+    res.status(403).json({ error: "This report's link has expired. Download it with the credential that exported it in the X-Credential-Ref header." });
+    return;
+  }
+
+  const { report, content, contentType } = found;
+  res.status(200)
+    .type(contentType)
+    .attachment(downloadName(report, report.fileName.split(".").pop()!))
+    .send(content);
+};
+
+export default {
+  generateReport,
+  downloadReport,
+};
@@ -0,0 +1,108 @@
+/**
+ * Schedule Controller - Lists and controls the scheduled portfolio audits
+ *
+ * Schedules are configured through AUDIT_SCHEDULES or AUDIT_SCHEDULES_FILE and run with the
+ * server's own GitHub credential. These routes pause, resume and trigger them and return the
+ * results and reports of past runs; they all need the admin token (ORGANIZER_ADMIN_TOKEN).
+ */
+
+import { Request, Response } from "express";
+import { auditScheduler } from "../services/auditSchedules";
+
+const MAX_RUNS_LISTED = 100;
+
+/**
+ * List schedules with their next run and last run
+ * GET /schedules
+ */
+const listSchedules = (_: Request, res: Response): void => {
+  res.status(200).json({ schedules: auditScheduler.list() });
+};
+
+/**
+ * Stop a schedule from running until it is resumed. Survives restarts.
+ * POST /schedules/:scheduleId/pause
+ */
+const pauseSchedule = (req: Request, res: Response): void => {
+  try {
+    res.status(200).json({ success: true, schedule: auditScheduler.pause(req.params.scheduleId as string) });
+  } catch (error: any) {
+    res.status(404).json({ error: "Unknown schedule", message: error.message });
+  }
+};
+
+/**
+ * Resume a paused schedule
+ * POST /schedules/:scheduleId/resume
+ */
+const resumeSchedule = (req: Request, res: Response): void => {
+  try {
+    res.status(200).json({ success: true, schedule: auditScheduler.resume(req.params.scheduleId as string) });
+  } catch (error: any) {
+    res.status(404).json({ error: "Unknown schedule", message: error.message });
+  }
+};
+
+/**
+ * Run a schedule's audit now. Responds once the run has started; poll GET /runs/:runId for the result.
+ * POST /schedules/:scheduleId/run
+ */
+const triggerSchedule = (req: Request, res: Response): void => {
+  const scheduleId = req.params.scheduleId as string;
+  if (!auditScheduler.list().some(s => s.id === scheduleId)) {
+    res.status(404).json({ error: "Unknown schedule" });
+    return;
+  }
+
+  try {
+    res.status(202).json({ success: true, run: auditScheduler.trigger(scheduleId) });
+  } catch (error: any) {
+    res.status(409).json({ error: "Schedule is already running", message: error.message });
+  }
+};
+
+/**
+ * Past runs, newest first
+ * GET /runs?scheduleId=&limit=
+ */
+const listRuns = (req: Request, res: Response): void => {
+  const limit = Math.min(Number(req.query.limit) || 20, MAX_RUNS_LISTED);
+  const scheduleId = typeof req.query.scheduleId === "string" ? req.query.scheduleId : undefined;
+  res.status(200).json({ runs: auditScheduler.listRuns(scheduleId, limit) });
+};
+
+/**
+ * One run's result
+ * GET /runs/:runId
+ */
+const getRun = (req: Request, res: Response): void => {
+  const run = auditScheduler.getRun(req.params.runId as string);
+  if (!run) {
+    res.status(404).json({ error: "Unknown run" });
+    return;
+  }
+  res.status(200).json({ run });
+};
+
+/**
+ * One run's Markdown report
+ * GET /runs/:runId/report
+ */
+const getRunReport = (req: Request, res: Response): void => {
+  const report = auditScheduler.readReport(req.params.runId as string);
+  if (report === null) {
+    res.status(404).json({ error: "No report for this run" });
+    return;
+  }
+  res.status(200).type("text/markdown").send(report);
+};
+
+export default {
+  listSchedules,
+  pauseSchedule,
+  resumeSchedule,
+  triggerSchedule,
+  listRuns,
+  getRun,
+  getRunReport,
+};
@@ -0,0 +1,26 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Let a request through only if it carries ORGANIZER_ADMIN_TOKEN as a bearer token. The routes
+ * behind it act with the server's own credential, so they stay closed while the token is unset.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ORGANIZER_ADMIN_TOKEN;
+  if (!expected) {
+    res.status(403).json({ error: "Admin routes are disabled. Set ORGANIZER_ADMIN_TOKEN to use them." });
+    return;
+  }
+
+  const given = req.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+  // Compare digests so the comparison takes the same time whatever the token's length
+  if (!timingSafeEqual(digest(given), digest(expected))) {
+    res.status(401).json({ error: "A valid admin token is required" });
+    return;
+  }
+  next();
+}
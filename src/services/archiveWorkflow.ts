@@ -0,0 +1,152 @@
+import { Octokit } from "@octokit/rest";
+import { ReadmeUpdate, SetArchivedChange } from "./fixPlans";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The notice sits between these markers so unarchiving can take it out again
+const NOTICE_START = "<!-- repo-organizer:archived -->";
+const NOTICE_END = "<!-- /repo-organizer:archived -->";
+
+// Only Markdown READMEs get a notice; the markers and blockquote don't render in other formats
+const MARKDOWN_README = /\.(md|markdown)$/i;
+
+// Above these, archiving likely affects other people and deserves a second look
+const NOTABLE_STARS = 10;
+const NOTABLE_FORKS = 5;
+
+/**
+ * What archiving a repository would affect, so the decision can be made on evidence.
+ */
+export interface ArchiveEvidence {
+  repo: string;
+  lastPush: string | null;
+  daysSinceLastPush: number | null;
+  openIssues: number;
+  openPullRequests: number;
+  stars: number;
+  forks: number;
+  /** GitHub's API doesn't report dependents; this page lists them */
+  dependentsUrl: string;
+  recommendation: "archive" | "review";
+  concerns: string[];
+}
+
+export async function archiveEvidence(octokit: Octokit, repo: RepositoryInfo): Promise<ArchiveEvidence> {
+  const owner = repo.owner.login;
+  const pullRequests = await octokit.paginate(octokit.pulls.list, {
+    owner,
+    repo: repo.name,
+    state: "open",
+    per_page: 100
+  });
+
+  const lastPush = repo.pushed_at || repo.updated_at || null;
+  const daysSinceLastPush = lastPush ? Math.floor((Date.now() - new Date(lastPush).getTime()) / DAY_MS) : null;
+  const openPullRequests = pullRequests.length;
+  // open_issues_count includes pull requests
+  const openIssues = Math.max(0, (repo.open_issues_count ?? 0) - openPullRequests);
+  const stars = repo.stargazers_count ?? 0;
+  const forks = repo.forks_count ?? 0;
+
+  const concerns: string[] = [];
+  if (openPullRequests > 0) concerns.push(`${openPullRequests} open pull requests would be frozen`);
+  if (openIssues > 0) concerns.push(`${openIssues} open issues would be frozen`);
+  if (stars >= NOTABLE_STARS) concerns.push(`${stars} stars: people may still be using it`);
+  if (forks >= NOTABLE_FORKS) concerns.push(`${forks} forks`);
+
+  return {
+    repo: repo.full_name,
+    lastPush,
+    daysSinceLastPush,
+    openIssues,
+    openPullRequests,
+    stars,
+    forks,
+    dependentsUrl: `${repo.html_url}/network/dependents`,
+    recommendation: concerns.length === 0 ? "archive" : "review",
+    concerns
+  };
+}
+
+export function addArchiveNotice(readme: string, date: Date, reason?: string): string {
+  const notice = [
+    NOTICE_START,
+    `> **Archived:** This repository was archived on ${date.toISOString().slice(0, 10)} and is no longer maintained.` +
+      `${reason ? ` ${reason.trim().replace(/\.?$/, ".")}` : ""} It is kept read-only for reference.`,
+    NOTICE_END,
+    ""
+  ].join("\n");
+  return `${notice}\n${removeArchiveNotice(readme)}`;
+}
+
+export function removeArchiveNotice(readme: string): string {
+  const start = readme.indexOf(NOTICE_START);
+  const end = readme.indexOf(NOTICE_END);
+  if (start === -1 || end === -1 || end < start) return readme;
+  return (readme.slice(0, start) + readme.slice(end + NOTICE_END.length)).replace(/^\s*\n/, "");
+}
+
+/**
+ * Plan archiving a repository, with the README notice when asked for and the README is Markdown.
+ */
+export async function planArchive(
+  octokit: Octokit,
+  repo: RepositoryInfo,
+  options: { addNotice: boolean; reason?: string }
+): Promise<Omit<SetArchivedChange, "id">> {
+  const readmeUpdate = options.addNotice
+    ? await readmeUpdateFor(octokit, repo, readme => addArchiveNotice(readme, new Date(), options.reason), "Add archive notice to README")
+    : undefined;
+
+  return {
+    kind: "set-archived",
+    owner: repo.owner.login,
+    repo: repo.name,
+    archived: true,
+    readmeUpdate,
+    summary: `Archive${readmeUpdate ? ` after adding a notice to ${readmeUpdate.path}` : ""}`,
+    reason: options.reason
+  };
+}
+
+/**
+ * Plan unarchiving a repository, taking the organizer's notice out of the README when asked for.
+ */
+export async function planUnarchive(
+  octokit: Octokit,
+  repo: RepositoryInfo,
+  options: { removeNotice: boolean }
+): Promise<Omit<SetArchivedChange, "id">> {
+  const readmeUpdate = options.removeNotice
+    ? await readmeUpdateFor(octokit, repo, removeArchiveNotice, "Remove archive notice from README")
+    : undefined;
+
+  return {
+    kind: "set-archived",
+    owner: repo.owner.login,
+    repo: repo.name,
+    archived: false,
+    readmeUpdate,
+    summary: `Unarchive${readmeUpdate ? ` and remove the notice from ${readmeUpdate.path}` : ""}`
+  };
+}
+
+async function readmeUpdateFor(
+  octokit: Octokit,
+  repo: RepositoryInfo,
+  edit: (readme: string) => string,
+  message: string
+): Promise<ReadmeUpdate | undefined> {
+  const files = await RepoFileIndex.load(octokit, repo.owner.login, repo.name, repo.default_branch);
+  const path = files.find("readme");
+  const baseSha = path && files.sha(path);
+  if (!path || !baseSha || !MARKDOWN_README.test(path)) return undefined;
+
+  const readme = await readRepoFile(octokit, repo.owner.login, repo.name, path, repo.default_branch);
+  if (readme === null) return undefined;
+
+  const content = edit(readme);
+  return content === readme ? undefined : { path, content, baseSha, message };
+}
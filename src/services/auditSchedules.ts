@@ -0,0 +1,538 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { JsonFileStore, dataPath } from "./dataStore";
+import { CronExpression, nextRun, parseCron } from "./cronExpression";
+import { HealthHistory, HealthSnapshot, RepoHealthChange } from "./healthHistory";
+import { healthRules } from "./healthRules";
+import { Delivery } from "./fixPlans";
+import { RepositoryTarget, repositoryTargetFields } from "./repositoryEnumerator";
+import { GitHubFunctions } from "./githubFunctions";
+import { SERVER_CREDENTIAL_ID, credentialRegistry } from "./githubClients";
+
+/**
+ * The rules a scheduled audit may fix without anyone reviewing the plan. Plans with more than
+ * maxChanges changes are left for review instead of being applied.
+ */
+export interface AutoFixPolicy {
+  ruleIds: string[];
+  delivery: Delivery;
+  maxChanges: number;
+}
+
+export interface AuditSchedule {
+  id: string;
+  cron: string;
+  target: RepositoryTarget;
+  autoFix: AutoFixPolicy | null;
+}
+
+export interface AutoFixOutcome {
+  ruleIds: string[];
+  planId: string | null;
+  planned: number;
+  /** False when the plan was empty or larger than the policy allows */
+  executed: boolean;
+  applied: number;
+  skipped: number;
+  failed: number;
+  pullRequests: string[];
+  /** Batch to pass to rollbackBatch */
+  batchId: string | null;
+  /** Why planning or applying the fixes failed; the run and its report still stand */
+  error: string | null;
+  message: string;
+}
+
+export type AuditRunStatus = "running" | "succeeded" | "failed";
+
+export interface AuditRun {
+  id: string;
+  scheduleId: string;
+  trigger: "schedule" | "manual";
+  status: AuditRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  snapshotId: string | null;
+  repos: number;
+  averageScore: number | null;
+  issues: number;
+  /** Repositories whose health couldn't be evaluated, with the error */
+  notAnalysed: Array<{ repo: string; error: string }>;
+  autoFix: AutoFixOutcome | null;
+  /** Report file name in the reports directory */
+  report: string | null;
+  error: string | null;
+}
+
+export interface ScheduleStatus extends AuditSchedule {
+  paused: boolean;
+  running: boolean;
+  nextRunAt: string | null;
+  lastRun: AuditRun | null;
+}
+
+// Config entries use the same target fields as the agent functions
+const autoFixPolicySchema = z.object({
+  ruleIds: z.array(z.string()).min(1),
+  delivery: z.enum(["commit", "pull-request"]).optional().default("pull-request"),
+  maxChanges: z.number().int().positive().optional().default(20)
+}).strict();
+
+const scheduleConfigSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, "may only contain letters, digits, - and _"),
+  cron: z.string(),
+  ...repositoryTargetFields,
+  autoFix: autoFixPolicySchema.optional()
+}).strict();
+
+/** Runs kept in the run log; their report files are deleted with them */
+const MAX_RUNS = 500;
+
+/** Longest delay setTimeout accepts; later runs are re-armed when it fires */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+function newRunId(): string {
+  return `run_${Date.now().toString(36)}${randomBytes(3).toString("hex")}`;
+}
+
+function readEntries(text: string, source: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${source} is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${source} must be a JSON array of schedules`);
+  }
+  return parsed;
+}
+
+function toSchedule(entry: unknown, source: string): AuditSchedule {
+  const result = scheduleConfigSchema.safeParse(entry);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => `${issue.path.join(".") || "schedule"}: ${issue.message}`);
+    throw new Error(`Invalid schedule in ${source}: ${problems.join("; ")}`);
+  }
+  const { id, cron, autoFix, ...target } = result.data;
+
+  parseCron(cron);
+  if (autoFix) {
+    // An approved policy names its rules; "all" would approve rules added later
+    for (const ruleId of autoFix.ruleIds) {
+      if (!healthRules.get(ruleId).fix) {
+        throw new Error(`Schedule ${id} in ${source}: rule ${ruleId} has no automatic fix`);
+      }
+    }
+  }
+
+  return { id, cron, target, autoFix: autoFix ?? null };
+}
+
+/**
+ * Schedules from AUDIT_SCHEDULES (a JSON array) and the JSON file named by AUDIT_SCHEDULES_FILE.
+ */
+export function loadSchedules(env: NodeJS.ProcessEnv = process.env): AuditSchedule[] {
+  const schedules: AuditSchedule[] = [];
+
+  if (env.AUDIT_SCHEDULES) {
+    schedules.push(...readEntries(env.AUDIT_SCHEDULES, "AUDIT_SCHEDULES").map(e => toSchedule(e, "AUDIT_SCHEDULES")));
+  }
+  if (env.AUDIT_SCHEDULES_FILE) {
+    const file = path.resolve(env.AUDIT_SCHEDULES_FILE);
+    let text: string;
+    try {
+      text = fs.readFileSync(file, "utf8");
+    } catch (error: any) {
+      throw new Error(`Failed to read AUDIT_SCHEDULES_FILE ${file}: ${error.message}`);
+    }
+    schedules.push(...readEntries(text, file).map(e => toSchedule(e, file)));
+  }
+
+  const ids = schedules.map(s => s.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new Error(`Audit schedule ${duplicate} is defined more than once`);
+  }
+  return schedules;
+}
+
+function describeTarget(target: RepositoryTarget): string {
+  return target.org ? `organization ${target.org}` : target.username ? `user ${target.username}` : "the server's GitHub account";
+}
+
+function scoreCell(change: RepoHealthChange): string {
+  return `${change.scoreThen} → ${change.scoreNow} (${change.change > 0 ? "+" : ""}${change.change})`;
+}
+
+/**
+ * The Markdown report written for each run.
+ */
+function renderRunReport(
+  schedule: AuditSchedule,
+  run: AuditRun,
+  snapshot: HealthSnapshot,
+  changes: RepoHealthChange[] | null
+): string {
+  const rule = (id: string) => {
+    try {
+      return healthRules.get(id);
+    } catch {
+      return null;
+    }
+  };
+  const lines: string[] = [
+    `# Repository audit: ${schedule.id}`,
+    "",
+    `- Repositories: ${describeTarget(schedule.target)}`,
+    `- Started: ${run.startedAt} (${run.trigger === "manual" ? "triggered manually" : `schedule \`${schedule.cron}\``})`,
+    `- Repositories analysed: ${snapshot.repos.length}`,
+    `- Average score: ${run.averageScore ?? "n/a"}`,
+    `- Issues: ${run.issues}`,
+    ""
+  ];
+
+  lines.push("## Changes since the previous run", "");
+  if (!changes) {
+    lines.push("This is the schedule's first successful run.", "");
+  } else {
+    const moved = changes
+      .filter(c => c.change !== 0 || c.introduced.length > 0 || c.fixed.length > 0)
+      .sort((a, b) => a.change - b.change);
+    if (moved.length === 0) {
+      lines.push("No scores or issues changed.", "");
+    } else {
+      lines.push("| Repository | Score | New issues | Fixed |", "| --- | --- | --- | --- |");
+      for (const change of moved) {
+        lines.push(`| ${change.repo} | ${scoreCell(change)} | ${change.introduced.join(", ") || "-"} | ${change.fixed.join(", ") || "-"} |`);
+      }
+      lines.push("");
+    }
+  }
+
+  const byRule = new Map<string, number>();
+  for (const repo of snapshot.repos) {
+    for (const id of repo.issues) byRule.set(id, (byRule.get(id) ?? 0) + 1);
+  }
+  lines.push("## Issues by rule", "");
+  if (byRule.size === 0) {
+    lines.push("No issues found.", "");
+  } else {
+    lines.push("| Rule | Severity | Repositories |", "| --- | --- | --- |");
+    for (const [id, count] of [...byRule].sort((a, b) => b[1] - a[1])) {
+      const found = rule(id);
+      lines.push(`| ${found?.title ?? id} (\`${id}\`) | ${found?.severity ?? "-"} | ${count} |`);
+    }
+    lines.push("");
+  }
+
+  lines.push("## Repositories", "", "| Repository | Score | Issues |", "| --- | --- | --- |");
+  for (const repo of [...snapshot.repos].sort((a, b) => a.score - b.score || a.repo.localeCompare(b.repo))) {
+    lines.push(`| ${repo.repo} | ${repo.score} | ${repo.issues.join(", ") || "-"} |`);
+  }
+  lines.push("");
+
+  if (run.notAnalysed.length > 0) {
+    lines.push("## Not analysed", "", ...run.notAnalysed.map(n => `- ${n.repo}: ${n.error}`), "");
+  }
+
+  if (run.autoFix) {
+    const fix = run.autoFix;
+    lines.push("## Automatic fixes", "", `Rules: ${fix.ruleIds.join(", ")}`, "", fix.message, "");
+    if (fix.pullRequests.length > 0) {
+      lines.push(...fix.pullRequests.map(url => `- ${url}`), "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Runs portfolio audits on cron schedules inside the server. Each run analyses the schedule's
+ * repositories with the server's own GitHub credential, which ALLOW_SERVER_CREDENTIAL must
+ * allow, records a health snapshot, writes a Markdown report to the reports directory and, if
+ * the schedule has an auto-fix policy, applies the fixes for the approved rules.
+ */
+export class AuditScheduler {
+  private schedules = new Map<string, AuditSchedule>();
+  private crons = new Map<string, CronExpression>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private nextRuns = new Map<string, Date>();
+  private running = new Set<string>();
+  private functions: GitHubFunctions | null = null;
+  private credentialRef: string | null = null;
+  private history = new HealthHistory(SERVER_CREDENTIAL_ID);
+  private state = new JsonFileStore<{ paused: string[] }>("audit-schedules.json", () => ({ paused: [] }));
+  private runs = new JsonFileStore<{ runs: AuditRun[] }>("audit-runs.json", () => ({ runs: [] }));
+
+  /**
+   * Load the configured schedules and arm their timers.
+   */
+  start(functions: GitHubFunctions, schedules: AuditSchedule[] = loadSchedules()): void {
+    this.stop();
+    this.functions = functions;
+    // Fail at startup rather than on the first run when the server credential isn't allowed
+    this.credentialRef = schedules.length > 0 ? credentialRegistry.serverCredentialRef() : null;
+    this.schedules = new Map(schedules.map(s => [s.id, s]));
+    this.crons = new Map(schedules.map(s => [s.id, parseCron(s.cron)]));
+
+    // Runs interrupted by a restart never finish
+    this.runs.update(doc => {
+      for (const run of doc.runs.filter(r => r.status === "running")) {
+        run.status = "failed";
+        run.finishedAt = new Date().toISOString();
+        run.error = "The server stopped during the run";
+      }
+    });
+
+    for (const id of this.schedules.keys()) this.arm(id);
+    if (schedules.length > 0) {
+      console.log(`[Audits] ${schedules.length} audit schedule(s) loaded`);
+    }
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.nextRuns.clear();
+  }
+
+  list(): ScheduleStatus[] {
+    return [...this.schedules.keys()].map(id => this.status(id));
+  }
+
+  status(scheduleId: string): ScheduleStatus {
+    const schedule = this.get(scheduleId);
+    const lastRun = this.runs.read().runs.filter(r => r.scheduleId === scheduleId).pop() ?? null;
+    return {
+      ...schedule,
+      paused: this.isPaused(scheduleId),
+      running: this.running.has(scheduleId),
+      nextRunAt: this.nextRuns.get(scheduleId)?.toISOString() ?? null,
+      lastRun
+    };
+  }
+
+  pause(scheduleId: string): ScheduleStatus {
+    this.get(scheduleId);
+    this.state.update(doc => {
+      if (!doc.paused.includes(scheduleId)) doc.paused.push(scheduleId);
+    });
+    this.arm(scheduleId);
+    return this.status(scheduleId);
+  }
+
+  resume(scheduleId: string): ScheduleStatus {
+    this.get(scheduleId);
+    this.state.update(doc => {
+      doc.paused = doc.paused.filter(id => id !== scheduleId);
+    });
+    this.arm(scheduleId);
+    return this.status(scheduleId);
+  }
+
+  /**
+   * Start a run now, paused or not. Returns the run as soon as it is recorded; poll it for the result.
+   */
+  trigger(scheduleId: string): AuditRun {
+    this.get(scheduleId);
+    if (this.running.has(scheduleId)) {
+      throw new Error(`Schedule ${scheduleId} is already running`);
+    }
+    return this.begin(scheduleId, "manual");
+  }
+
+  /**
+   * Past runs, newest first, optionally of one schedule.
+   */
+  listRuns(scheduleId?: string, limit: number = 20): AuditRun[] {
+    return this.runs.read().runs
+      .filter(r => !scheduleId || r.scheduleId === scheduleId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  getRun(runId: string): AuditRun | null {
+    return this.runs.read().runs.find(r => r.id === runId) ?? null;
+  }
+
+  /**
+   * A run's Markdown report, null while it runs or if it failed before writing one.
+   */
+  readReport(runId: string): string | null {
+    const run = this.getRun(runId);
+    if (!run?.report) return null;
+    try {
+      return fs.readFileSync(dataPath("reports", run.report), "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  private get(scheduleId: string): AuditSchedule {
+    const schedule = this.schedules.get(scheduleId);
+    if (!schedule) {
+      throw new Error(`Unknown schedule "${scheduleId}"`);
+    }
+    return schedule;
+  }
+
+  private isPaused(scheduleId: string): boolean {
+    return this.state.read().paused.includes(scheduleId);
+  }
+
+  private arm(scheduleId: string): void {
+    clearTimeout(this.timers.get(scheduleId));
+    this.timers.delete(scheduleId);
+    this.nextRuns.delete(scheduleId);
+    if (this.isPaused(scheduleId)) return;
+
+    const due = nextRun(this.crons.get(scheduleId)!);
+    this.nextRuns.set(scheduleId, due);
+    this.wait(scheduleId, due);
+  }
+
+  private wait(scheduleId: string, due: Date): void {
+    const delay = due.getTime() - Date.now();
+    this.timers.set(scheduleId, setTimeout(() => {
+      if (Date.now() < due.getTime()) {
+        this.wait(scheduleId, due);
+        return;
+      }
+      if (this.running.has(scheduleId)) {
+        console.warn(`[Audits] Skipping ${scheduleId}: the previous run hasn't finished`);
+      } else {
+        this.begin(scheduleId, "schedule");
+      }
+      this.arm(scheduleId);
+    }, Math.min(Math.max(delay, 0), MAX_TIMER_MS)));
+  }
+
+  private begin(scheduleId: string, trigger: AuditRun["trigger"]): AuditRun {
+    const run: AuditRun = {
+      id: newRunId(),
+      scheduleId,
+      trigger,
+      status: "running",
+      startedAt: new Date().toISOString(),
+      finishedAt: null,
+      snapshotId: null,
+      repos: 0,
+      averageScore: null,
+      issues: 0,
+      notAnalysed: [],
+      autoFix: null,
+      report: null,
+      error: null
+    };
+    this.runs.update(doc => {
+      doc.runs.push(run);
+      for (const dropped of doc.runs.splice(0, Math.max(0, doc.runs.length - MAX_RUNS))) {
+        if (dropped.report) fs.rmSync(dataPath("reports", dropped.report), { force: true });
+      }
+    });
+
+    this.running.add(scheduleId);
+    console.log(`[Audits] Starting ${scheduleId} (${run.id})`);
+    this.execute(this.get(scheduleId), run)
+      .then(result => this.save(result))
+      .catch(error => {
+        console.error(`[Audits] Run ${run.id} of ${scheduleId} failed:`, error);
+        this.save({ ...run, status: "failed", finishedAt: new Date().toISOString(), error: error.message });
+      })
+      .finally(() => this.running.delete(scheduleId));
+    return run;
+  }
+
+  private save(run: AuditRun): void {
+    this.runs.update(doc => {
+      const index = doc.runs.findIndex(r => r.id === run.id);
+      if (index >= 0) doc.runs[index] = run;
+    });
+  }
+
+  private async execute(schedule: AuditSchedule, run: AuditRun): Promise<AuditRun> {
+    if (!this.functions || !this.credentialRef) {
+      throw new Error("The audit scheduler hasn't been started");
+    }
+    const previous = this.listRuns(schedule.id, MAX_RUNS).find(r => r.status === "succeeded" && r.id !== run.id);
+
+    const analysis = await this.functions.analyzeAllRepositories({ ...schedule.target, credentialRef: this.credentialRef });
+    const snapshot = this.history.get(analysis.snapshotId);
+    if (!snapshot) {
+      throw new Error(`Health snapshot ${analysis.snapshotId} is missing from the history`);
+    }
+
+    const analysed = new Set(snapshot.repos.map(r => r.repo));
+    const changes = previous?.finishedAt
+      ? this.history.changesSince(new Date(previous.finishedAt)).changes.filter(c => analysed.has(c.repo))
+      : null;
+
+    const result: AuditRun = {
+      ...run,
+      snapshotId: snapshot.id,
+      repos: snapshot.repos.length,
+      averageScore: snapshot.repos.length
+        ? Math.round(snapshot.repos.reduce((sum, r) => sum + r.score, 0) / snapshot.repos.length)
+        : null,
+      issues: snapshot.repos.reduce((sum, r) => sum + r.issues.length, 0),
+      notAnalysed: analysis.notAnalysed,
+      autoFix: schedule.autoFix ? await this.autoFix(schedule.target, schedule.autoFix) : null
+    };
+
+    const report = `${run.id}.md`;
+    fs.writeFileSync(dataPath("reports", report), renderRunReport(schedule, result, snapshot, changes));
+    console.log(`[Audits] Finished ${schedule.id} (${run.id})`);
+    return { ...result, status: "succeeded", finishedAt: new Date().toISOString(), report };
+  }
+
+  private async autoFix(target: RepositoryTarget, policy: AutoFixPolicy): Promise<AutoFixOutcome> {
+    const outcome: AutoFixOutcome = {
+      ruleIds: policy.ruleIds,
+      planId: null,
+      planned: 0,
+      executed: false,
+      applied: 0,
+      skipped: 0,
+      failed: 0,
+      pullRequests: [],
+      batchId: null,
+      error: null,
+      message: "Nothing to fix."
+    };
+
+    try {
+      const { plan } = await this.functions!.autoFixAllIssues({ ...target, ruleIds: policy.ruleIds, credentialRef: this.credentialRef! });
+      if (plan.changes.length === 0) return outcome;
+      outcome.planId = plan.planId;
+      outcome.planned = plan.changes.length;
+
+      if (plan.changes.length > policy.maxChanges) {
+        outcome.message = `Planned ${plan.changes.length} changes, more than the ${policy.maxChanges} the policy allows, so none were applied. ` +
+          "Raise maxChanges in the schedule to apply them, or fix them through the agent with your own credential.";
+        return outcome;
+      }
+
+      const applied = await this.functions!.applyFixPlan({ planId: plan.planId, delivery: policy.delivery, credentialRef: this.credentialRef! });
+      return {
+        ...outcome,
+        executed: true,
+        applied: applied.applied,
+        skipped: applied.skipped,
+        failed: applied.failed,
+        pullRequests: applied.pullRequests,
+        batchId: applied.batchId,
+        message: applied.message
+      };
+    } catch (error: any) {
+      // The analysis already succeeded, so the run still gets its report
+      console.error("[Audits] Automatic fixes failed:", error);
+      return { ...outcome, error: error.message, message: `Automatic fixes failed: ${error.message}` };
+    }
+  }
+}
+
+export const auditScheduler = new AuditScheduler();
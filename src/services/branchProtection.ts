@@ -0,0 +1,416 @@
+import { Octokit } from "@octokit/rest";
+import { SetBranchProtectionChange } from "./fixPlans";
+import { RepositoryInfo } from "./repositoryEnumerator";
+
+/**
+ * Classic branch protection, in the shape the organizer reads, compares and writes back.
+ */
+export interface ProtectionSnapshot {
+  /** Approving reviews required before merging; null when pull requests aren't required at all */
+  requiredReviews: number | null;
+  dismissStaleReviews: boolean;
+  requireCodeOwnerReviews: boolean;
+  statusChecks: { strict: boolean; contexts: string[] } | null;
+  enforceAdmins: boolean;
+  allowForcePushes: boolean;
+  allowDeletions: boolean;
+  requiredSignatures: boolean;
+  requiredLinearHistory: boolean;
+  /** Who may push, kept as is so applying a profile doesn't drop it */
+  restrictions: { users: string[]; teams: string[]; apps: string[] } | null;
+}
+
+/**
+ * What actually protects a branch: classic protection and repository rulesets combined.
+ */
+export interface EffectiveProtection {
+  branch: string;
+  /** False when the token can't read the protection, e.g. without admin access */
+  readable: boolean;
+  classic: ProtectionSnapshot | null;
+  /** Rule types from rulesets that apply to the branch */
+  rulesetRules: string[];
+  protected: boolean;
+  requiredReviews: number;
+  statusChecks: boolean;
+  forcePushBlocked: boolean;
+  deletionBlocked: boolean;
+  signedCommits: boolean;
+}
+
+/**
+ * Repository settings that decide how changes land on the default branch.
+ */
+export interface RepositorySettings {
+  allowMergeCommit: boolean;
+  allowSquashMerge: boolean;
+  allowRebaseMerge: boolean;
+  deleteBranchOnMerge: boolean;
+  /** Null when the token can't tell */
+  vulnerabilityAlerts: boolean | null;
+}
+
+/** The repository settings a profile can change */
+export type MergeSettings = Partial<Omit<RepositorySettings, "vulnerabilityAlerts">>;
+
+export interface ProtectionProfile {
+  name: string;
+  description: string;
+  /** Minimums: applying a profile never weakens protection that is already stricter */
+  protection: Omit<ProtectionSnapshot, "restrictions" | "statusChecks"> & {
+    /** Require the checks that ran on the default branch's latest commit */
+    requireStatusChecks: boolean;
+  };
+  settings: MergeSettings;
+}
+
+export const PROTECTION_PROFILES: ProtectionProfile[] = [
+  {
+    name: "basic",
+    description: "Block force pushes and deletion of the default branch",
+    protection: {
+      requiredReviews: null,
+      dismissStaleReviews: false,
+      requireCodeOwnerReviews: false,
+      requireStatusChecks: false,
+      enforceAdmins: false,
+      allowForcePushes: false,
+      allowDeletions: false,
+      requiredSignatures: false,
+      requiredLinearHistory: false
+    },
+    settings: {}
+  },
+  {
+    name: "standard",
+    description: "Basic, plus pull requests with one approving review, dismissal of stale reviews, passing status checks and deleting merged branches",
+    protection: {
+      requiredReviews: 1,
+      dismissStaleReviews: true,
+      requireCodeOwnerReviews: false,
+      requireStatusChecks: true,
+      enforceAdmins: false,
+      allowForcePushes: false,
+      allowDeletions: false,
+      requiredSignatures: false,
+      requiredLinearHistory: false
+    },
+    settings: { deleteBranchOnMerge: true }
+  },
+  {
+    name: "strict",
+    description: "Standard, plus two reviews including code owners, signed commits, linear history, rules enforced for admins and squash merges only",
+    protection: {
+      requiredReviews: 2,
+      dismissStaleReviews: true,
+      requireCodeOwnerReviews: true,
+      requireStatusChecks: true,
+      enforceAdmins: true,
+      allowForcePushes: false,
+      allowDeletions: false,
+      requiredSignatures: true,
+      requiredLinearHistory: true
+    },
+    settings: { deleteBranchOnMerge: true, allowMergeCommit: false, allowRebaseMerge: false, allowSquashMerge: true }
+  }
+];
+
+export const PROTECTION_PROFILE_NAMES = PROTECTION_PROFILES.map(p => p.name) as [string, ...string[]];
+
+export function getProtectionProfile(name: string): ProtectionProfile {
+  const profile = PROTECTION_PROFILES.find(p => p.name === name.toLowerCase());
+  if (!profile) {
+    throw new Error(`Unknown protection profile "${name}". Available profiles: ${PROTECTION_PROFILE_NAMES.join(", ")}`);
+  }
+  return profile;
+}
+
+/**
+ * Classic protection of a branch, or null when it has none. Throws a 403 when the token can't read it.
+ */
+export async function loadClassicProtection(octokit: Octokit, owner: string, repo: string, branch: string): Promise<ProtectionSnapshot | null> {
+  try {
+    const { data } = await octokit.repos.getBranchProtection({ owner, repo, branch });
+    const reviews = data.required_pull_request_reviews;
+    return {
+      requiredReviews: reviews ? reviews.required_approving_review_count ?? 0 : null,
+      dismissStaleReviews: reviews?.dismiss_stale_reviews ?? false,
+      requireCodeOwnerReviews: reviews?.require_code_owner_reviews ?? false,
+      statusChecks: data.required_status_checks
+        ? { strict: data.required_status_checks.strict ?? false, contexts: data.required_status_checks.contexts }
+        : null,
+      enforceAdmins: data.enforce_admins?.enabled ?? false,
+      allowForcePushes: data.allow_force_pushes?.enabled ?? false,
+      allowDeletions: data.allow_deletions?.enabled ?? false,
+      requiredSignatures: data.required_signatures?.enabled ?? false,
+      requiredLinearHistory: data.required_linear_history?.enabled ?? false,
+      restrictions: data.restrictions
+        ? {
+            users: data.restrictions.users.map(u => u.login ?? "").filter(Boolean),
+            teams: data.restrictions.teams.map(t => t.slug ?? "").filter(Boolean),
+            apps: data.restrictions.apps.map(a => a?.slug ?? "").filter(Boolean)
+          }
+        : null
+    };
+  } catch (error: any) {
+    // 404: the branch isn't protected
+    if (error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Protection of the default branch, or null for an empty repository without one.
+ */
+export async function loadEffectiveProtection(octokit: Octokit, repo: RepositoryInfo): Promise<EffectiveProtection | null> {
+  const owner = repo.owner.login;
+  const branch = repo.default_branch;
+  if (!branch) return null;
+
+  let classic: ProtectionSnapshot | null = null;
+  let readable = true;
+  try {
+    classic = await loadClassicProtection(octokit, owner, repo.name, branch);
+  } catch (error: any) {
+    // 403: no admin access, or protection isn't available for private repositories on this plan
+    if (error.status !== 403) throw error;
+    readable = false;
+  }
+
+  let rules: Awaited<ReturnType<Octokit["repos"]["getBranchRules"]>>["data"] = [];
+  try {
+    ({ data: rules } = await octokit.repos.getBranchRules({ owner, repo: repo.name, branch, per_page: 100 }));
+  } catch (error: any) {
+    // Rulesets aren't available everywhere classic protection is; treat that as no rules
+    if (error.status !== 403 && error.status !== 404) throw error;
+  }
+  const rulesetRules = [...new Set(rules.map(rule => rule.type))];
+  const requiredReviewsFromRules = Math.max(0, ...rules.map(rule =>
+    rule.type === "pull_request" ? rule.parameters?.required_approving_review_count ?? 0 : 0
+  ));
+
+  return {
+    branch,
+    readable,
+    classic,
+    rulesetRules,
+    protected: classic !== null || rulesetRules.length > 0,
+    requiredReviews: Math.max(classic?.requiredReviews ?? 0, requiredReviewsFromRules),
+    statusChecks: (classic?.statusChecks?.contexts.length ?? 0) > 0 || rulesetRules.includes("required_status_checks"),
+    forcePushBlocked: (classic !== null && !classic.allowForcePushes) || rulesetRules.includes("non_fast_forward"),
+    deletionBlocked: (classic !== null && !classic.allowDeletions) || rulesetRules.includes("deletion"),
+    signedCommits: (classic?.requiredSignatures ?? false) || rulesetRules.includes("required_signatures")
+  };
+}
+
+export async function loadRepositorySettings(octokit: Octokit, owner: string, repo: string): Promise<RepositorySettings> {
+  // Listing endpoints leave out the merge settings, so they come from the repository itself
+  const { data } = await octokit.repos.get({ owner, repo });
+
+  let vulnerabilityAlerts: boolean | null;
+  try {
+    await octokit.repos.checkVulnerabilityAlerts({ owner, repo });
+    vulnerabilityAlerts = true;
+  } catch (error: any) {
+    // 404 means disabled; anything else means the token isn't allowed to ask
+    vulnerabilityAlerts = error.status === 404 ? false : null;
+  }
+
+  return {
+    allowMergeCommit: data.allow_merge_commit ?? true,
+    allowSquashMerge: data.allow_squash_merge ?? true,
+    allowRebaseMerge: data.allow_rebase_merge ?? true,
+    deleteBranchOnMerge: data.delete_branch_on_merge ?? false,
+    vulnerabilityAlerts
+  };
+}
+
+/**
+ * The current values of the settings a profile sets, for comparison and rollback.
+ */
+export function pickSettings(current: RepositorySettings, keys: MergeSettings): MergeSettings {
+  const picked: MergeSettings = {};
+  for (const key of Object.keys(keys) as Array<keyof MergeSettings>) {
+    picked[key] = current[key];
+  }
+  return picked;
+}
+
+export function sameSettings(a: MergeSettings, b: MergeSettings): boolean {
+  return (Object.keys(b) as Array<keyof MergeSettings>).every(key => a[key] === b[key]);
+}
+
+export async function writeSettings(octokit: Octokit, owner: string, repo: string, settings: MergeSettings): Promise<void> {
+  await octokit.repos.update({
+    owner,
+    repo,
+    allow_merge_commit: settings.allowMergeCommit,
+    allow_squash_merge: settings.allowSquashMerge,
+    allow_rebase_merge: settings.allowRebaseMerge,
+    delete_branch_on_merge: settings.deleteBranchOnMerge
+  });
+}
+
+/**
+ * Combine current protection with a profile, keeping whichever is stricter.
+ */
+export function mergeProtection(current: ProtectionSnapshot | null, profile: ProtectionProfile, statusContexts: string[]): ProtectionSnapshot {
+  const target = profile.protection;
+  const reviews = [current?.requiredReviews, target.requiredReviews].filter((n): n is number => n !== null && n !== undefined);
+  const contexts = [...new Set([...(current?.statusChecks?.contexts ?? []), ...(target.requireStatusChecks ? statusContexts : [])])];
+
+  return {
+    requiredReviews: reviews.length ? Math.max(...reviews) : null,
+    dismissStaleReviews: (current?.dismissStaleReviews ?? false) || target.dismissStaleReviews,
+    requireCodeOwnerReviews: (current?.requireCodeOwnerReviews ?? false) || target.requireCodeOwnerReviews,
+    statusChecks: contexts.length > 0 || current?.statusChecks
+      ? { strict: (current?.statusChecks?.strict ?? false) || target.requireStatusChecks, contexts }
+      : null,
+    enforceAdmins: (current?.enforceAdmins ?? false) || target.enforceAdmins,
+    allowForcePushes: (current ? current.allowForcePushes : true) && target.allowForcePushes,
+    allowDeletions: (current ? current.allowDeletions : true) && target.allowDeletions,
+    requiredSignatures: (current?.requiredSignatures ?? false) || target.requiredSignatures,
+    requiredLinearHistory: (current?.requiredLinearHistory ?? false) || target.requiredLinearHistory,
+    restrictions: current?.restrictions ?? null
+  };
+}
+
+/**
+ * Names of the checks that ran on the default branch's latest commit, which a profile can require.
+ */
+export async function recentStatusContexts(octokit: Octokit, owner: string, repo: string, branch: string): Promise<string[]> {
+  try {
+    const { data } = await octokit.checks.listForRef({ owner, repo, ref: branch, per_page: 100 });
+    return [...new Set(data.check_runs.map(run => run.name))];
+  } catch (error: any) {
+    // 404/409: no commits, or checks aren't available
+    if (error.status === 404 || error.status === 409) return [];
+    throw error;
+  }
+}
+
+/**
+ * Write a snapshot as the branch's classic protection.
+ */
+export async function writeProtection(octokit: Octokit, owner: string, repo: string, branch: string, protection: ProtectionSnapshot): Promise<void> {
+  await octokit.repos.updateBranchProtection({
+    owner,
+    repo,
+    branch,
+    required_status_checks: protection.statusChecks,
+    enforce_admins: protection.enforceAdmins,
+    required_pull_request_reviews: protection.requiredReviews === null
+      ? null
+      : {
+          required_approving_review_count: protection.requiredReviews,
+          dismiss_stale_reviews: protection.dismissStaleReviews,
+          require_code_owner_reviews: protection.requireCodeOwnerReviews
+        },
+    restrictions: protection.restrictions,
+    allow_force_pushes: protection.allowForcePushes,
+    allow_deletions: protection.allowDeletions,
+    required_linear_history: protection.requiredLinearHistory
+  });
+
+  // Signed commits have their own endpoint
+  if (protection.requiredSignatures) {
+    await octokit.repos.createCommitSignatureProtection({ owner, repo, branch });
+  } else {
+    try {
+      await octokit.repos.deleteCommitSignatureProtection({ owner, repo, branch });
+    } catch (error: any) {
+      if (error.status !== 404) throw error;
+    }
+  }
+}
+
+export function sameProtection(a: ProtectionSnapshot | null, b: ProtectionSnapshot | null): boolean {
+  const normalize = (p: ProtectionSnapshot | null) => p && JSON.stringify({
+    ...p,
+    statusChecks: p.statusChecks && { ...p.statusChecks, contexts: [...p.statusChecks.contexts].sort() }
+  });
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Human-readable differences between two protection states, for plan previews.
+ */
+export function describeProtectionChanges(
+  current: ProtectionSnapshot | null,
+  target: ProtectionSnapshot,
+  currentSettings: MergeSettings = {},
+  targetSettings: MergeSettings = {}
+): string[] {
+  const show = (value: unknown) => value === null || value === undefined ? "off" : value === true ? "on" : value === false ? "off" : String(value);
+  const lines: string[] = [];
+  const compare = (label: string, before: unknown, after: unknown) => {
+    if (show(before) !== show(after)) lines.push(`${label}: ${show(before)} → ${show(after)}`);
+  };
+
+  if (!current) lines.push("Branch protection: off → on");
+  compare("Required approving reviews", current?.requiredReviews ?? null, target.requiredReviews);
+  compare("Dismiss stale reviews", current?.dismissStaleReviews, target.dismissStaleReviews);
+  compare("Require code owner reviews", current?.requireCodeOwnerReviews, target.requireCodeOwnerReviews);
+  compare("Required status checks", current?.statusChecks?.contexts.join(", ") || null, target.statusChecks?.contexts.join(", ") || null);
+  compare("Enforce for admins", current?.enforceAdmins, target.enforceAdmins);
+  compare("Force pushes allowed", current ? current.allowForcePushes : true, target.allowForcePushes);
+  compare("Deletion allowed", current ? current.allowDeletions : true, target.allowDeletions);
+  compare("Signed commits required", current?.requiredSignatures, target.requiredSignatures);
+  compare("Linear history required", current?.requiredLinearHistory, target.requiredLinearHistory);
+
+  for (const key of Object.keys(targetSettings) as Array<keyof MergeSettings>) {
+    compare(SETTING_LABELS[key], currentSettings[key], targetSettings[key]);
+  }
+  return lines;
+}
+
+const SETTING_LABELS: Record<keyof MergeSettings, string> = {
+  allowMergeCommit: "Merge commits",
+  allowSquashMerge: "Squash merging",
+  allowRebaseMerge: "Rebase merging",
+  deleteBranchOnMerge: "Delete branch on merge"
+};
+
+/**
+ * Plan bringing a repository's default branch up to a profile. Returns null when it already meets it.
+ */
+export async function planProtectionProfile(
+  octokit: Octokit,
+  repo: RepositoryInfo,
+  profile: ProtectionProfile
+): Promise<Omit<SetBranchProtectionChange, "id"> | null> {
+  const owner = repo.owner.login;
+  const branch = repo.default_branch;
+  if (!branch) {
+    throw new Error(`${repo.full_name} has no default branch to protect`);
+  }
+
+  let current: ProtectionSnapshot | null;
+  try {
+    current = await loadClassicProtection(octokit, owner, repo.name, branch);
+  } catch (error: any) {
+    if (error.status === 403) {
+      throw new Error(`Can't manage branch protection for ${repo.full_name}: it needs admin access, and private repositories need a paid plan`);
+    }
+    throw error;
+  }
+
+  const [settings, statusContexts] = await Promise.all([
+    loadRepositorySettings(octokit, owner, repo.name),
+    profile.protection.requireStatusChecks ? recentStatusContexts(octokit, owner, repo.name, branch) : Promise.resolve([])
+  ]);
+  const target = mergeProtection(current, profile, statusContexts);
+  const changes = describeProtectionChanges(current, target, pickSettings(settings, profile.settings), profile.settings);
+  if (changes.length === 0) return null;
+
+  return {
+    kind: "set-branch-protection",
+    owner,
+    repo: repo.name,
+    branch,
+    profile: profile.name,
+    statusContexts,
+    changes,
+    summary: `Apply the ${profile.name} protection profile to ${branch}`
+  };
+}
@@ -0,0 +1,251 @@
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { JsonFileStore } from "./dataStore";
+import { MergeSettings, ProtectionSnapshot } from "./branchProtection";
+import { SECURITY_FEATURES, SecurityFeature } from "./securityPosture";
+import { SERVER_CREDENTIAL_ID } from "./githubClients";
+
+interface JournalEntryBase {
+  id: string;
+  batchId: string;
+  timestamp: string;
+  owner: string;
+  repo: string;
+  summary: string;
+  /** Identity of the credential that made the change; entries recorded before there was one belong to the server's */
+  credential?: string;
+  rolledBackAt?: string;
+  rollbackNote?: string;
+}
+
+export interface FileCreatedEntry extends JournalEntryBase {
+  kind: "file-created";
+  path: string;
+  commitSha: string;
+  blobSha: string;
+}
+
+export interface VisibilityChangedEntry extends JournalEntryBase {
+  kind: "visibility-changed";
+  previousPrivate: boolean;
+  newPrivate: boolean;
+}
+
+export interface PullRequestOpenedEntry extends JournalEntryBase {
+  kind: "pull-request-opened";
+  number: number;
+  url: string;
+  branch: string;
+  paths: string[];
+  commitSha: string;
+}
+
+export interface TopicsChangedEntry extends JournalEntryBase {
+  kind: "topics-changed";
+  previousTopics: string[];
+  newTopics: string[];
+}
+
+export interface DescriptionChangedEntry extends JournalEntryBase {
+  kind: "description-changed";
+  previousDescription: string | null;
+  previousHomepage: string | null;
+  newDescription: string;
+  newHomepage: string | null;
+}
+
+export interface ArchiveChangedEntry extends JournalEntryBase {
+  kind: "archive-changed";
+  previousArchived: boolean;
+  newArchived: boolean;
+  /** The README edit made along with it, e.g. the archive notice */
+  readmePath?: string;
+  readmeBlobSha?: string;
+  previousReadmeBlobSha?: string;
+}
+
+export interface BranchProtectionChangedEntry extends JournalEntryBase {
+  kind: "branch-protection-changed";
+  branch: string;
+  profile: string;
+  changes: string[];
+  /** Null when the branch wasn't protected before */
+  previousProtection: ProtectionSnapshot | null;
+  newProtection: ProtectionSnapshot;
+  previousSettings: MergeSettings;
+  newSettings: MergeSettings;
+}
+
+export interface SecurityFeatureChangedEntry extends JournalEntryBase {
+  kind: "security-feature-changed";
+  feature: SecurityFeature;
+  previousEnabled: boolean;
+  newEnabled: boolean;
+}
+
+export interface ForkSyncedEntry extends JournalEntryBase {
+  kind: "fork-synced";
+  branch: string;
+  upstream: string;
+  mergeType: string;
+  previousSha: string;
+  newSha: string;
+}
+
+export type JournalEntry =
+  FileCreatedEntry | VisibilityChangedEntry | PullRequestOpenedEntry | TopicsChangedEntry | DescriptionChangedEntry |
+  ArchiveChangedEntry | BranchProtectionChangedEntry | SecurityFeatureChangedEntry | ForkSyncedEntry;
+
+/**
+ * An entry as recorded by the executor, before the journal assigns its ID and timestamp.
+ */
+export type JournalRecord =
+  Omit<FileCreatedEntry, "id" | "timestamp"> |
+  Omit<VisibilityChangedEntry, "id" | "timestamp"> |
+  Omit<PullRequestOpenedEntry, "id" | "timestamp"> |
+  Omit<TopicsChangedEntry, "id" | "timestamp"> |
+  Omit<DescriptionChangedEntry, "id" | "timestamp"> |
+  Omit<ArchiveChangedEntry, "id" | "timestamp"> |
+  Omit<BranchProtectionChangedEntry, "id" | "timestamp"> |
+  Omit<SecurityFeatureChangedEntry, "id" | "timestamp"> |
+  Omit<ForkSyncedEntry, "id" | "timestamp">;
+
+export const journalEntrySchema = z.object({
+  id: z.string(),
+  batchId: z.string(),
+  timestamp: z.string(),
+  repo: z.string(),
+  kind: z.enum(["file-created", "visibility-changed", "pull-request-opened", "topics-changed", "description-changed", "archive-changed",
+    "branch-protection-changed", "security-feature-changed", "fork-synced"]),
+  summary: z.string(),
+  path: z.string().optional(),
+  commitSha: z.string().optional(),
+  previousPrivate: z.boolean().optional(),
+  newPrivate: z.boolean().optional(),
+  number: z.number().optional(),
+  url: z.string().optional(),
+  branch: z.string().optional(),
+  paths: z.array(z.string()).optional(),
+  previousTopics: z.array(z.string()).optional(),
+  newTopics: z.array(z.string()).optional(),
+  previousDescription: z.string().nullable().optional(),
+  previousHomepage: z.string().nullable().optional(),
+  newDescription: z.string().optional(),
+  newHomepage: z.string().nullable().optional(),
+  previousArchived: z.boolean().optional(),
+  newArchived: z.boolean().optional(),
+  readmePath: z.string().optional(),
+  profile: z.string().optional(),
+  changes: z.array(z.string()).optional(),
+  feature: z.enum(SECURITY_FEATURES).optional(),
+  previousEnabled: z.boolean().optional(),
+  newEnabled: z.boolean().optional(),
+  upstream: z.string().optional(),
+  mergeType: z.string().optional(),
+  previousSha: z.string().optional(),
+  newSha: z.string().optional(),
+  rolledBackAt: z.string().optional(),
+  rollbackNote: z.string().optional()
+});
+
+function newId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Shape a journal entry for the agent.
+ */
+export function describeEntry(entry: JournalEntry) {
+  const { owner, repo, credential, ...rest } = entry;
+  return { ...rest, repo: `${owner}/${repo}` };
+}
+
+/**
+ * Persistent log of every mutation the organizer makes, used to roll changes back. A journal
+ * belongs to one credential: it only reads that credential's entries, so people sharing a
+ * deployment can't see or undo each other's changes.
+ */
+export class ChangeJournal {
+  private store = new JsonFileStore<{ entries: JournalEntry[] }>("journal.json", () => ({ entries: [] }));
+
+  constructor(private credential: string) {}
+
+  private owns(entry: JournalEntry): boolean {
+    return (entry.credential ?? SERVER_CREDENTIAL_ID) === this.credential;
+  }
+
+  private entries(): JournalEntry[] {
+    return this.store.read().entries.filter(e => this.owns(e));
+  }
+
+  newBatchId(): string {
+    return newId("batch");
+  }
+
+  record(record: JournalRecord): JournalEntry {
+    const entry = { ...record, id: newId("jrn"), timestamp: new Date().toISOString(), credential: this.credential } as JournalEntry;
+    this.store.update(doc => {
+      doc.entries.push(entry);
+    });
+    return entry;
+  }
+
+  get(entryId: string): JournalEntry {
+    const entry = this.store.read().entries.find(e => e.id === entryId);
+    if (!entry) {
+      throw new Error(`No journal entry ${entryId}`);
+    }
+    if (!this.owns(entry)) {
+      throw new Error(`Journal entry ${entryId} was made with a different credential`);
+    }
+    return entry;
+  }
+
+  /**
+   * Entries of a batch, newest first so they can be undone in reverse order.
+   */
+  batch(batchId: string): JournalEntry[] {
+    const all = this.store.read().entries.filter(e => e.batchId === batchId);
+    if (all.length === 0) {
+      throw new Error(`No journal entries for batch ${batchId}`);
+    }
+    const entries = all.filter(e => this.owns(e));
+    if (entries.length < all.length) {
+      throw new Error(`Batch ${batchId} was made with a different credential`);
+    }
+    return entries.reverse();
+  }
+
+  list(filter: { owner?: string; repo?: string; batchId?: string; kind?: JournalEntry["kind"]; limit?: number } = {}): JournalEntry[] {
+    return this.entries()
+      .filter(e => !filter.kind || e.kind === filter.kind)
+      .filter(e => !filter.owner || e.owner.toLowerCase() === filter.owner.toLowerCase())
+      .filter(e => !filter.repo || e.repo.toLowerCase() === filter.repo.toLowerCase())
+      .filter(e => !filter.batchId || e.batchId === filter.batchId)
+      .reverse()
+      .slice(0, filter.limit ?? 50);
+  }
+
+  /**
+   * The entry for a pull request the organizer opened, if it was journaled.
+   */
+  findPullRequest(owner: string, repo: string, number: number): PullRequestOpenedEntry | null {
+    const entry = this.entries().find(e =>
+      e.kind === "pull-request-opened" &&
+      e.number === number &&
+      e.owner.toLowerCase() === owner.toLowerCase() &&
+      e.repo.toLowerCase() === repo.toLowerCase()
+    );
+    return (entry as PullRequestOpenedEntry) ?? null;
+  }
+
+  markRolledBack(entryId: string, note: string): void {
+    this.store.update(doc => {
+      const entry = doc.entries.find(e => e.id === entryId);
+      if (entry && this.owns(entry)) {
+        entry.rolledBackAt = new Date().toISOString();
+        entry.rollbackNote = note;
+      }
+    });
+  }
+}
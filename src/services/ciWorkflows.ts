@@ -0,0 +1,329 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+
+export type CiState = "passing" | "failing" | "pending" | "no-runs" | "missing";
+
+export interface WorkflowRunSummary {
+  workflow: string;
+  path: string;
+  status: string | null;
+  conclusion: string | null;
+  url: string;
+  createdAt: string;
+}
+
+/**
+ * Whether a repository has CI and how its default branch is doing, from the latest run of each workflow.
+ */
+export interface CiStatus {
+  /** Null when the workflow runs can't be read, e.g. with Actions disabled */
+  state: CiState | null;
+  workflows: string[];
+  latestRuns: WorkflowRunSummary[];
+}
+
+export type StarterLanguage = "node" | "python" | "go" | "rust" | "java";
+
+export const STARTER_LANGUAGES: [StarterLanguage, ...StarterLanguage[]] = ["node", "python", "go", "rust", "java"];
+
+/**
+ * What a starter workflow is built from: the toolchain and the commands the repository defines.
+ */
+export interface CiStack {
+  language: StarterLanguage;
+  /** The manifest the language was inferred from */
+  manifest: string;
+  packageManager?: "npm" | "yarn" | "pnpm";
+  /** Whether a lockfile is committed; installs are reproducible and cacheable only with one */
+  lockfile?: boolean;
+  scripts?: string[];
+  buildTool?: "maven" | "gradle";
+  /** Gradle or Maven wrapper script, used instead of a global install */
+  wrapper?: boolean;
+  javaVersion?: string;
+  nodeVersionFile?: string;
+  pythonInstall?: string[];
+  pytest?: boolean;
+  ruff?: boolean;
+}
+
+export const STARTER_WORKFLOW_PATH = ".github/workflows/ci.yml";
+
+const WORKFLOW_FILE = /^\.github\/workflows\/[^/]+\.ya?ml$/i;
+const FAILED_CONCLUSIONS = ["failure", "timed_out", "startup_failure"];
+// Enough recent runs to find the latest of each workflow in most repositories
+const RECENT_RUNS = 50;
+const DEFAULT_JAVA_VERSION = "21";
+
+// The root manifest of each language, in the order they are tried when the main language doesn't decide
+const LANGUAGE_MANIFESTS: Array<{ language: StarterLanguage; manifests: string[] }> = [
+  { language: "node", manifests: ["package.json"] },
+  { language: "python", manifests: ["pyproject.toml", "requirements.txt", "setup.py"] },
+  { language: "go", manifests: ["go.mod"] },
+  { language: "rust", manifests: ["Cargo.toml"] },
+  { language: "java", manifests: ["pom.xml", "build.gradle", "build.gradle.kts"] }
+];
+
+const GITHUB_LANGUAGES: Record<string, StarterLanguage> = {
+  JavaScript: "node",
+  TypeScript: "node",
+  Python: "python",
+  "Jupyter Notebook": "python",
+  Go: "go",
+  Rust: "rust",
+  Java: "java",
+  Kotlin: "java"
+};
+
+export function workflowFiles(files: RepoFileIndex): string[] {
+  return files.files().filter(path => WORKFLOW_FILE.test(path));
+}
+
+export async function loadCiStatus(octokit: Octokit, repo: RepositoryInfo, files: RepoFileIndex): Promise<CiStatus> {
+  const workflows = workflowFiles(files);
+  if (workflows.length === 0 || !repo.default_branch) {
+    return { state: workflows.length === 0 ? "missing" : "no-runs", workflows, latestRuns: [] };
+  }
+
+  let runs;
+  try {
+    ({ data: { workflow_runs: runs } } = await octokit.actions.listWorkflowRunsForRepo({
+      owner: repo.owner.login,
+      repo: repo.name,
+      branch: repo.default_branch,
+      exclude_pull_requests: true,
+      per_page: RECENT_RUNS
+    }));
+  } catch (error: any) {
+    // 403/404: Actions is disabled or the token can't read runs
+    if (error.status === 403 || error.status === 404) return { state: null, workflows, latestRuns: [] };
+    throw error;
+  }
+
+  // Runs come newest first; keep the latest of each workflow file in the repository, which leaves
+  // out GitHub's own dynamic workflows such as Pages builds
+  const known = new Set(workflows.map(path => path.toLowerCase()));
+  const latest = new Map<string, WorkflowRunSummary>();
+  for (const run of runs) {
+    const path = (run.path ?? "").replace(/@.*$/, "");
+    if (!known.has(path.toLowerCase()) || latest.has(path)) continue;
+    latest.set(path, {
+      workflow: run.name ?? path,
+      path,
+      status: run.status,
+      conclusion: run.conclusion,
+      url: run.html_url,
+      createdAt: run.created_at
+    });
+  }
+
+  const latestRuns = [...latest.values()];
+  const state: CiState = latestRuns.length === 0
+    ? "no-runs"
+    : latestRuns.some(run => FAILED_CONCLUSIONS.includes(run.conclusion ?? ""))
+      ? "failing"
+      : latestRuns.some(run => run.status !== "completed")
+        ? "pending"
+        : "passing";
+  return { state, workflows, latestRuns };
+}
+
+/**
+ * Infer the toolchain for a starter workflow from the root manifests. The repository's main
+ * language decides when there are several; returns null when none is supported.
+ */
+export async function detectCiStack(
+  octokit: Octokit,
+  repo: RepositoryInfo,
+  files: RepoFileIndex,
+  language?: StarterLanguage
+): Promise<CiStack | null> {
+  const candidates = LANGUAGE_MANIFESTS
+    .map(({ language, manifests }) => ({ language, manifest: manifests.find(m => files.has(m)) }))
+    .filter((c): c is { language: StarterLanguage; manifest: string } => !!c.manifest);
+
+  const preferred = language ?? (repo.language ? GITHUB_LANGUAGES[repo.language] : undefined);
+  const chosen = candidates.find(c => c.language === preferred) ?? (language ? undefined : candidates[0]);
+  if (!chosen) return null;
+
+  const read = (path: string) => readRepoFile(octokit, repo.owner.login, repo.name, path, repo.default_branch);
+
+  switch (chosen.language) {
+    case "node": {
+      let scripts: string[] = [];
+      try {
+        const manifest = JSON.parse((await read("package.json")) ?? "{}");
+        scripts = Object.entries<string>(manifest.scripts ?? {})
+          // npm init's placeholder test script always fails
+          .filter(([name, command]) => !(name === "test" && /no test specified/.test(command)))
+          .map(([name]) => name);
+      } catch {
+        // An unparseable package.json just gets the install and build steps
+      }
+      const packageManager = files.has("pnpm-lock.yaml") ? "pnpm" : files.has("yarn.lock") ? "yarn" : "npm";
+      return {
+        ...chosen,
+        packageManager,
+        lockfile: packageManager !== "npm" || files.has("package-lock.json") || files.has("npm-shrinkwrap.json"),
+        scripts,
+        nodeVersionFile: [".nvmrc", ".node-version"].find(path => files.has(path))
+      };
+    }
+    case "python": {
+      const pyproject = files.has("pyproject.toml") ? await read("pyproject.toml") : null;
+      const install = ["python -m pip install --upgrade pip"];
+      if (files.has("requirements.txt")) install.push("pip install -r requirements.txt");
+      if (files.has("setup.py") || (pyproject && /^\s*\[(project|tool\.poetry)\]/m.test(pyproject))) install.push("pip install -e .");
+      const pytest = files.files().some(path => /(^|\/)(tests?\/|test_[^/]+\.py$|[^/]+_test\.py$|conftest\.py$)/.test(path));
+      if (pytest) install.push("pip install pytest");
+      return {
+        ...chosen,
+        lockfile: files.has("requirements.txt"),
+        pythonInstall: install,
+        pytest,
+        ruff: files.has("ruff.toml") || files.has(".ruff.toml") || /^\s*\[tool\.ruff/m.test(pyproject ?? "")
+      };
+    }
+    case "java": {
+      const buildTool = chosen.manifest === "pom.xml" ? "maven" : "gradle";
+      const build = await read(chosen.manifest);
+      return {
+        ...chosen,
+        buildTool,
+        wrapper: files.has(buildTool === "maven" ? "mvnw" : "gradlew"),
+        javaVersion: (build && javaVersion(build)) || DEFAULT_JAVA_VERSION
+      };
+    }
+    default:
+      return chosen;
+  }
+}
+
+/**
+ * The Java version a Maven or Gradle build targets, e.g. "17" from <maven.compiler.release>17
+ * or JavaLanguageVersion.of(17). Old "1.8" style versions become "8".
+ */
+function javaVersion(build: string): string | null {
+  const match = build.match(/<(?:maven\.compiler\.(?:release|source|target)|java\.version)>\s*([\d.]+)\s*</) ??
+    build.match(/JavaLanguageVersion\.of\(\s*(\d+)\s*\)/) ??
+    build.match(/JavaVersion\.VERSION_([\d_]+)/) ??
+    build.match(/sourceCompatibility\s*=\s*['"]?([\d.]+)/);
+  if (!match) return null;
+  const version = match[1].replace(/_/g, ".");
+  return version.startsWith("1.") ? version.slice(2) : version.split(".")[0];
+}
+
+/**
+ * A GitHub Actions workflow that builds and tests the repository on pushes to the default branch
+ * and on pull requests.
+ */
+export function renderStarterWorkflow(stack: CiStack, defaultBranch: string): string {
+  const header = [
+    "name: CI",
+    "",
+    "on:",
+    "  push:",
+    `    branches: [ "${defaultBranch}" ]`,
+    "  pull_request:",
+    `    branches: [ "${defaultBranch}" ]`,
+    "",
+    "permissions:",
+    "  contents: read",
+    "",
+    "jobs:",
+    "  build:",
+    "    runs-on: ubuntu-latest"
+  ];
+  return `${[...header, ...jobBody(stack)].join("\n")}\n`;
+}
+
+function jobBody(stack: CiStack): string[] {
+  const run = (name: string, command: string) => [`      - name: ${name}`, `        run: ${command}`];
+  const checkout = "      - uses: actions/checkout@v4";
+
+  switch (stack.language) {
+    case "node": {
+      const pm = stack.packageManager ?? "npm";
+      const scripts = stack.scripts ?? [];
+      const install = pm === "pnpm" ? "pnpm install --frozen-lockfile" : pm === "yarn" ? "yarn install --frozen-lockfile" : stack.lockfile ? "npm ci" : "npm install";
+      const lines = stack.nodeVersionFile
+        ? ["    steps:", checkout]
+        : ["    strategy:", "      matrix:", "        node-version: [20.x, 22.x]", "    steps:", checkout];
+      if (pm === "pnpm") lines.push("      - uses: pnpm/action-setup@v4");
+      lines.push(
+        "      - uses: actions/setup-node@v4",
+        "        with:",
+        stack.nodeVersionFile ? `          node-version-file: ${stack.nodeVersionFile}` : "          node-version: ${{ matrix.node-version }}",
+        ...(stack.lockfile ? [`          cache: ${pm}`] : []),
+        ...run("Install dependencies", install)
+      );
+      for (const script of ["lint", "build", "test"].filter(s => scripts.includes(s))) {
+        lines.push(...run(script[0].toUpperCase() + script.slice(1), `${pm} run ${script}`));
+      }
+      return lines;
+    }
+    case "python": {
+      const lines = [
+        "    strategy:",
+        "      matrix:",
+        '        python-version: ["3.10", "3.11", "3.12"]',
+        "    steps:",
+        checkout,
+        "      - uses: actions/setup-python@v5",
+        "        with:",
+        "          python-version: ${{ matrix.python-version }}",
+        // setup-python's pip cache is keyed on requirements.txt and fails without one
+        ...(stack.lockfile ? ["          cache: pip"] : []),
+        "      - name: Install dependencies",
+        "        run: |",
+        ...(stack.pythonInstall ?? []).map(command => `          ${command}`)
+      ];
+      if (stack.ruff) lines.push(...run("Lint", "pipx run ruff check ."));
+      lines.push(...(stack.pytest ? run("Test", "pytest") : run("Check syntax", "python -m compileall -q .")));
+      return lines;
+    }
+    case "go":
+      return [
+        "    steps:",
+        checkout,
+        "      - uses: actions/setup-go@v5",
+        "        with:",
+        "          go-version-file: go.mod",
+        ...run("Build", "go build ./..."),
+        ...run("Vet", "go vet ./..."),
+        ...run("Test", "go test ./...")
+      ];
+    case "rust":
+      return [
+        "    env:",
+        "      CARGO_TERM_COLOR: always",
+        "    steps:",
+        checkout,
+        "      - uses: Swatinem/rust-cache@v2",
+        ...run("Build", "cargo build --verbose"),
+        ...run("Test", "cargo test --verbose")
+      ];
+    case "java": {
+      const maven = stack.buildTool === "maven";
+      const lines = [
+        "    steps:",
+        checkout,
+        "      - uses: actions/setup-java@v4",
+        "        with:",
+        `          java-version: "${stack.javaVersion ?? DEFAULT_JAVA_VERSION}"`,
+        "          distribution: temurin",
+        ...(maven ? ["          cache: maven"] : [])
+      ];
+      if (maven) {
+        lines.push(...run("Build and test", `${stack.wrapper ? "./mvnw" : "mvn"} -B verify`));
+      } else {
+        lines.push(
+          "      - uses: gradle/actions/setup-gradle@v4",
+          ...run("Build and test", stack.wrapper ? "./gradlew build" : "gradle build")
+        );
+      }
+      return lines;
+    }
+  }
+}
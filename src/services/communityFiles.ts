@@ -0,0 +1,160 @@
+import { Octokit } from "@octokit/rest";
+import { FileKind, RepoFileIndex } from "./repoFiles";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import {
+  CommunityTemplateOptions,
+  renderBugReportTemplate,
+  renderCodeOfConduct,
+  renderContributing,
+  renderFeatureRequestTemplate,
+  renderFunding,
+  renderPullRequestTemplate,
+  renderSecurityPolicy,
+  renderSupport
+} from "./fileTemplates";
+
+export type CommunityFileKind = Exclude<FileKind, "readme" | "license" | "dependabot-config" | "workflows">;
+
+/**
+ * What GitHub's community profile reports for a repository. Files the profile knows about may come
+ * from the owner's .github repository, which the repository's own file index can't see.
+ */
+export interface CommunityProfile {
+  healthPercentage: number;
+  /** URL of each file the profile found */
+  files: Partial<Record<CommunityFileKind, string>>;
+}
+
+export interface CommunityFileInfo {
+  kind: CommunityFileKind;
+  /** Label used in reports, e.g. CONTRIBUTING */
+  label: string;
+  render(options: CommunityTemplateOptions): Array<{ path: string; content: string }>;
+}
+
+export interface CommunityFileStatus {
+  kind: CommunityFileKind;
+  label: string;
+  present: boolean;
+  /** Path in the repository, or the URL of a file only the community profile found */
+  path: string | null;
+  /** Where the file was found: in the repository, or only through the community profile */
+  source: "repository" | "community-profile" | null;
+}
+
+export const COMMUNITY_FILE_CATALOG: CommunityFileInfo[] = [
+  {
+    kind: "contributing",
+    label: "CONTRIBUTING",
+    render: options => [{ path: 'CONTRIBUTING.md', content: renderContributing(options) }]
+  },
+  {
+    kind: "code-of-conduct",
+    label: "CODE_OF_CONDUCT",
+    render: options => [{ path: 'CODE_OF_CONDUCT.md', content: renderCodeOfConduct(options) }]
+  },
+  {
+    kind: "security",
+    label: "SECURITY",
+    render: options => [{ path: 'SECURITY.md', content: renderSecurityPolicy(options) }]
+  },
+  {
+    kind: "support",
+    label: "SUPPORT",
+    render: options => [{ path: 'SUPPORT.md', content: renderSupport(options) }]
+  },
+  {
+    kind: "issue-templates",
+    label: "Issue templates",
+    render: options => [
+      { path: '.github/ISSUE_TEMPLATE/bug_report.md', content: renderBugReportTemplate(options) },
+      { path: '.github/ISSUE_TEMPLATE/feature_request.md', content: renderFeatureRequestTemplate(options) }
+    ]
+  },
+  {
+    kind: "pull-request-template",
+    label: "Pull request template",
+    render: options => [{ path: '.github/pull_request_template.md', content: renderPullRequestTemplate(options) }]
+  },
+  {
+    kind: "funding",
+    label: "FUNDING",
+    render: options => [{ path: '.github/FUNDING.yml', content: renderFunding(options) }]
+  }
+];
+
+export const COMMUNITY_FILE_KINDS = COMMUNITY_FILE_CATALOG.map(file => file.kind) as [CommunityFileKind, ...CommunityFileKind[]];
+
+export function getCommunityFile(kind: CommunityFileKind): CommunityFileInfo {
+  const file = COMMUNITY_FILE_CATALOG.find(f => f.kind === kind);
+  if (!file) {
+    throw new Error(`Unknown community file "${kind}". Available: ${COMMUNITY_FILE_KINDS.join(", ")}`);
+  }
+  return file;
+}
+
+/**
+ * Template options for a repository, filled in from its metadata.
+ */
+export function communityTemplateOptions(
+  repo: RepositoryInfo,
+  overrides: Partial<CommunityTemplateOptions> = {}
+): CommunityTemplateOptions {
+  return {
+    owner: repo.owner.login,
+    repoName: repo.name,
+    description: repo.description,
+    language: repo.language,
+    defaultBranch: repo.default_branch,
+    licenseName: repo.license?.name,
+    homepage: repo.homepage,
+    ...overrides
+  };
+}
+
+/**
+ * Load GitHub's community profile. It is only available for public repositories, so private ones,
+ * and repositories the endpoint refuses, get null.
+ */
+export async function loadCommunityProfile(octokit: Octokit, repo: RepositoryInfo): Promise<CommunityProfile | null> {
+  if (repo.private) return null;
+
+  try {
+    const { data } = await octokit.repos.getCommunityProfileMetrics({
+      owner: repo.owner.login,
+      repo: repo.name
+    });
+    const urls: CommunityProfile["files"] = {
+      "contributing": data.files.contributing?.html_url ?? undefined,
+      "code-of-conduct": data.files.code_of_conduct_file?.html_url ?? data.files.code_of_conduct?.html_url ?? undefined,
+      "issue-templates": data.files.issue_template?.html_url ?? undefined,
+      "pull-request-template": data.files.pull_request_template?.html_url ?? undefined
+    };
+    const files = Object.fromEntries(Object.entries(urls).filter(([, url]) => url)) as CommunityProfile["files"];
+
+    return { healthPercentage: data.health_percentage, files };
+  } catch (error: any) {
+    if (error.status === 404 || error.status === 403) return null;
+    throw error;
+  }
+}
+
+/**
+ * Whether a repository has a community file, checking its own files first and then the community profile.
+ */
+export function communityFileStatus(
+  kind: CommunityFileKind,
+  files: RepoFileIndex,
+  profile: CommunityProfile | null
+): CommunityFileStatus {
+  const { label } = getCommunityFile(kind);
+  const path = files.find(kind);
+  if (path) {
+    return { kind, label, present: true, path, source: "repository" };
+  }
+
+  const profilePath = profile?.files[kind];
+  return profilePath
+    ? { kind, label, present: true, path: profilePath, source: "community-profile" }
+    : { kind, label, present: false, path: null, source: null };
+}
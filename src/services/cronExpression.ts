@@ -0,0 +1,126 @@
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month, day of week.
+ * Fields accept *, lists, ranges, steps and month and weekday names; @hourly, @daily,
+ * @weekly, @monthly and @yearly are shorthands. Times are in the server's local time zone.
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron matches either day field when both are restricted */
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *"
+};
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// Far enough ahead for any valid expression, including 29 February
+const MAX_SEARCH_DAYS = 366 * 8;
+
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  const value = (text: string) => {
+    const named = names.indexOf(text.toLowerCase());
+    const number = named >= 0 ? named + nameOffset : Number(text);
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`"${text}" is out of range ${min}-${max}`);
+    }
+    return number;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in "${part}"`);
+    }
+
+    let [from, to] = [min, max];
+    if (range !== "*") {
+      const [start, end] = range.split("-");
+      from = value(start);
+      // "5/15" runs from 5 to the end of the range
+      to = end !== undefined ? value(end) : stepText !== undefined ? max : from;
+    }
+    if (from > to) {
+      throw new Error(`Invalid range "${range}"`);
+    }
+    for (let n = from; n <= to; n += step) values.add(n);
+  }
+  return values;
+}
+
+export function parseCron(source: string): CronExpression {
+  const expanded = MACROS[source.trim().toLowerCase()] ?? source.trim();
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${source}" needs 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  try {
+    const daysOfWeek = parseField(fields[4], 0, 7, DAY_NAMES);
+    // 7 is Sunday too
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+      source,
+      minutes: parseField(fields[0], 0, 59),
+      hours: parseField(fields[1], 0, 23),
+      daysOfMonth: parseField(fields[2], 1, 31),
+      months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      dayOfMonthRestricted: fields[2] !== "*",
+      dayOfWeekRestricted: fields[4] !== "*"
+    };
+  } catch (error: any) {
+    throw new Error(`Invalid cron expression "${source}": ${error.message}`);
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * The first time after `after` that the expression matches, to the minute.
+ */
+export function nextRun(cron: CronExpression, after: Date = new Date()): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`Cron expression "${cron.source}" never matches`);
+}
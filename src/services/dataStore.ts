@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+
+/**
+ * Resolve a path inside the organizer's local data directory (ORGANIZER_DATA_DIR, default ./data).
+ */
+export function dataPath(...segments: string[]): string {
+  const dir = process.env.ORGANIZER_DATA_DIR || path.join(process.cwd(), "data");
+  const fullPath = path.join(dir, ...segments);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  return fullPath;
+}
+
+/**
+ * A JSON document persisted to a single file in the data directory.
+ * Writes go through a temp file and a rename so a crash never leaves half a file behind.
+ */
+export class JsonFileStore<T> {
+  constructor(private fileName: string, private initial: () => T) {}
+
+  read(): T {
+    try {
+      return JSON.parse(fs.readFileSync(dataPath(this.fileName), "utf8")) as T;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return this.initial();
+      throw new Error(`Failed to read ${this.fileName}: ${error.message}`);
+    }
+  }
+
+  write(value: T): void {
+    const filePath = dataPath(this.fileName);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(value, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Read, modify and write back the document in one step.
+   */
+  update(mutate: (value: T) => void): T {
+    const value = this.read();
+    mutate(value);
+    this.write(value);
+    return value;
+  }
+}
+
+/**
+ * Records persisted as one JSON document per line, so adding a record appends to the file
+ * instead of rewriting it. A line cut short by a crash is skipped when reading.
+ */
+export class JsonLinesStore<T> {
+  constructor(private fileName: string) {}
+
+  read(): T[] {
+    let text: string;
+    try {
+      text = fs.readFileSync(dataPath(this.fileName), "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") return [];
+      throw new Error(`Failed to read ${this.fileName}: ${error.message}`);
+    }
+
+    const records: T[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line) as T);
+      } catch {
+        // Partial line from an interrupted append
+      }
+    }
+    return records;
+  }
+
+  append(record: T): void {
+    fs.appendFileSync(dataPath(this.fileName), `${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Replace every record, through a temp file and a rename like JsonFileStore.
+   */
+  write(records: T[]): void {
+    const filePath = dataPath(this.fileName);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, records.map(record => `${JSON.stringify(record)}\n`).join(""));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Size of the file in bytes, 0 before anything was written.
+   */
+  size(): number {
+    try {
+      return fs.statSync(dataPath(this.fileName)).size;
+    } catch (error: any) {
+      if (error.code === "ENOENT") return 0;
+      throw new Error(`Failed to read ${this.fileName}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+
+export interface DescriptionDraft {
+  description: string;
+  /** Homepage found in a manifest, if the repository doesn't have one yet */
+  homepage?: string;
+  /** Where each part of the draft came from */
+  sources: string[];
+  /** Low when the draft is only built from the languages and needs a human to fill in the purpose */
+  confidence: "high" | "low";
+}
+
+// GitHub rejects longer descriptions
+const MAX_DESCRIPTION_LENGTH = 350;
+// A README paragraph shorter than this is usually a tagline fragment or leftover template text
+const MIN_PARAGRAPH_LENGTH = 20;
+const MAX_LANGUAGES = 2;
+// Placeholder text from the organizer's own README template, which says nothing about the project
+const PLACEHOLDER_PARAGRAPHS = ["A description of this project."];
+
+/**
+ * Draft a description from the package manifest's description field, the README's first paragraph
+ * and the language breakdown. Returns null when there's nothing to draft from.
+ */
+export async function draftDescription(octokit: Octokit, repo: RepositoryInfo, files: RepoFileIndex): Promise<DescriptionDraft | null> {
+  const owner = repo.owner.login;
+  const read = (path: string | null) => path && files.has(path)
+    ? readRepoFile(octokit, owner, repo.name, path, repo.default_branch)
+    : Promise.resolve(null);
+
+  const readmePath = files.find("readme");
+  const [packageJson, cargoToml, pyproject, readme] = await Promise.all([
+    read("package.json"),
+    read("Cargo.toml"),
+    read("pyproject.toml"),
+    read(readmePath)
+  ]);
+
+  const manifest = manifestMetadata(packageJson, cargoToml, pyproject);
+  const paragraph = readme ? firstParagraph(readme) : null;
+
+  const { data: bytesByLanguage } = await octokit.repos.listLanguages({ owner, repo: repo.name });
+  const languages = Object.entries(bytesByLanguage)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LANGUAGES)
+    .map(([language]) => language);
+
+  const sources: string[] = [];
+  let description: string;
+  let confidence: DescriptionDraft["confidence"] = "high";
+
+  if (manifest.description && manifest.description.length >= MIN_PARAGRAPH_LENGTH) {
+    description = manifest.description;
+    sources.push(`${manifest.file} description`);
+  } else if (paragraph) {
+    description = paragraph;
+    sources.push(`first paragraph of ${readmePath}`);
+  } else if (manifest.description) {
+    description = manifest.description;
+    sources.push(`${manifest.file} description`);
+  } else if (languages.length > 0) {
+    description = `${repo.name.replace(/[-_]+/g, " ")}: a ${languages.join(" and ")} project`;
+    sources.push(`language breakdown (${languages.join(", ")})`);
+    confidence = "low";
+  } else {
+    return null;
+  }
+
+  // Mention the languages when the text doesn't already
+  const unmentioned = languages.filter(language => !description.toLowerCase().includes(language.toLowerCase()));
+  if (languages.length > 0 && confidence === "high" && unmentioned.length === languages.length) {
+    const withLanguages = `${description.replace(/[.!]?$/, ".")} Built with ${languages.join(" and ")}.`;
+    if (withLanguages.length <= MAX_DESCRIPTION_LENGTH) {
+      description = withLanguages;
+      sources.push(`language breakdown (${languages.join(", ")})`);
+    }
+  }
+
+  return {
+    description: truncate(description),
+    homepage: !repo.homepage && manifest.homepage ? manifest.homepage : undefined,
+    sources,
+    confidence
+  };
+}
+
+function manifestMetadata(packageJson: string | null, cargoToml: string | null, pyproject: string | null): {
+  file?: string;
+  description?: string;
+  homepage?: string;
+} {
+  if (packageJson) {
+    try {
+      const manifest = JSON.parse(packageJson);
+      if (manifest.description || manifest.homepage) {
+        return { file: "package.json", description: clean(manifest.description), homepage: manifest.homepage || undefined };
+      }
+    } catch {
+      // Fall through to the other manifests
+    }
+  }
+
+  for (const [file, content] of [["Cargo.toml", cargoToml], ["pyproject.toml", pyproject]] as const) {
+    if (!content) continue;
+    const description = tomlString(content, "description");
+    const homepage = tomlString(content, "homepage");
+    if (description || homepage) {
+      return { file, description: clean(description), homepage };
+    }
+  }
+  return {};
+}
+
+/**
+ * A top-level string value from a TOML file, e.g. description = "...". Good enough for
+ * the [package] and [project] tables, which is where descriptions live.
+ */
+function tomlString(content: string, key: string): string | undefined {
+  const match = content.match(new RegExp(`^\\s*${key}\\s*=\\s*(["'])(.*?)\\1\\s*$`, "m"));
+  return match?.[2] || undefined;
+}
+
+/**
+ * The first prose paragraph of a README, skipping headings, badges, images, HTML and code,
+ * with Markdown formatting stripped.
+ */
+function firstParagraph(readme: string): string | null {
+  const lines = readme.replace(/<!--[\s\S]*?-->/g, "").split(/\r?\n/);
+  let paragraph: string[] = [];
+  let inCode = false;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (line.startsWith("```") || line.startsWith("~~~")) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) continue;
+
+    const skip = line.startsWith("#") || line.startsWith("<") || line.startsWith("![") || line.startsWith("[![") ||
+      line.startsWith("|") || line.startsWith(">") || /^[-=*_]{3,}$/.test(line) || /^([-*+]|\d+\.)\s/.test(line);
+
+    if (!line || skip) {
+      const text = usableParagraph(paragraph);
+      if (text) return text;
+      paragraph = [];
+      continue;
+    }
+    paragraph.push(line);
+  }
+  return usableParagraph(paragraph);
+}
+
+function usableParagraph(lines: string[]): string | null {
+  const text = clean(lines.join(" "));
+  if (!text || text.length < MIN_PARAGRAPH_LENGTH || PLACEHOLDER_PARAGRAPHS.includes(text)) return null;
+  return truncate(text);
+}
+
+function clean(text?: string): string | undefined {
+  if (!text) return undefined;
+  const cleaned = text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return cleaned || undefined;
+}
+
+/**
+ * Cut to GitHub's limit, at the end of a sentence when there is one.
+ */
+function truncate(text: string): string {
+  if (text.length <= MAX_DESCRIPTION_LENGTH) return text;
+  const cut = text.slice(0, MAX_DESCRIPTION_LENGTH);
+  const sentenceEnd = cut.lastIndexOf(". ");
+  return sentenceEnd > MIN_PARAGRAPH_LENGTH ? cut.slice(0, sentenceEnd + 1) : `${cut.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`;
+}
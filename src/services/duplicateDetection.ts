@@ -0,0 +1,267 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+
+/**
+ * What is compared between repositories, loaded once per repository.
+ */
+export interface RepoFingerprint {
+  repo: RepositoryInfo;
+  baseName: string;
+  /** Names of the files and directories in the root, lowercased */
+  rootFiles: string[];
+  /** Tree SHA of the latest commit; equal SHAs mean identical contents */
+  treeSha: string | null;
+  /** Three-word shingles from the start of the README */
+  readmeShingles: Set<string>;
+  recentCommits: Set<string>;
+  firstCommit: string | null;
+}
+
+export type DuplicateConfidence = "high" | "medium" | "low";
+
+export interface DuplicateCluster {
+  repos: string[];
+  confidence: DuplicateConfidence;
+  /** One line per pair of repositories that matched, naming the signals */
+  evidence: string[];
+  canonical: string;
+  canonicalReasons: string[];
+  /** The other repositories, which aren't archived yet */
+  archive: string[];
+}
+
+// Words people add to a copy's name. Years are left alone, since they usually mark a series
+// (aoc-2023, aoc-2024) rather than copies.
+const COPY_WORDS = /^(v\d+(\.\d+)*|\d{1,2}|old|new|final|copy|backup|bak|archived?|legacy|deprecated|latest|clone|tmp|temp|draft|rewrite|next|redux|orig(inal)?|updated|fixed|working|wip)$/;
+
+// Names that mark a repository as the copy rather than the one to keep
+const SUPERSEDED_WORDS = /(^|[-_.])(old|copy|backup|bak|archived?|legacy|deprecated|tmp|temp|orig(inal)?)($|[-_.])/i;
+
+// Root entries almost every repository has, which say nothing about being a copy
+const COMMON_ROOT_FILES = new Set([".gitignore", "readme.md", "license", "license.md", ".github", ".gitattributes", ".editorconfig"]);
+
+const MIN_SCORE = 3;
+const CONFIDENCE_ORDER: Record<DuplicateConfidence, number> = { high: 0, medium: 1, low: 2 };
+const MAX_README_WORDS = 500;
+const MIN_README_WORDS = 50;
+
+/**
+ * The name with copy markers such as -v2, -old or -final taken off either end.
+ */
+export function baseName(name: string): string {
+  const words = name.toLowerCase().split(/[-_.\s]+/).filter(Boolean);
+  while (words.length > 1 && COPY_WORDS.test(words[words.length - 1])) words.pop();
+  while (words.length > 1 && COPY_WORDS.test(words[0])) words.shift();
+  // project2, projectv2
+  return words.join("-").replace(/(?<=[a-z])v?\d{1,2}$/, "");
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/[^a-z0-9\s]+/g, " ").split(/\s+/).filter(Boolean);
+}
+
+function shingles(text: string): Set<string> {
+  const list = words(text).slice(0, MAX_README_WORDS);
+  const result = new Set<string>();
+  if (list.length < MIN_README_WORDS) return result;
+  for (let i = 0; i + 2 < list.length; i++) {
+    result.add(`${list[i]} ${list[i + 1]} ${list[i + 2]}`);
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function nameSimilarity(a: string, b: string): number {
+  const distance: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = distance[0];
+    distance[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = distance[j];
+      distance[j] = Math.min(distance[j] + 1, distance[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return 1 - distance[b.length] / Math.max(a.length, b.length, 1);
+}
+
+export async function loadFingerprint(octokit: Octokit, repo: RepositoryInfo): Promise<RepoFingerprint> {
+  const owner = repo.owner.login;
+  const files = await RepoFileIndex.load(octokit, owner, repo.name, repo.default_branch);
+  const readmePath = files.find("readme");
+  const readme = readmePath ? await readRepoFile(octokit, owner, repo.name, readmePath, repo.default_branch) : null;
+
+  const fingerprint: RepoFingerprint = {
+    repo,
+    baseName: baseName(repo.name),
+    rootFiles: [...new Set(files.files().map(path => path.split("/")[0].toLowerCase()))],
+    treeSha: null,
+    readmeShingles: shingles(readme ?? ""),
+    recentCommits: new Set(),
+    firstCommit: null
+  };
+
+  try {
+    const response = await octokit.repos.listCommits({ owner, repo: repo.name, sha: repo.default_branch, per_page: 100 });
+    const commits = response.data;
+    fingerprint.treeSha = commits[0]?.commit.tree.sha ?? null;
+    fingerprint.recentCommits = new Set(commits.map(c => c.sha));
+
+    // The first commit is on the last page
+    const lastPage = response.headers.link?.match(/[?&]page=(\d+)>; rel="last"/)?.[1];
+    const oldest = lastPage
+      ? (await octokit.repos.listCommits({ owner, repo: repo.name, sha: repo.default_branch, per_page: 100, page: Number(lastPage) })).data
+      : commits;
+    fingerprint.firstCommit = oldest[oldest.length - 1]?.sha ?? null;
+  } catch (error: any) {
+    // 409: the repository is empty
+    if (error.status !== 409) throw error;
+  }
+
+  return fingerprint;
+}
+
+/**
+ * The signals two repositories share and how strongly they point at one being a copy.
+ */
+function compare(a: RepoFingerprint, b: RepoFingerprint): { score: number; signals: string[] } {
+  const signals: string[] = [];
+  let score = 0;
+  const add = (points: number, signal: string) => {
+    score += points;
+    signals.push(signal);
+  };
+
+  if (a.baseName === b.baseName) {
+    add(3, `same name apart from copy markers ("${a.baseName}")`);
+  } else if (
+    Math.min(a.baseName.length, b.baseName.length) >= 5 &&
+    // Names differing only in numbers are a series, like aoc-2023 and aoc-2024
+    a.baseName.replace(/\d+/g, "") !== b.baseName.replace(/\d+/g, "") &&
+    nameSimilarity(a.baseName, b.baseName) >= 0.85
+  ) {
+    add(2, "similar names");
+  }
+
+  const descriptionA = words(a.repo.description ?? "");
+  const descriptionB = words(b.repo.description ?? "");
+  // Too short a description says nothing on its own, e.g. "My project"
+  if (descriptionA.length >= 3 && descriptionA.join(" ") === descriptionB.join(" ")) {
+    add(3, "identical descriptions");
+  } else if (descriptionA.length >= 4 && descriptionB.length >= 4 && jaccard(new Set(descriptionA), new Set(descriptionB)) >= 0.6) {
+    add(2, "similar descriptions");
+  }
+
+  const readme = jaccard(a.readmeShingles, b.readmeShingles);
+  if (readme >= 0.8) {
+    add(3, `nearly identical READMEs (${Math.round(readme * 100)}% shared text)`);
+  } else if (readme >= 0.5) {
+    add(2, `similar READMEs (${Math.round(readme * 100)}% shared text)`);
+  }
+
+  if (a.treeSha && a.treeSha === b.treeSha) {
+    add(5, "identical files");
+  } else {
+    const distinctive = (files: string[]) => files.filter(file => !COMMON_ROOT_FILES.has(file));
+    const rootA = distinctive(a.rootFiles);
+    const rootB = distinctive(b.rootFiles);
+    if (rootA.length >= 3 && rootA.length === rootB.length && rootA.every(file => rootB.includes(file))) {
+      add(2, `same root files (${rootA.slice(0, 5).join(", ")}${rootA.length > 5 ? ", ..." : ""})`);
+    }
+  }
+
+  if (a.firstCommit && a.firstCommit === b.firstCommit) {
+    add(4, `same first commit (${a.firstCommit.slice(0, 7)})`);
+  } else {
+    const shared = [...a.recentCommits].filter(sha => b.recentCommits.has(sha)).length;
+    if (shared > 0) add(3, `${shared} commits in common`);
+  }
+
+  return { score, signals };
+}
+
+/**
+ * Order of preference for the repository to keep: not archived, not a fork, not named as a copy,
+ * most recently pushed, most stars.
+ */
+function rankCanonical(repos: RepositoryInfo[]): { canonical: RepositoryInfo; reasons: string[] } {
+  const lastPush = (repo: RepositoryInfo) => new Date(repo.pushed_at || repo.updated_at || 0).getTime();
+  const ranked = [...repos].sort((a, b) =>
+    Number(!!a.archived) - Number(!!b.archived) ||
+    Number(a.fork) - Number(b.fork) ||
+    Number(SUPERSEDED_WORDS.test(a.name)) - Number(SUPERSEDED_WORDS.test(b.name)) ||
+    lastPush(b) - lastPush(a) ||
+    (b.stargazers_count ?? 0) - (a.stargazers_count ?? 0)
+  );
+
+  const canonical = ranked[0];
+  const others = ranked.slice(1);
+  const reasons: string[] = [];
+  if (!canonical.archived && others.some(r => r.archived)) reasons.push("not archived");
+  if (!canonical.fork && others.some(r => r.fork)) reasons.push("not a fork");
+  const superseded = others.filter(r => SUPERSEDED_WORDS.test(r.name) && !SUPERSEDED_WORDS.test(canonical.name));
+  if (superseded.length > 0) reasons.push(`${superseded.map(r => r.name).join(", ")} ${superseded.length === 1 ? "is" : "are"} named as an old copy or backup`);
+  if (others.every(r => lastPush(canonical) >= lastPush(r))) {
+    reasons.push(`most recently pushed (${(canonical.pushed_at || canonical.updated_at || "never").slice(0, 10)})`);
+  }
+  const stars = canonical.stargazers_count ?? 0;
+  if (stars > 0 && others.every(r => stars >= (r.stargazers_count ?? 0))) reasons.push(`most stars (${stars})`);
+
+  const starred = others.filter(r => (r.stargazers_count ?? 0) > stars);
+  if (starred.length > 0) {
+    reasons.push(`but ${starred.map(r => `${r.name} has ${r.stargazers_count} stars`).join(", ")}, so consider keeping it instead`);
+  }
+  return { canonical, reasons };
+}
+
+/**
+ * Group repositories that look like copies of each other. Every pair scoring at least MIN_SCORE
+ * links two repositories, and linked repositories form a cluster.
+ */
+export function findDuplicateClusters(fingerprints: RepoFingerprint[]): DuplicateCluster[] {
+  const parent = fingerprints.map((_, i) => i);
+  const root = (i: number): number => parent[i] === i ? i : (parent[i] = root(parent[i]));
+  const links: Array<{ a: number; b: number; score: number; signals: string[] }> = [];
+
+  for (let a = 0; a < fingerprints.length; a++) {
+    for (let b = a + 1; b < fingerprints.length; b++) {
+      const { score, signals } = compare(fingerprints[a], fingerprints[b]);
+      if (score < MIN_SCORE) continue;
+      links.push({ a, b, score, signals });
+      parent[root(a)] = root(b);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  fingerprints.forEach((_, i) => {
+    if (!links.some(link => link.a === i || link.b === i)) return;
+    groups.set(root(i), [...(groups.get(root(i)) ?? []), i]);
+  });
+
+  return [...groups.values()].map((members): DuplicateCluster => {
+    const clusterLinks = links.filter(link => members.includes(link.a));
+    const best = Math.max(...clusterLinks.map(link => link.score));
+    const repos = members.map(i => fingerprints[i].repo);
+    const { canonical, reasons } = rankCanonical(repos);
+
+    return {
+      repos: repos.map(repo => repo.full_name),
+      confidence: best >= 7 ? "high" : best >= 4 ? "medium" : "low",
+      evidence: clusterLinks.map(link =>
+        `${fingerprints[link.a].repo.name} and ${fingerprints[link.b].repo.name}: ${link.signals.join(", ")}`
+      ),
+      canonical: canonical.full_name,
+      canonicalReasons: reasons,
+      archive: repos.filter(repo => repo !== canonical && !repo.archived).map(repo => repo.full_name)
+    };
+  }).sort((x, y) => CONFIDENCE_ORDER[x.confidence] - CONFIDENCE_ORDER[y.confidence]);
+}
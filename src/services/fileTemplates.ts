@@ -0,0 +1,393 @@
+/**
+ * File templates used when the organizer adds files to a repository.
+ */
+
+export function renderReadme(
+  owner: string,
+  repoName: string,
+  options: { title?: string; description?: string | null; licenseName?: string | null }
+): string {
+  const readmeTitle = options.title || repoName;
+  const readmeDescription = options.description || 'A description of this project.';
+
+  return `# ${readmeTitle}
+
+${readmeDescription}
+
+## Installation
+
+\`\`\`bash
+git clone https://github.com/${owner}/${repoName}.git
+cd ${repoName}
+\`\`\`
+
+## Usage
+
+Add usage instructions here.
+
+## Contributing
+
+Contributions are welcome! Please feel free to submit a Pull Request.
+
+## License
+
+This project is licensed under the ${options.licenseName || 'MIT'} License - see the [LICENSE](LICENSE) file for details.
+
+## Contact
+
+Created by [@${owner}](https://github.com/${owner})
+`;
+}
+
+/**
+ * Repository metadata the community file templates are filled in from.
+ */
+export interface CommunityTemplateOptions {
+  owner: string;
+  repoName: string;
+  description?: string | null;
+  language?: string | null;
+  defaultBranch?: string;
+  licenseName?: string | null;
+  homepage?: string | null;
+  /** How to reach the maintainers privately, e.g. an email address. Defaults to the owner's GitHub profile. */
+  contact?: string;
+  /** FUNDING.yml platforms and accounts, e.g. { github: ["octocat"] }. Defaults to the owner's GitHub Sponsors. */
+  funding?: Record<string, string | string[]>;
+}
+
+// Setup and test commands for the CONTRIBUTING development section
+const DEVELOPMENT_COMMANDS: Record<string, { setup: string; test: string }> = {
+  JavaScript: { setup: 'npm install', test: 'npm test' },
+  TypeScript: { setup: 'npm install', test: 'npm test' },
+  Python: { setup: 'pip install -e .', test: 'pytest' },
+  Go: { setup: 'go build ./...', test: 'go test ./...' },
+  Rust: { setup: 'cargo build', test: 'cargo test' },
+  Java: { setup: './mvnw install', test: './mvnw test' },
+  Kotlin: { setup: './gradlew build', test: './gradlew test' },
+  Ruby: { setup: 'bundle install', test: 'bundle exec rake test' },
+  PHP: { setup: 'composer install', test: 'composer test' },
+  "C#": { setup: 'dotnet build', test: 'dotnet test' }
+};
+
+function repoUrl(options: CommunityTemplateOptions): string {
+  return `https://github.com/${options.owner}/${options.repoName}`;
+}
+
+function contactFor(options: CommunityTemplateOptions): string {
+  return options.contact || `[@${options.owner}](https://github.com/${options.owner})`;
+}
+
+export function renderContributing(options: CommunityTemplateOptions): string {
+  const commands = (options.language && DEVELOPMENT_COMMANDS[options.language]) || null;
+  const branch = options.defaultBranch || 'main';
+
+  const development = commands
+    ? `\`\`\`bash
+git clone ${repoUrl(options)}.git
+cd ${options.repoName}
+${commands.setup}
+\`\`\`
+
+Run the tests before opening a pull request:
+
+\`\`\`bash
+${commands.test}
+\`\`\``
+    : `\`\`\`bash
+git clone ${repoUrl(options)}.git
+cd ${options.repoName}
+\`\`\``;
+
+  return `# Contributing to ${options.repoName}
+
+Thanks for taking the time to contribute!${options.description ? ` ${options.repoName}: ${options.description}` : ''}
+
+## Reporting bugs and requesting features
+
+Search the [existing issues](${repoUrl(options)}/issues) first. If nothing matches, open a new issue using one of the templates and include as much detail as you can.
+
+Please don't report security vulnerabilities in public issues; see [SECURITY.md](SECURITY.md) instead.
+
+## Development
+
+${development}
+
+## Pull requests
+
+1. Fork the repository and create a branch from \`${branch}\`.
+2. Make your change, keeping commits focused and their messages descriptive.
+3. Add or update tests for the behavior you changed.
+4. Open a pull request describing what changed and why.
+
+## Code of conduct
+
+This project follows a [Code of Conduct](CODE_OF_CONDUCT.md). By participating you agree to uphold it.
+${options.licenseName ? `
+## License
+
+By contributing, you agree that your contributions will be licensed under the ${options.licenseName}.
+` : ''}`;
+}
+
+/**
+ * Contributor Covenant 2.1, with the enforcement contact filled in.
+ */
+export function renderCodeOfConduct(options: CommunityTemplateOptions): string {
+  return `# Contributor Covenant Code of Conduct
+
+## Our Pledge
+
+We as members, contributors, and leaders pledge to make participation in our
+community a harassment-free experience for everyone, regardless of age, body
+size, visible or invisible disability, ethnicity, sex characteristics, gender
+identity and expression, level of experience, education, socio-economic status,
+nationality, personal appearance, race, caste, color, religion, or sexual
+identity and orientation.
+
+We pledge to act and interact in ways that contribute to an open, welcoming,
+diverse, inclusive, and healthy community.
+
+## Our Standards
+
+Examples of behavior that contributes to a positive environment for our
+community include:
+
+* Demonstrating empathy and kindness toward other people
+* Being respectful of differing opinions, viewpoints, and experiences
+* Giving and gracefully accepting constructive feedback
+* Accepting responsibility and apologizing to those affected by our mistakes,
+  and learning from the experience
+* Focusing on what is best not just for us as individuals, but for the overall
+  community
+
+Examples of unacceptable behavior include:
+
+* The use of sexualized language or imagery, and sexual attention or advances of
+  any kind
+* Trolling, insulting or derogatory comments, and personal or political attacks
+* Public or private harassment
+* Publishing others' private information, such as a physical or email address,
+  without their explicit permission
+* Other conduct which could reasonably be considered inappropriate in a
+  professional setting
+
+## Enforcement Responsibilities
+
+Community leaders are responsible for clarifying and enforcing our standards of
+acceptable behavior and will take appropriate and fair corrective action in
+response to any behavior that they deem inappropriate, threatening, offensive,
+or harmful.
+
+Community leaders have the right and responsibility to remove, edit, or reject
+comments, commits, code, wiki edits, issues, and other contributions that are
+not aligned to this Code of Conduct, and will communicate reasons for moderation
+decisions when appropriate.
+
+## Scope
+
+This Code of Conduct applies within all community spaces, and also applies when
+an individual is officially representing the community in public spaces.
+Examples of representing our community include using an official e-mail address,
+posting via an official social media account, or acting as an appointed
+representative at an online or offline event.
+
+## Enforcement
+
+Instances of abusive, harassing, or otherwise unacceptable behavior may be
+reported to the community leaders responsible for enforcement at
+${contactFor(options)}.
+All complaints will be reviewed and investigated promptly and fairly.
+
+All community leaders are obligated to respect the privacy and security of the
+reporter of any incident.
+
+## Enforcement Guidelines
+
+Community leaders will follow these Community Impact Guidelines in determining
+the consequences for any action they deem in violation of this Code of Conduct:
+
+### 1. Correction
+
+**Community Impact**: Use of inappropriate language or other behavior deemed
+unprofessional or unwelcome in the community.
+
+**Consequence**: A private, written warning from community leaders, providing
+clarity around the nature of the violation and an explanation of why the
+behavior was inappropriate. A public apology may be requested.
+
+### 2. Warning
+
+**Community Impact**: A violation through a single incident or series of
+actions.
+
+**Consequence**: A warning with consequences for continued behavior. No
+interaction with the people involved, including unsolicited interaction with
+those enforcing the Code of Conduct, for a specified period of time. This
+includes avoiding interactions in community spaces as well as external channels
+like social media. Violating these terms may lead to a temporary or permanent
+ban.
+
+### 3. Temporary Ban
+
+**Community Impact**: A serious violation of community standards, including
+sustained inappropriate behavior.
+
+**Consequence**: A temporary ban from any sort of interaction or public
+communication with the community for a specified period of time. No public or
+private interaction with the people involved, including unsolicited interaction
+with those enforcing the Code of Conduct, is allowed during this period.
+Violating these terms may lead to a permanent ban.
+
+### 4. Permanent Ban
+
+**Community Impact**: Demonstrating a pattern of violation of community
+standards, including sustained inappropriate behavior, harassment of an
+individual, or aggression toward or disparagement of classes of individuals.
+
+**Consequence**: A permanent ban from any sort of public interaction within the
+community.
+
+## Attribution
+
+This Code of Conduct is adapted from the [Contributor Covenant][homepage],
+version 2.1, available at
+[https://www.contributor-covenant.org/version/2/1/code_of_conduct.html][v2.1].
+
+Community Impact Guidelines were inspired by
+[Mozilla's code of conduct enforcement ladder][Mozilla CoC].
+
+For answers to common questions about this code of conduct, see the FAQ at
+[https://www.contributor-covenant.org/faq][FAQ]. Translations are available at
+[https://www.contributor-covenant.org/translations][translations].
+
+[homepage]: https://www.contributor-covenant.org
+[v2.1]: https://www.contributor-covenant.org/version/2/1/code_of_conduct.html
+[Mozilla CoC]: https://github.com/mozilla/diversity
+[FAQ]: https://www.contributor-covenant.org/faq
+[translations]: https://www.contributor-covenant.org/translations
+`;
+}
+
+export function renderSecurityPolicy(options: CommunityTemplateOptions): string {
+  return `# Security Policy
+
+## Supported Versions
+
+Security fixes are made on the \`${options.defaultBranch || 'main'}\` branch and included in the next release.
+
+## Reporting a Vulnerability
+
+Please do not report security vulnerabilities through public issues, discussions or pull requests.
+
+Report them privately through [GitHub's private vulnerability reporting](${repoUrl(options)}/security/advisories/new)${options.contact ? `, or contact ${options.contact}` : ''}.
+
+Include as much of the following as you can:
+
+- The type of issue and where it is in the code
+- Steps to reproduce, or a proof of concept
+- The impact, and how an attacker might exploit it
+
+You should receive a response within a few days. We'll keep you informed while we work on a fix and credit you in the advisory unless you prefer otherwise.
+`;
+}
+
+export function renderSupport(options: CommunityTemplateOptions): string {
+  return `# Getting Help
+
+## Questions and problems
+
+- Read the [README](${repoUrl(options)}#readme)${options.homepage ? ` and the [documentation](${options.homepage})` : ''} first.
+- Search the [existing issues](${repoUrl(options)}/issues) to see if someone has asked before.
+- If you found a bug or want a feature, open an issue using one of the templates.
+
+## Security issues
+
+See [SECURITY.md](SECURITY.md) for how to report vulnerabilities privately.
+
+## Contact
+
+This project is maintained by ${contactFor(options)}. Support is provided on a best-effort basis.
+`;
+}
+
+export function renderBugReportTemplate(options: CommunityTemplateOptions): string {
+  return `---
+name: Bug report
+about: Report something in ${options.repoName} that isn't working
+title: ''
+labels: bug
+assignees: ''
+---
+
+**Describe the bug**
+A clear description of what the bug is.
+
+**To reproduce**
+Steps to reproduce the behavior:
+1. ...
+2. ...
+
+**Expected behavior**
+What you expected to happen.
+
+**Environment**
+- OS:
+- Version of ${options.repoName}:${options.language ? `\n- ${options.language} version:` : ''}
+
+**Additional context**
+Logs, screenshots or anything else that helps.
+`;
+}
+
+export function renderFeatureRequestTemplate(options: CommunityTemplateOptions): string {
+  return `---
+name: Feature request
+about: Suggest an idea for ${options.repoName}
+title: ''
+labels: enhancement
+assignees: ''
+---
+
+**What problem would this solve?**
+A clear description of the problem, e.g. "I'm always frustrated when ..."
+
+**Describe the solution you'd like**
+What you want to happen.
+
+**Alternatives considered**
+Other solutions or workarounds you've thought about.
+
+**Additional context**
+Anything else about the request.
+`;
+}
+
+export function renderPullRequestTemplate(options: CommunityTemplateOptions): string {
+  return `## What does this change?
+
+<!-- Describe the change and why it's needed. Link the issue it fixes, e.g. "Fixes #123". -->
+
+## How was it tested?
+
+<!-- The commands you ran and what you checked. -->
+
+## Checklist
+
+- [ ] Tests added or updated
+- [ ] Documentation updated where needed
+- [ ] Follows the [contributing guidelines](${repoUrl(options)}/blob/${options.defaultBranch || 'main'}/CONTRIBUTING.md)
+`;
+}
+
+export function renderFunding(options: CommunityTemplateOptions): string {
+  const funding = options.funding ?? { github: [options.owner] };
+  const lines = Object.entries(funding).map(([platform, accounts]) =>
+    Array.isArray(accounts)
+      ? `${platform}: [${accounts.join(', ')}]`
+      : `${platform}: ${accounts}`
+  );
+  return `# Funding platforms shown in the repository's "Sponsor" button
+${lines.join('\n')}
+`;
+}
@@ -0,0 +1,1098 @@
+import { createHash } from "crypto";
+import { Octokit } from "@octokit/rest";
+import { z } from "zod";
+import { ArchiveChangedEntry, ChangeJournal, JournalEntry, PullRequestOpenedEntry } from "./changeJournal";
+import { JsonFileStore } from "./dataStore";
+import {
+  getProtectionProfile,
+  loadClassicProtection,
+  loadRepositorySettings,
+  mergeProtection,
+  pickSettings,
+  sameProtection,
+  sameSettings,
+  writeProtection,
+  writeSettings
+} from "./branchProtection";
+import { SECURITY_FEATURES, SECURITY_FEATURE_LABELS, SecurityFeature, readSecurityFeature, writeSecurityFeature } from "./securityPosture";
+import { FileKind, RepoFileIndex } from "./repoFiles";
+import { describeFinding, scanRepositoryForSecrets } from "./secretScan";
+import { TaskScheduler } from "./taskScheduler";
+
+interface ChangeBase {
+  id: string;
+  owner: string;
+  repo: string;
+  summary: string;
+  /** Why the change was proposed, e.g. the health rule it fixes. Shown in pull request descriptions. */
+  reason?: string;
+}
+
+export interface CreateFileChange extends ChangeBase {
+  kind: "create-file";
+  path: string;
+  content: string;
+  message: string;
+  /** Skip the change if a file of this kind exists under any name, e.g. README.rst for a README.md */
+  skipIfPresent?: FileKind;
+}
+
+export interface SetVisibilityChange extends ChangeBase {
+  kind: "set-visibility";
+  makePrivate: boolean;
+  /** Make the repository public even if the secret scan finds something */
+  overrideSecretScan?: boolean;
+}
+
+export interface SetTopicsChange extends ChangeBase {
+  kind: "set-topics";
+  topics: string[];
+  /** "add" keeps the topics the repository already has; "replace" sets exactly these */
+  mode: "add" | "replace";
+}
+
+export interface SetDescriptionChange extends ChangeBase {
+  kind: "set-description";
+  description: string;
+  /** Left unchanged when undefined */
+  homepage?: string;
+}
+
+/**
+ * A rewrite of an existing README, refused if the README changed after the plan was made.
+ */
+export interface ReadmeUpdate {
+  path: string;
+  content: string;
+  baseSha: string;
+  message: string;
+}
+
+export interface SetArchivedChange extends ChangeBase {
+  kind: "set-archived";
+  archived: boolean;
+  /** Committed before archiving or after unarchiving, since archived repositories are read-only */
+  readmeUpdate?: ReadmeUpdate;
+}
+
+export interface SetBranchProtectionChange extends ChangeBase {
+  kind: "set-branch-protection";
+  branch: string;
+  /** Merged with the protection the branch has when applied, so nothing already stricter is weakened */
+  profile: string;
+  statusContexts: string[];
+  /** What the profile changes, as found when the plan was made */
+  changes: string[];
+}
+
+export interface SetSecurityFeatureChange extends ChangeBase {
+  kind: "set-security-feature";
+  feature: SecurityFeature;
+  enabled: boolean;
+}
+
+export interface SyncForkChange extends ChangeBase {
+  kind: "sync-fork";
+  branch: string;
+  /** Full name of the upstream repository, for display */
+  upstream: string;
+}
+
+export type PlannedChange =
+  CreateFileChange | SetVisibilityChange | SetTopicsChange | SetDescriptionChange | SetArchivedChange | SetBranchProtectionChange |
+  SetSecurityFeatureChange | SyncForkChange;
+
+/**
+ * A change before it has been given its content-derived ID.
+ */
+export type ChangeProposal =
+  Omit<CreateFileChange, "id"> | Omit<SetVisibilityChange, "id"> | Omit<SetTopicsChange, "id"> | Omit<SetDescriptionChange, "id"> |
+  Omit<SetArchivedChange, "id"> | Omit<SetBranchProtectionChange, "id"> | Omit<SetSecurityFeatureChange, "id"> |
+  Omit<SyncForkChange, "id">;
+
+/**
+ * How file changes reach a repository: committed straight to the default branch,
+ * or committed together on a new branch with a pull request per repository.
+ */
+export type Delivery = "commit" | "pull-request";
+
+export interface FixPlan {
+  planId: string;
+  createdAt: string;
+  /** Identity of the credential that planned it, the only one allowed to apply it */
+  credential: string;
+  changes: PlannedChange[];
+}
+
+export interface ChangeResult {
+  changeId: string;
+  repo: string;
+  summary: string;
+  status: "applied" | "skipped" | "failed";
+  message: string;
+  journalEntryId?: string;
+  pullRequestUrl?: string;
+}
+
+export interface RollbackResult {
+  entryId: string;
+  repo: string;
+  summary: string;
+  status: "rolled-back" | "refused" | "failed";
+  message: string;
+}
+
+const PREVIEW_LENGTH = 400;
+
+/** Recent commits scanned for secrets before a repository is made public */
+const GATE_HISTORY_COMMITS = 30;
+
+/** Plans kept for approval; the oldest are dropped first */
+const MAX_PLANS = 200;
+
+/** How long a plan can be applied after it was generated */
+const PLAN_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** GitHub's limit on topics per repository */
+export const MAX_TOPICS = 20;
+
+/** Every branch the organizer pushes starts with this, which is how its pull requests are recognised */
+export const ORGANIZER_BRANCH_PREFIX = "repo-organizer/";
+
+export const deliveryField = z.enum(["commit", "pull-request"]).optional().default("commit")
+  .describe('"commit" writes to the default branch; "pull-request" commits each repository\'s file changes to a new branch and opens a pull request. Repository settings changes (visibility, topics, description, archiving, branch protection, security features, fork syncs) are always applied directly.');
+
+export const plannedChangeSchema = z.object({
+  id: z.string(),
+  repo: z.string(),
+  kind: z.enum(["create-file", "set-visibility", "set-topics", "set-description", "set-archived", "set-branch-protection",
+    "set-security-feature", "sync-fork"]),
+  summary: z.string(),
+  reason: z.string().optional(),
+  path: z.string().optional(),
+  makePrivate: z.boolean().optional(),
+  overrideSecretScan: z.boolean().optional(),
+  topics: z.array(z.string()).optional(),
+  mode: z.enum(["add", "replace"]).optional(),
+  description: z.string().optional(),
+  homepage: z.string().optional(),
+  archived: z.boolean().optional(),
+  branch: z.string().optional(),
+  profile: z.string().optional(),
+  changes: z.array(z.string()).optional(),
+  feature: z.enum(SECURITY_FEATURES).optional(),
+  enabled: z.boolean().optional(),
+  upstream: z.string().optional(),
+  preview: z.string().optional()
+});
+
+export const fixPlanSchema = z.object({
+  planId: z.string(),
+  createdAt: z.string(),
+  changes: z.array(plannedChangeSchema)
+});
+
+export const changeResultSchema = z.object({
+  changeId: z.string(),
+  repo: z.string(),
+  summary: z.string(),
+  status: z.enum(["applied", "skipped", "failed"]),
+  message: z.string(),
+  journalEntryId: z.string().optional(),
+  pullRequestUrl: z.string().optional()
+});
+
+export const rollbackResultSchema = z.object({
+  entryId: z.string(),
+  repo: z.string(),
+  summary: z.string(),
+  status: z.enum(["rolled-back", "refused", "failed"]),
+  message: z.string()
+});
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 12);
+}
+
+/**
+ * Derive a stable ID from what the change does, so the same proposal always gets the same ID.
+ */
+function changeId(proposal: ChangeProposal): string {
+  const target = proposal.kind === "create-file"
+    ? `${proposal.path}:${hash(proposal.content)}`
+    : proposal.kind === "set-topics"
+      ? `${proposal.mode}:${[...proposal.topics].sort().join(",")}`
+      : proposal.kind === "set-description"
+        ? hash(`${proposal.description}\n${proposal.homepage ?? ""}`)
+        : proposal.kind === "set-archived"
+          ? `${proposal.archived}:${proposal.readmeUpdate ? hash(proposal.readmeUpdate.content) : ""}`
+          : proposal.kind === "set-branch-protection"
+            ? `${proposal.branch}:${proposal.profile}:${[...proposal.statusContexts].sort().join(",")}`
+            : proposal.kind === "set-security-feature"
+              ? `${proposal.feature}:${proposal.enabled}`
+              : proposal.kind === "sync-fork"
+                ? `${proposal.branch}:${proposal.upstream}`
+                : `${proposal.makePrivate}${proposal.overrideSecretScan ? ":override" : ""}`;
+  return `chg_${hash(`${proposal.owner}/${proposal.repo}:${proposal.kind}:${target}`)}`;
+}
+
+/**
+ * Shape a planned change for the agent, trimming file contents to a preview.
+ */
+export function describeChange(change: PlannedChange) {
+  const base = {
+    id: change.id,
+    repo: `${change.owner}/${change.repo}`,
+    kind: change.kind,
+    summary: change.summary,
+    reason: change.reason
+  };
+
+  const preview = (content: string) => content.length > PREVIEW_LENGTH
+    ? `${content.slice(0, PREVIEW_LENGTH)}\n... (${content.length} characters total)`
+    : content;
+
+  if (change.kind === "create-file") {
+    return { ...base, path: change.path, preview: preview(change.content) };
+  }
+  if (change.kind === "set-topics") {
+    return { ...base, topics: change.topics, mode: change.mode };
+  }
+  if (change.kind === "set-description") {
+    return { ...base, description: change.description, homepage: change.homepage };
+  }
+  if (change.kind === "set-archived") {
+    return {
+      ...base,
+      archived: change.archived,
+      path: change.readmeUpdate?.path,
+      preview: change.readmeUpdate && preview(change.readmeUpdate.content)
+    };
+  }
+  if (change.kind === "set-branch-protection") {
+    return { ...base, branch: change.branch, profile: change.profile, changes: change.changes };
+  }
+  if (change.kind === "set-security-feature") {
+    return { ...base, feature: change.feature, enabled: change.enabled };
+  }
+  if (change.kind === "sync-fork") {
+    return { ...base, branch: change.branch, upstream: change.upstream };
+  }
+  return { ...base, makePrivate: change.makePrivate, overrideSecretScan: change.overrideSecretScan };
+}
+
+export function describePlan(plan: FixPlan) {
+  return {
+    planId: plan.planId,
+    createdAt: plan.createdAt,
+    changes: plan.changes.map(describeChange)
+  };
+}
+
+/**
+ * Check whether a file exists at an exact path on the default branch.
+ */
+export async function fileExists(octokit: Octokit, owner: string, repo: string, path: string): Promise<boolean> {
+  try {
+    await octokit.repos.getContent({ owner, repo, path });
+    return true;
+  } catch (error: any) {
+    if (error.status === 404) return false;
+    throw error;
+  }
+}
+
+/**
+ * Keeps proposed plans in the data directory so they can still be applied after a restart.
+ * Each plan belongs to the credential that created it and expires after a week.
+ */
+export class FixPlanStore {
+  private store = new JsonFileStore<{ plans: FixPlan[] }>("fix-plans.json", () => ({ plans: [] }));
+
+  /**
+   * Build a plan from proposals. Identical proposals from the same credential produce the same plan ID.
+   */
+  create(proposals: ChangeProposal[], credential: string): FixPlan {
+    const changes = proposals.map(proposal => ({ ...proposal, id: changeId(proposal) }) as PlannedChange);
+    const planId = `plan_${hash(`${credential}:${changes.map(c => c.id).sort().join(",")}`)}`;
+
+    let plan: FixPlan = { planId, createdAt: new Date().toISOString(), credential, changes };
+    this.store.update(doc => {
+      doc.plans = doc.plans.filter(p => !planExpired(p));
+      const existing = doc.plans.find(p => p.planId === planId);
+      if (existing) {
+        plan = existing;
+        return;
+      }
+      doc.plans.push(plan);
+      doc.plans.splice(0, Math.max(0, doc.plans.length - MAX_PLANS));
+    });
+    return plan;
+  }
+
+  get(planId: string, credential: string): FixPlan {
+    const plan = this.store.read().plans.find(p => p.planId === planId);
+    if (!plan || planExpired(plan)) {
+      throw new Error(`Unknown or expired plan ${planId}. Generate a new plan first.`);
+    }
+    if (plan.credential !== credential) {
+      throw new Error(`Plan ${planId} was created with a different credential`);
+    }
+    return plan;
+  }
+
+  /**
+   * Pick the approved changes from a plan. With no change IDs the whole plan is approved.
+   */
+  select(planId: string, changeIds: string[] | undefined, credential: string): PlannedChange[] {
+    const plan = this.get(planId, credential);
+    if (!changeIds || changeIds.length === 0) return plan.changes;
+
+    const unknown = changeIds.filter(id => !plan.changes.some(c => c.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Changes not in plan ${planId}: ${unknown.join(", ")}`);
+    }
+    return plan.changes.filter(c => changeIds.includes(c.id));
+  }
+}
+
+function planExpired(plan: FixPlan): boolean {
+  return Date.now() - new Date(plan.createdAt).getTime() > PLAN_LIFETIME_MS;
+}
+
+function sameTopics(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(topic => b.includes(topic));
+}
+
+function changeResult(change: PlannedChange, status: ChangeResult["status"], message: string, extra: Partial<ChangeResult> = {}): ChangeResult {
+  return {
+    changeId: change.id,
+    repo: `${change.owner}/${change.repo}`,
+    summary: change.summary,
+    status,
+    message,
+    ...extra
+  };
+}
+
+// Hidden line in the description of the organizer's pull requests listing the change IDs they
+// carry, so the same changes aren't proposed again while one is open
+const CHANGE_IDS_MARKER = /<!-- repo-organizer changes: ([\w,]+) -->/;
+
+/**
+ * Pull request description listing each change and why it was proposed.
+ */
+function renderPullRequestBody(changes: CreateFileChange[]): string {
+  return [
+    "This pull request was opened by the repository organizer. Merge it to apply the changes below, or close it to discard them.",
+    "",
+    "## Changes",
+    "",
+    ...changes.map(change =>
+      `- **${change.summary}** (\`${change.path}\`)${change.reason ? ` — fixes "${change.reason}"` : ""}`
+    ),
+    "",
+    `<!-- repo-organizer changes: ${changes.map(change => change.id).join(",")} -->`
+  ].join("\n");
+}
+
+/**
+ * Applies planned changes against GitHub, re-checking preconditions first.
+ * Every mutation is written to the change journal so it can be rolled back.
+ */
+export class ChangeExecutor {
+  constructor(private octokit: Octokit, private journal: ChangeJournal, private scheduler: TaskScheduler) {}
+
+  /**
+   * Apply approved changes as one batch. With pull-request delivery, each repository's file
+   * changes go into a single pull request; repository settings changes are still applied directly.
+   * Results come back in the order of the changes. Repositories are worked on concurrently;
+   * the scheduler keeps the mutating requests themselves one at a time.
+   */
+  async applyAll(changes: PlannedChange[], batchId: string, delivery: Delivery = "commit"): Promise<ChangeResult[]> {
+    const results = new Map<string, ChangeResult>();
+    const byRepo = new Map<string, CreateFileChange[]>();
+    // A repository's direct changes are applied in plan order, since some depend on the one before,
+    // e.g. security updates on vulnerability alerts
+    const direct = new Map<string, PlannedChange[]>();
+
+    for (const change of changes) {
+      const key = `${change.owner}/${change.repo}`;
+      if (delivery === "pull-request" && change.kind === "create-file") {
+        byRepo.set(key, [...(byRepo.get(key) ?? []), change]);
+      } else {
+        direct.set(key, [...(direct.get(key) ?? []), change]);
+      }
+    }
+
+    const opened = await this.scheduler.map([...byRepo.values()], group => this.openPullRequest(group, batchId), "Opening pull requests");
+    for (const result of opened.flat()) {
+      results.set(result.changeId, result);
+    }
+
+    const applied = await this.scheduler.map([...direct.values()], async group => {
+      const groupResults: ChangeResult[] = [];
+      for (const change of group) {
+        groupResults.push(await this.apply(change, batchId));
+      }
+      return groupResults;
+    }, "Applying changes");
+    for (const result of applied.flat()) {
+      results.set(result.changeId, result);
+    }
+
+    return changes.map(change => results.get(change.id)!);
+  }
+
+  async apply(change: PlannedChange, batchId: string): Promise<ChangeResult> {
+    const result = (status: ChangeResult["status"], message: string, journalEntryId?: string) =>
+      changeResult(change, status, message, { journalEntryId });
+
+    try {
+      switch (change.kind) {
+        case "create-file": {
+          const existing = await this.existingFile(change);
+          if (existing) {
+            return result("skipped", `${existing} already exists`);
+          }
+          const { data } = await this.octokit.repos.createOrUpdateFileContents({
+            owner: change.owner,
+            repo: change.repo,
+            path: change.path,
+            message: change.message,
+            content: Buffer.from(change.content).toString('base64')
+          });
+          const entry = this.journal.record({
+            kind: "file-created",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            path: change.path,
+            commitSha: data.commit.sha ?? "",
+            blobSha: data.content?.sha ?? ""
+          });
+          return result("applied", `Created ${change.path}`, entry.id);
+        }
+        case "set-visibility": {
+          const { data: repo } = await this.octokit.repos.get({ owner: change.owner, repo: change.repo });
+          if (repo.private === change.makePrivate) {
+            return result("skipped", `Already ${change.makePrivate ? 'private' : 'public'}`);
+          }
+          if (!change.makePrivate && !change.overrideSecretScan) {
+            const blocked = await this.secretScanBlock(change.owner, change.repo, repo.default_branch);
+            if (blocked) return result("failed", blocked);
+          }
+          await this.octokit.repos.update({
+            owner: change.owner,
+            repo: change.repo,
+            private: change.makePrivate
+          });
+          const entry = this.journal.record({
+            kind: "visibility-changed",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            previousPrivate: repo.private,
+            newPrivate: change.makePrivate
+          });
+          return result("applied", `Made ${change.makePrivate ? 'private' : 'public'}`, entry.id);
+        }
+        case "set-topics": {
+          const { data } = await this.octokit.repos.getAllTopics({ owner: change.owner, repo: change.repo });
+          const previousTopics = data.names;
+          const newTopics = change.mode === "add"
+            ? [...new Set([...previousTopics, ...change.topics])]
+            : change.topics;
+          if (sameTopics(previousTopics, newTopics)) {
+            return result("skipped", "Topics already set");
+          }
+          if (newTopics.length > MAX_TOPICS) {
+            return result("failed", `A repository can have at most ${MAX_TOPICS} topics, this would make ${newTopics.length}`);
+          }
+          await this.octokit.repos.replaceAllTopics({
+            owner: change.owner,
+            repo: change.repo,
+            names: newTopics
+          });
+          const entry = this.journal.record({
+            kind: "topics-changed",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            previousTopics,
+            newTopics
+          });
+          return result("applied", `Topics are now: ${newTopics.join(", ")}`, entry.id);
+        }
+        case "set-description": {
+          const { data: repo } = await this.octokit.repos.get({ owner: change.owner, repo: change.repo });
+          const newHomepage = change.homepage ?? repo.homepage ?? null;
+          if (repo.description === change.description && (repo.homepage ?? null) === newHomepage) {
+            return result("skipped", "Description already set");
+          }
+          await this.octokit.repos.update({
+            owner: change.owner,
+            repo: change.repo,
+            description: change.description,
+            homepage: change.homepage
+          });
+          const entry = this.journal.record({
+            kind: "description-changed",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            previousDescription: repo.description,
+            previousHomepage: repo.homepage ?? null,
+            newDescription: change.description,
+            newHomepage
+          });
+          return result("applied", `Description is now "${change.description}"`, entry.id);
+        }
+        case "set-archived": {
+          const { data: repo } = await this.octokit.repos.get({ owner: change.owner, repo: change.repo });
+          if (repo.archived === change.archived) {
+            return result("skipped", `Already ${change.archived ? 'archived' : 'active'}`);
+          }
+
+          let readme: { readmePath: string; readmeBlobSha: string; previousReadmeBlobSha: string } | undefined;
+          const updateReadme = async () => {
+            if (!change.readmeUpdate) return;
+            const { path, content, baseSha, message } = change.readmeUpdate;
+            try {
+              const { data } = await this.octokit.repos.createOrUpdateFileContents({
+                owner: change.owner,
+                repo: change.repo,
+                path,
+                message,
+                content: Buffer.from(content).toString('base64'),
+                sha: baseSha
+              });
+              readme = { readmePath: path, readmeBlobSha: data.content?.sha ?? "", previousReadmeBlobSha: baseSha };
+            } catch (error: any) {
+              throw new Error(error.status === 409 ? `${path} changed since the plan was made` : error.message);
+            }
+          };
+
+          let note = "";
+          if (change.archived) {
+            await updateReadme();
+            await this.octokit.repos.update({ owner: change.owner, repo: change.repo, archived: true });
+          } else {
+            await this.octokit.repos.update({ owner: change.owner, repo: change.repo, archived: false });
+            try {
+              await updateReadme();
+            } catch (error: any) {
+              // The repository is unarchived either way; the notice can be removed by hand
+              note = ` (README not updated: ${error.message})`;
+            }
+          }
+
+          const entry = this.journal.record({
+            kind: "archive-changed",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            previousArchived: repo.archived ?? false,
+            newArchived: change.archived,
+            ...readme
+          });
+          return result("applied", `${change.archived ? 'Archived' : 'Unarchived'}${note}`, entry.id);
+        }
+        case "set-branch-protection": {
+          const profile = getProtectionProfile(change.profile);
+          const [previousProtection, settings] = await Promise.all([
+            loadClassicProtection(this.octokit, change.owner, change.repo, change.branch),
+            loadRepositorySettings(this.octokit, change.owner, change.repo)
+          ]);
+          const newProtection = mergeProtection(previousProtection, profile, change.statusContexts);
+          const previousSettings = pickSettings(settings, profile.settings);
+          const protectionChanged = !sameProtection(previousProtection, newProtection);
+          const settingsChanged = !sameSettings(previousSettings, profile.settings);
+          if (!protectionChanged && !settingsChanged) {
+            return result("skipped", `${change.branch} already meets the ${profile.name} profile`);
+          }
+
+          if (protectionChanged) {
+            await writeProtection(this.octokit, change.owner, change.repo, change.branch, newProtection);
+          }
+          if (settingsChanged) {
+            await writeSettings(this.octokit, change.owner, change.repo, profile.settings);
+          }
+          const entry = this.journal.record({
+            kind: "branch-protection-changed",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            branch: change.branch,
+            profile: profile.name,
+            changes: change.changes,
+            previousProtection,
+            newProtection,
+            previousSettings,
+            newSettings: profile.settings
+          });
+          return result("applied", `Applied the ${profile.name} profile to ${change.branch}`, entry.id);
+        }
+        case "set-security-feature": {
+          const label = SECURITY_FEATURE_LABELS[change.feature];
+          const current = await readSecurityFeature(this.octokit, change.owner, change.repo, change.feature);
+          if (current === change.enabled) {
+            return result("skipped", `${label} already ${change.enabled ? 'on' : 'off'}`);
+          }
+          await writeSecurityFeature(this.octokit, change.owner, change.repo, change.feature, change.enabled);
+          const entry = this.journal.record({
+            kind: "security-feature-changed",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            feature: change.feature,
+            // Recorded as off when it couldn't be read, so a rollback turns it off again
+            previousEnabled: current ?? false,
+            newEnabled: change.enabled
+          });
+          return result("applied", `Turned ${change.enabled ? 'on' : 'off'} ${label}`, entry.id);
+        }
+        case "sync-fork": {
+          const ref = `heads/${change.branch}`;
+          const { data: before } = await this.octokit.git.getRef({ owner: change.owner, repo: change.repo, ref });
+          let mergeType: string | undefined;
+          try {
+            const { data } = await this.octokit.repos.mergeUpstream({ owner: change.owner, repo: change.repo, branch: change.branch });
+            mergeType = data.merge_type;
+          } catch (error: any) {
+            if (error.status === 409 || error.status === 422) {
+              return result("failed", `${change.branch} can't be merged with ${change.upstream} without conflicts; sync it locally`);
+            }
+            throw error;
+          }
+          if (!mergeType || mergeType === "none") {
+            return result("skipped", `${change.branch} is already up to date with ${change.upstream}`);
+          }
+          const { data: after } = await this.octokit.git.getRef({ owner: change.owner, repo: change.repo, ref });
+          const entry = this.journal.record({
+            kind: "fork-synced",
+            batchId,
+            owner: change.owner,
+            repo: change.repo,
+            summary: change.summary,
+            branch: change.branch,
+            upstream: change.upstream,
+            mergeType,
+            previousSha: before.object.sha,
+            newSha: after.object.sha
+          });
+          return result("applied", `Synced ${change.branch} with ${change.upstream} (${mergeType})`, entry.id);
+        }
+      }
+    } catch (error: any) {
+      return result("failed", error.message);
+    }
+  }
+
+  /**
+   * Commit a repository's file changes together on a new branch off the default branch,
+   * then open a pull request for them. Changes already in an open organizer pull request,
+   * e.g. from applying the same plan twice, are skipped.
+   */
+  private async openPullRequest(changes: CreateFileChange[], batchId: string): Promise<ChangeResult[]> {
+    const { owner, repo } = changes[0];
+    const results: ChangeResult[] = [];
+    const pending: CreateFileChange[] = [];
+    const branch = `${ORGANIZER_BRANCH_PREFIX}${batchId}`;
+    let branchCreated = false;
+    let empty = false;
+
+    try {
+      const proposed = await this.proposedChanges(owner, repo);
+      for (const change of changes) {
+        const pr = proposed.get(change.id);
+        if (pr) {
+          results.push(changeResult(change, "skipped", `Already proposed in open pull request #${pr.number}`, { pullRequestUrl: pr.url }));
+          continue;
+        }
+        const existing = await this.existingFile(change);
+        if (existing) {
+          results.push(changeResult(change, "skipped", `${existing} already exists`));
+        } else {
+          pending.push(change);
+        }
+      }
+      if (pending.length === 0) return results;
+
+      const { data: repository } = await this.octokit.repos.get({ owner, repo });
+      empty = repository.size === 0;
+      const base = repository.default_branch;
+      const { data: ref } = await this.octokit.git.getRef({ owner, repo, ref: `heads/${base}` });
+      const { data: parent } = await this.octokit.git.getCommit({ owner, repo, commit_sha: ref.object.sha });
+
+      const { data: tree } = await this.octokit.git.createTree({
+        owner,
+        repo,
+        base_tree: parent.tree.sha,
+        tree: pending.map(change => ({
+          path: change.path,
+          mode: "100644" as const,
+          type: "blob" as const,
+          content: change.content
+        }))
+      });
+      const { data: commit } = await this.octokit.git.createCommit({
+        owner,
+        repo,
+        message: pending.length === 1
+          ? pending[0].message
+          : `Repository organizer fixes\n\n${pending.map(change => `- ${change.message}`).join("\n")}`,
+        tree: tree.sha,
+        parents: [parent.sha]
+      });
+
+      await this.octokit.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commit.sha });
+      branchCreated = true;
+
+      const { data: pr } = await this.octokit.pulls.create({
+        owner,
+        repo,
+        head: branch,
+        base,
+        title: pending.length === 1 ? pending[0].message : `Repository organizer: ${pending.length} fixes`,
+        body: renderPullRequestBody(pending)
+      });
+
+      const entry = this.journal.record({
+        kind: "pull-request-opened",
+        batchId,
+        owner,
+        repo,
+        summary: `Open pull request #${pr.number}: ${pr.title}`,
+        number: pr.number,
+        url: pr.html_url,
+        branch,
+        paths: pending.map(change => change.path),
+        commitSha: commit.sha
+      });
+
+      return [
+        ...results,
+        ...pending.map(change => changeResult(change, "applied", `Committed ${change.path} in pull request #${pr.number}`, {
+          journalEntryId: entry.id,
+          pullRequestUrl: pr.html_url
+        }))
+      ];
+    } catch (error: any) {
+      // Don't leave a branch behind without its pull request
+      if (branchCreated) {
+        await this.octokit.git.deleteRef({ owner, repo, ref: `heads/${branch}` }).catch(() => undefined);
+      }
+      // GitHub answers 409 for an empty repository, but also for other conflicts such as a racing push
+      const message = error.status === 409 && empty ? "Repository is empty, so there is no branch to open a pull request against" : error.message;
+      return [
+        ...results,
+        ...changes
+          .filter(change => !results.some(r => r.changeId === change.id))
+          .map(change => changeResult(change, "failed", message))
+      ];
+    }
+  }
+
+  /**
+   * Why a repository shouldn't be made public yet, or null if the secret scan checked everything
+   * and found nothing. Recent history is scanned too, since making a repository public publishes
+   * every commit.
+   */
+  private async secretScanBlock(owner: string, repo: string, defaultBranch: string): Promise<string | null> {
+    const files = await RepoFileIndex.load(this.octokit, owner, repo, defaultBranch);
+    const scan = await scanRepositoryForSecrets(this.octokit, this.scheduler, { owner, name: repo, defaultBranch }, files, {
+      historyCommits: GATE_HISTORY_COMMITS
+    });
+    if (scan.findings.length === 0) {
+      if (scan.complete) return null;
+      return `Not made public: the secret scan couldn't check every file, since the repository is too large or has files too large to read. ` +
+        "Review the repository, or make it public anyway with overrideSecretScan";
+    }
+
+    const listed = scan.findings.slice(0, 5).map(describeFinding).join(", ");
+    const more = scan.findings.length > 5 ? ` and ${scan.findings.length - 5} more` : "";
+    return `Not made public: the secret scan found ${scan.findings.length} possible secret(s): ${listed}${more}. ` +
+      "Remove and rotate them, or make it public anyway with overrideSecretScan";
+  }
+
+  /**
+   * Path of an existing file that makes a create-file change unnecessary, if any.
+   */
+  private async existingFile(change: CreateFileChange): Promise<string | null> {
+    if (await fileExists(this.octokit, change.owner, change.repo, change.path)) {
+      return change.path;
+    }
+    if (change.skipIfPresent) {
+      const index = await RepoFileIndex.load(this.octokit, change.owner, change.repo);
+      return index.find(change.skipIfPresent);
+    }
+    return null;
+  }
+
+  /**
+   * Put back the README an archive change edited, unless it has been edited again since.
+   * Returns a note for the rollback message.
+   */
+  private async restoreReadme(entry: ArchiveChangedEntry): Promise<string> {
+    if (!entry.readmePath || !entry.previousReadmeBlobSha) return "";
+
+    const { data } = await this.octokit.repos.getContent({ owner: entry.owner, repo: entry.repo, path: entry.readmePath });
+    if (Array.isArray(data) || data.sha !== entry.readmeBlobSha) {
+      return `; ${entry.readmePath} has been modified since, so it was left as is`;
+    }
+
+    const { data: blob } = await this.octokit.git.getBlob({ owner: entry.owner, repo: entry.repo, file_sha: entry.previousReadmeBlobSha });
+    await this.octokit.repos.createOrUpdateFileContents({
+      owner: entry.owner,
+      repo: entry.repo,
+      path: entry.readmePath,
+      message: `Revert: restore ${entry.readmePath}`,
+      content: blob.content.replace(/\n/g, ""),
+      sha: data.sha
+    });
+    return ` and restored ${entry.readmePath}`;
+  }
+
+  /**
+   * The open organizer pull request carrying each change ID, read from the marker in their descriptions.
+   */
+  private async proposedChanges(owner: string, repo: string): Promise<Map<string, { number: number; url: string }>> {
+    const prs = await this.octokit.paginate(this.octokit.pulls.list, { owner, repo, state: "open", per_page: 100 });
+    const proposed = new Map<string, { number: number; url: string }>();
+    for (const pr of prs.filter(pr => pr.head.ref.startsWith(ORGANIZER_BRANCH_PREFIX))) {
+      const ids = pr.body?.match(CHANGE_IDS_MARKER)?.[1].split(",") ?? [];
+      for (const id of ids) {
+        proposed.set(id, { number: pr.number, url: pr.html_url });
+      }
+    }
+    return proposed;
+  }
+
+  /**
+   * Close one of the organizer's pull requests and delete its branch. Merged pull requests are
+   * left alone since their changes are already on the default branch, and pull requests from
+   * other branches are refused.
+   */
+  async closePullRequest(owner: string, repo: string, number: number, deleteBranch: boolean = true): Promise<{ closed: boolean; message: string }> {
+    const { data: pr } = await this.octokit.pulls.get({ owner, repo, pull_number: number });
+
+    if (!pr.head.ref.startsWith(ORGANIZER_BRANCH_PREFIX)) {
+      return { closed: false, message: `#${number} was not opened by the organizer (branch ${pr.head.ref})` };
+    }
+    if (pr.merged) {
+      return { closed: false, message: `#${number} has already been merged` };
+    }
+
+    let message = `#${number} was already closed`;
+    if (pr.state === "open") {
+      await this.octokit.pulls.update({ owner, repo, pull_number: number, state: "closed" });
+      message = `Closed #${number}`;
+    }
+
+    if (deleteBranch && pr.head.repo?.full_name === pr.base.repo.full_name) {
+      try {
+        await this.octokit.git.deleteRef({ owner, repo, ref: `heads/${pr.head.ref}` });
+        message += ` and deleted ${pr.head.ref}`;
+      } catch (error: any) {
+        // 422: the branch is already gone
+        if (error.status !== 422 && error.status !== 404) throw error;
+      }
+    }
+
+    const entry = this.journal.findPullRequest(owner, repo, number);
+    if (entry && !entry.rolledBackAt) {
+      this.journal.markRolledBack(entry.id, message);
+    }
+    return { closed: true, message };
+  }
+
+  /**
+   * Revert a journaled change, refusing when the repository has moved on since. Restoring public
+   * visibility goes through the same secret scan as making a repository public.
+   */
+  async rollback(entry: JournalEntry, options: { overrideSecretScan?: boolean } = {}): Promise<RollbackResult> {
+    const result = (status: RollbackResult["status"], message: string): RollbackResult => ({
+      entryId: entry.id,
+      repo: `${entry.owner}/${entry.repo}`,
+      summary: entry.summary,
+      status,
+      message
+    });
+
+    if (entry.rolledBackAt) {
+      return result("refused", `Already rolled back at ${entry.rolledBackAt}`);
+    }
+
+    try {
+      switch (entry.kind) {
+        case "file-created": {
+          let currentSha: string;
+          try {
+            const { data } = await this.octokit.repos.getContent({
+              owner: entry.owner,
+              repo: entry.repo,
+              path: entry.path
+            });
+            if (Array.isArray(data)) {
+              return result("refused", `${entry.path} is now a directory`);
+            }
+            currentSha = data.sha;
+          } catch (error: any) {
+            if (error.status === 404) {
+              return result("refused", `${entry.path} no longer exists`);
+            }
+            throw error;
+          }
+
+          if (currentSha !== entry.blobSha) {
+            return result("refused", `${entry.path} has been modified since it was created`);
+          }
+
+          const { data } = await this.octokit.repos.deleteFile({
+            owner: entry.owner,
+            repo: entry.repo,
+            path: entry.path,
+            message: `Revert: remove ${entry.path}`,
+            sha: currentSha
+          });
+          const note = `Deleted ${entry.path} in ${data.commit.sha}`;
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "visibility-changed": {
+          const { data: repo } = await this.octokit.repos.get({ owner: entry.owner, repo: entry.repo });
+          if (repo.private !== entry.newPrivate) {
+            return result("refused", "Visibility has been changed again since");
+          }
+          if (!entry.previousPrivate && !options.overrideSecretScan) {
+            const blocked = await this.secretScanBlock(entry.owner, entry.repo, repo.default_branch);
+            if (blocked) return result("refused", blocked);
+          }
+          await this.octokit.repos.update({
+            owner: entry.owner,
+            repo: entry.repo,
+            private: entry.previousPrivate
+          });
+          const note = `Restored ${entry.previousPrivate ? 'private' : 'public'} visibility`;
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "pull-request-opened": {
+          const { closed, message } = await this.closePullRequest(entry.owner, entry.repo, entry.number);
+          return result(closed ? "rolled-back" : "refused", message);
+        }
+        case "topics-changed": {
+          const { data } = await this.octokit.repos.getAllTopics({ owner: entry.owner, repo: entry.repo });
+          if (!sameTopics(data.names, entry.newTopics)) {
+            return result("refused", "Topics have been changed again since");
+          }
+          await this.octokit.repos.replaceAllTopics({
+            owner: entry.owner,
+            repo: entry.repo,
+            names: entry.previousTopics
+          });
+          const note = entry.previousTopics.length
+            ? `Restored topics: ${entry.previousTopics.join(", ")}`
+            : "Removed all topics";
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "description-changed": {
+          const { data: repo } = await this.octokit.repos.get({ owner: entry.owner, repo: entry.repo });
+          if (repo.description !== entry.newDescription || (repo.homepage ?? null) !== entry.newHomepage) {
+            return result("refused", "Description or homepage has been changed again since");
+          }
+          await this.octokit.repos.update({
+            owner: entry.owner,
+            repo: entry.repo,
+            // GitHub clears a field set to an empty string
+            description: entry.previousDescription ?? "",
+            homepage: entry.previousHomepage ?? ""
+          });
+          const note = entry.previousDescription
+            ? `Restored description "${entry.previousDescription}"`
+            : "Cleared the description";
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "archive-changed": {
+          const { data: repo } = await this.octokit.repos.get({ owner: entry.owner, repo: entry.repo });
+          if ((repo.archived ?? false) !== entry.newArchived) {
+            return result("refused", `The repository has been ${repo.archived ? 'archived' : 'unarchived'} again since`);
+          }
+
+          let readmeNote = "";
+          if (entry.newArchived) {
+            await this.octokit.repos.update({ owner: entry.owner, repo: entry.repo, archived: false });
+            // Once unarchived a retry would be refused, so a README that can't be restored is only noted
+            readmeNote = await this.restoreReadme(entry).catch((error: any) =>
+              `, but ${entry.readmePath} couldn't be restored: ${error.message}`);
+          } else {
+            readmeNote = await this.restoreReadme(entry);
+            await this.octokit.repos.update({ owner: entry.owner, repo: entry.repo, archived: true });
+          }
+
+          const note = `${entry.newArchived ? 'Unarchived' : 'Archived'} again${readmeNote}`;
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "branch-protection-changed": {
+          const [protection, settings] = await Promise.all([
+            loadClassicProtection(this.octokit, entry.owner, entry.repo, entry.branch),
+            loadRepositorySettings(this.octokit, entry.owner, entry.repo)
+          ]);
+          if (!sameProtection(protection, entry.newProtection) || !sameSettings(pickSettings(settings, entry.newSettings), entry.newSettings)) {
+            return result("refused", `Protection of ${entry.branch} or the merge settings have been changed again since`);
+          }
+
+          if (entry.previousProtection) {
+            await writeProtection(this.octokit, entry.owner, entry.repo, entry.branch, entry.previousProtection);
+          } else {
+            await this.octokit.repos.deleteBranchProtection({ owner: entry.owner, repo: entry.repo, branch: entry.branch });
+          }
+          if (Object.keys(entry.previousSettings).length > 0) {
+            await writeSettings(this.octokit, entry.owner, entry.repo, entry.previousSettings);
+          }
+
+          const note = entry.previousProtection
+            ? `Restored the previous protection of ${entry.branch}`
+            : `Removed the protection from ${entry.branch}`;
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "security-feature-changed": {
+          const label = SECURITY_FEATURE_LABELS[entry.feature];
+          const current = await readSecurityFeature(this.octokit, entry.owner, entry.repo, entry.feature);
+          if (current !== entry.newEnabled) {
+            return result("refused", `${label} has been changed again since`);
+          }
+          await writeSecurityFeature(this.octokit, entry.owner, entry.repo, entry.feature, entry.previousEnabled);
+          const note = `Turned ${entry.previousEnabled ? 'on' : 'off'} ${label} again`;
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+        case "fork-synced": {
+          const ref = `heads/${entry.branch}`;
+          const { data: current } = await this.octokit.git.getRef({ owner: entry.owner, repo: entry.repo, ref });
+          if (current.object.sha !== entry.newSha) {
+            return result("refused", `${entry.branch} has new commits since the sync`);
+          }
+          await this.octokit.git.updateRef({ owner: entry.owner, repo: entry.repo, ref, sha: entry.previousSha, force: true });
+          const note = `Reset ${entry.branch} to ${entry.previousSha.slice(0, 7)}`;
+          this.journal.markRolledBack(entry.id, note);
+          return result("rolled-back", note);
+        }
+      }
+    } catch (error: any) {
+      return result("failed", error.message);
+    }
+  }
+}
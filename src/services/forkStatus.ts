@@ -0,0 +1,98 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+
+/**
+ * Where a fork's default branch stands against its upstream's. "no-upstream" means the upstream
+ * was deleted or has nothing to compare with.
+ */
+export type ForkState = "identical" | "ahead" | "behind" | "diverged" | "no-upstream";
+
+export const FORK_STATES: [ForkState, ...ForkState[]] = ["identical", "ahead", "behind", "diverged", "no-upstream"];
+
+export interface ForkStatus {
+  upstream: string | null;
+  upstreamUrl: string | null;
+  branch: string;
+  upstreamBranch: string | null;
+  state: ForkState;
+  /** Commits on the fork's default branch that upstream doesn't have */
+  aheadBy: number;
+  /** Upstream commits the fork's default branch doesn't have */
+  behindBy: number;
+  /** Other branches of the fork with commits upstream doesn't have */
+  branchesAhead: string[];
+  /** No commits of its own on any branch, so deleting the fork loses no work */
+  noUniqueCommits: boolean;
+}
+
+/** Branches besides the default compared with upstream; forks with more are never deletion candidates */
+const MAX_COMPARED_BRANCHES = 10;
+
+/**
+ * Commits on a fork branch that aren't on the upstream branch, and the other way round.
+ * Null if the branches can't be compared.
+ */
+async function compareWithUpstream(
+  octokit: Octokit,
+  upstream: { owner: string; repo: string; branch: string },
+  fork: { owner: string; branch: string }
+): Promise<{ aheadBy: number; behindBy: number } | null> {
+  try {
+    const { data } = await octokit.repos.compareCommitsWithBasehead({
+      owner: upstream.owner,
+      repo: upstream.repo,
+      basehead: `${upstream.branch}...${fork.owner}:${fork.branch}`,
+      per_page: 1
+    });
+    return { aheadBy: data.ahead_by, behindBy: data.behind_by };
+  } catch (error: any) {
+    if (error.status === 404 || error.status === 422) return null;
+    throw error;
+  }
+}
+
+/**
+ * Compare a fork with the repository it was forked from. The default branch is compared with
+ * upstream's default branch; other branches are only checked for commits of their own.
+ */
+export async function loadForkStatus(octokit: Octokit, repo: RepositoryInfo): Promise<ForkStatus> {
+  const owner = repo.owner.login;
+  const { data } = await octokit.repos.get({ owner, repo: repo.name });
+  const branch = data.default_branch;
+  const parent = data.parent;
+
+  const status: ForkStatus = {
+    upstream: parent?.full_name ?? null,
+    upstreamUrl: parent?.html_url ?? null,
+    branch,
+    upstreamBranch: parent?.default_branch ?? null,
+    state: "no-upstream",
+    aheadBy: 0,
+    behindBy: 0,
+    branchesAhead: [],
+    noUniqueCommits: false
+  };
+  if (!parent?.default_branch) return status;
+
+  const upstream = { owner: parent.owner.login, repo: parent.name, branch: parent.default_branch };
+  const comparison = await compareWithUpstream(octokit, upstream, { owner, branch });
+  if (!comparison) return status;
+
+  status.aheadBy = comparison.aheadBy;
+  status.behindBy = comparison.behindBy;
+  status.state = comparison.aheadBy > 0
+    ? comparison.behindBy > 0 ? "diverged" : "ahead"
+    : comparison.behindBy > 0 ? "behind" : "identical";
+
+  const { data: branches } = await octokit.repos.listBranches({ owner, repo: repo.name, per_page: 100 });
+  const others = branches.map(b => b.name).filter(name => name !== branch);
+  for (const other of others.slice(0, MAX_COMPARED_BRANCHES)) {
+    const otherComparison = await compareWithUpstream(octokit, upstream, { owner, branch: other });
+    // A branch that can't be compared may hold anything
+    if (!otherComparison || otherComparison.aheadBy > 0) status.branchesAhead.push(other);
+  }
+
+  status.noUniqueCommits = status.aheadBy === 0 && status.branchesAhead.length === 0 &&
+    others.length <= MAX_COMPARED_BRANCHES && branches.length < 100;
+  return status;
+}
@@ -0,0 +1,227 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { Octokit } from "@octokit/rest";
+import { dataPath } from "./dataStore";
+
+interface CachedResponse {
+  key: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  response: {
+    status: number;
+    url: string;
+    headers: Record<string, string | number | undefined>;
+    data: any;
+  };
+}
+
+/**
+ * Storage for cached responses. Entries are grouped by repository so a repository's
+ * entries can be dropped together after it changes.
+ */
+export interface CacheBackend {
+  get(group: string, key: string): CachedResponse | undefined;
+  set(group: string, entry: CachedResponse): void;
+  deleteGroup(group: string): number;
+  clear(): number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  private groups = new Map<string, Map<string, CachedResponse>>();
+
+  get(group: string, key: string): CachedResponse | undefined {
+    const entry = this.groups.get(group)?.get(key);
+    // Hand out copies so callers can't modify what's cached
+    return entry && structuredClone(entry);
+  }
+
+  set(group: string, entry: CachedResponse): void {
+    if (!this.groups.has(group)) this.groups.set(group, new Map());
+    this.groups.get(group)!.set(entry.key, structuredClone(entry));
+  }
+
+  deleteGroup(group: string): number {
+    const size = this.groups.get(group)?.size ?? 0;
+    this.groups.delete(group);
+    return size;
+  }
+
+  clear(): number {
+    let size = 0;
+    for (const entries of this.groups.values()) size += entries.size;
+    this.groups.clear();
+    return size;
+  }
+}
+
+/**
+ * One JSON file per response under data/cache/<namespace>/<group>/, so the cache survives restarts.
+ * Each credential gets its own namespace, since what a response contains depends on who asked.
+ */
+export class DiskCacheBackend implements CacheBackend {
+  constructor(private namespace: string = "default") {}
+
+  private fileFor(group: string, key: string): string {
+    return dataPath("cache", this.namespace, group, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  get(group: string, key: string): CachedResponse | undefined {
+    try {
+      const entry = JSON.parse(fs.readFileSync(this.fileFor(group, key), "utf8")) as CachedResponse;
+      return entry.key === key ? entry : undefined;
+    } catch {
+      // Missing or unreadable entries are just cache misses
+      return undefined;
+    }
+  }
+
+  set(group: string, entry: CachedResponse): void {
+    const filePath = this.fileFor(group, entry.key);
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entry));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  deleteGroup(group: string): number {
+    const dir = path.dirname(dataPath("cache", this.namespace, group, "_"));
+    const size = fs.existsSync(dir) ? fs.readdirSync(dir).length : 0;
+    fs.rmSync(dir, { recursive: true, force: true });
+    return size;
+  }
+
+  clear(): number {
+    const dir = path.dirname(dataPath("cache", this.namespace, "_"));
+    let size = 0;
+    for (const group of fs.readdirSync(dir)) {
+      size += fs.readdirSync(path.join(dir, group)).length;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+    return size;
+  }
+}
+
+export interface GitHubCacheOptions {
+  backend: CacheBackend;
+  /** How long a response is served without asking GitHub at all */
+  freshSeconds: number;
+  /** How long a response is kept for conditional revalidation */
+  maxAgeSeconds: number;
+}
+
+const GLOBAL_GROUP = "_global";
+
+/**
+ * Cache group for a request URL: one per repository for repository endpoints, a shared group otherwise.
+ */
+function groupFor(url: string): string {
+  const match = new URL(url).pathname.match(/^\/repos\/([^/]+)\/([^/]+)/);
+  return match ? repositoryGroup(match[1], match[2]) : GLOBAL_GROUP;
+}
+
+function repositoryGroup(owner: string, repo: string): string {
+  // Group names double as directory names for the disk backend
+  return `${owner}@${repo}`.toLowerCase();
+}
+
+/**
+ * Response cache for GitHub GET requests, installed as an Octokit request hook.
+ *
+ * Fresh responses are served without a request. Older ones are revalidated with If-None-Match /
+ * If-Modified-Since; GitHub answers 304 when nothing changed, and 304s don't count against the
+ * rate limit. Any other method invalidates the repository it touched, plus the shared listings.
+ */
+export class GitHubCache {
+  constructor(private options: GitHubCacheOptions) {}
+
+  /**
+   * Build the cache from GITHUB_CACHE (memory, disk or off), GITHUB_CACHE_FRESH_SECONDS
+   * and GITHUB_CACHE_MAX_AGE_SECONDS. Returns null when caching is off.
+   */
+  static fromEnv(namespace?: string, env: NodeJS.ProcessEnv = process.env): GitHubCache | null {
+    const mode = (env.GITHUB_CACHE || "memory").toLowerCase();
+    if (mode === "off") return null;
+    if (mode !== "memory" && mode !== "disk") {
+      throw new Error(`GITHUB_CACHE must be memory, disk or off, not "${mode}"`);
+    }
+
+    return new GitHubCache({
+      backend: mode === "disk" ? new DiskCacheBackend(namespace) : new MemoryCacheBackend(),
+      freshSeconds: Number(env.GITHUB_CACHE_FRESH_SECONDS ?? 60),
+      maxAgeSeconds: Number(env.GITHUB_CACHE_MAX_AGE_SECONDS ?? 24 * 60 * 60)
+    });
+  }
+
+  install(octokit: Octokit): void {
+    octokit.hook.wrap("request", async (request, options) => {
+      const { method, url, headers } = octokit.request.endpoint.parse(options);
+
+      if (method !== "GET") {
+        const response = await request(options);
+        this.invalidateUrl(url);
+        return response;
+      }
+
+      // Responses differ by media type, e.g. raw file contents vs. JSON metadata
+      const key = `${url} ${headers.accept ?? ""}`;
+      const group = groupFor(url);
+      const cached = this.options.backend.get(group, key);
+      const age = cached ? (Date.now() - cached.storedAt) / 1000 : Infinity;
+
+      if (cached && age < this.options.freshSeconds) {
+        return cached.response;
+      }
+
+      const conditional = cached && age < this.options.maxAgeSeconds
+        ? {
+            ...(cached.etag ? { "if-none-match": cached.etag } : {}),
+            ...(cached.lastModified ? { "if-modified-since": cached.lastModified } : {})
+          }
+        : {};
+
+      // Hook methods are bound to the original options object, so the headers are added to it in place
+      Object.assign(options.headers, conditional);
+
+      try {
+        const response = await request(options);
+        const etag = response.headers.etag;
+        const lastModified = response.headers["last-modified"];
+        if (etag || lastModified) {
+          this.options.backend.set(group, {
+            key,
+            etag,
+            lastModified,
+            storedAt: Date.now(),
+            response: { status: response.status, url: response.url, headers: response.headers, data: response.data }
+          });
+        }
+        return response;
+      } catch (error: any) {
+        if (error.status === 304 && cached) {
+          this.options.backend.set(group, { ...cached, storedAt: Date.now() });
+          return cached.response;
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Drop every cached response for a repository, along with the shared listings that include it.
+   */
+  invalidateRepository(owner: string, repo: string): number {
+    return this.options.backend.deleteGroup(repositoryGroup(owner, repo)) +
+      this.options.backend.deleteGroup(GLOBAL_GROUP);
+  }
+
+  clear(): number {
+    return this.options.backend.clear();
+  }
+
+  private invalidateUrl(url: string): void {
+    const group = groupFor(url);
+    if (group !== GLOBAL_GROUP) this.options.backend.deleteGroup(group);
+    this.options.backend.deleteGroup(GLOBAL_GROUP);
+  }
+}
@@ -0,0 +1,192 @@
+import fs from "fs";
+import { createHash, randomBytes } from "crypto";
+import { Octokit } from "@octokit/rest";
+import { createAppAuth } from "@octokit/auth-app";
+import { z } from "zod";
+import { RepositoryEnumerator } from "./repositoryEnumerator";
+import { TaskScheduler } from "./taskScheduler";
+import { GitHubCache } from "./githubCache";
+
+export interface TokenCredential {
+  kind: "token" | "oauth";
+  token: string;
+}
+
+export interface AppCredential {
+  kind: "app";
+  appId: string;
+  privateKey: string;
+  installationId: number;
+}
+
+/**
+ * How a client authenticates: a personal access token, an OAuth token, or a GitHub App
+ * installation, whose short-lived tokens are minted from the app's private key as needed.
+ */
+export type Credential = TokenCredential | AppCredential;
+
+export interface CredentialSummary {
+  credentialRef: string;
+  kind: Credential["kind"];
+  label?: string;
+  login?: string;
+  createdAt: string;
+}
+
+/**
+ * Zod field spread into every function's input schema, so each call can say whose credential to use.
+ */
+export const credentialFields = {
+  credentialRef: z.string()
+    .describe("Credential reference from the conversation context (required; registered with POST /credentials)")
+};
+
+/** Identity of the server's own credential, from GITHUB_TOKEN or the GitHub App environment */
+export const SERVER_CREDENTIAL_ID = "default";
+
+/**
+ * Stable identity of a credential that doesn't reveal it, used to keep cached responses, plans
+ * and journal entries of different people apart.
+ */
+function fingerprint(credential: Credential): string {
+  const identity = credential.kind === "app"
+    ? `app:${credential.appId}:${credential.installationId}`
+    : `token:${credential.token}`;
+  return createHash("sha256").update(identity).digest("hex").slice(0, 16);
+}
+
+/**
+ * Everything needed to talk to GitHub as one identity. Each client has its own rate limit
+ * bookkeeping and its own cache, since both belong to the credential.
+ */
+export class GitHubClient {
+  readonly identity: string;
+  readonly octokit: Octokit;
+  readonly repositories: RepositoryEnumerator;
+  readonly scheduler: TaskScheduler;
+  readonly cache: GitHubCache | null;
+
+  constructor(credential: Credential, identity: string = fingerprint(credential)) {
+    this.identity = identity;
+    if (credential.kind === "app") {
+      this.octokit = new Octokit({
+        authStrategy: createAppAuth,
+        auth: {
+          appId: credential.appId,
+          privateKey: credential.privateKey,
+          installationId: credential.installationId
+        }
+      });
+    } else {
+      this.octokit = new Octokit({ auth: credential.token });
+    }
+
+    // The cache wraps the scheduler, so cache hits skip the rate limit bookkeeping
+    this.scheduler = TaskScheduler.fromEnv();
+    this.scheduler.install(this.octokit);
+    this.cache = GitHubCache.fromEnv(this.identity);
+    this.cache?.install(this.octokit);
+    this.repositories = new RepositoryEnumerator(
+      this.octokit,
+      credential.kind === "app" ? credential.installationId : undefined
+    );
+  }
+}
+
+/**
+ * The server's own credential: a GitHub App installation when GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY
+ * (or GITHUB_APP_PRIVATE_KEY_PATH) and GITHUB_APP_INSTALLATION_ID are set, otherwise GITHUB_TOKEN.
+ */
+export function credentialFromEnv(env: NodeJS.ProcessEnv = process.env): Credential | undefined {
+  if (env.GITHUB_APP_ID) {
+    const privateKey = env.GITHUB_APP_PRIVATE_KEY_PATH
+      ? fs.readFileSync(env.GITHUB_APP_PRIVATE_KEY_PATH, "utf8")
+      : (env.GITHUB_APP_PRIVATE_KEY || "").replace(/\\n/g, "\n");
+    if (!privateKey || !env.GITHUB_APP_INSTALLATION_ID) {
+      throw new Error("GITHUB_APP_ID needs GITHUB_APP_PRIVATE_KEY (or GITHUB_APP_PRIVATE_KEY_PATH) and GITHUB_APP_INSTALLATION_ID");
+    }
+    return {
+      kind: "app",
+      appId: env.GITHUB_APP_ID,
+      privateKey,
+      installationId: Number(env.GITHUB_APP_INSTALLATION_ID)
+    };
+  }
+  return env.GITHUB_TOKEN ? { kind: "token", token: env.GITHUB_TOKEN } : undefined;
+}
+
+/**
+ * Credentials registered by the people using this deployment, held in memory only so secrets
+ * never reach the data directory. Each is handed out as an opaque reference that the client passes
+ * in the agent's context; functions resolve it to a client on every call. Every call needs one:
+ * the server's own credential is only handed to the audit scheduler, and only when
+ * ALLOW_SERVER_CREDENTIAL=true says the deployment has a single user.
+ */
+export class CredentialRegistry {
+  private entries = new Map<string, { summary: CredentialSummary; client: GitHubClient }>();
+  private serverRef: string | null = null;
+
+  /**
+   * Register a credential after checking that GitHub accepts it.
+   */
+  async register(credential: Credential, label?: string): Promise<CredentialSummary> {
+    const client = new GitHubClient(credential);
+    const login = await client.repositories.getAuthenticatedLogin();
+
+    const credentialRef = `cred_${randomBytes(16).toString("hex")}`;
+    const summary: CredentialSummary = {
+      credentialRef,
+      kind: credential.kind,
+      label,
+      login,
+      createdAt: new Date().toISOString()
+    };
+    this.entries.set(credentialRef, { summary, client });
+    return summary;
+  }
+
+  remove(credentialRef: string): boolean {
+    if (credentialRef === this.serverRef) return false;
+    return this.entries.delete(credentialRef);
+  }
+
+  /**
+   * Reference to the server's own credential, registered on first use under a reference that is
+   * never handed out. Refused unless ALLOW_SERVER_CREDENTIAL=true.
+   */
+  serverCredentialRef(env: NodeJS.ProcessEnv = process.env): string {
+    if (this.serverRef) return this.serverRef;
+    if (env.ALLOW_SERVER_CREDENTIAL !== "true") {
+      throw new Error("The server's own credential is disabled. Set ALLOW_SERVER_CREDENTIAL=true on a single-user deployment to use it.");
+    }
+    const credential = credentialFromEnv(env);
+    if (!credential) {
+      throw new Error("ALLOW_SERVER_CREDENTIAL needs GITHUB_TOKEN or a GitHub App");
+    }
+
+    const credentialRef = `cred_${randomBytes(16).toString("hex")}`;
+    this.entries.set(credentialRef, {
+      summary: { credentialRef, kind: credential.kind, label: "server", createdAt: new Date().toISOString() },
+      client: new GitHubClient(credential, SERVER_CREDENTIAL_ID)
+    });
+    this.serverRef = credentialRef;
+    return credentialRef;
+  }
+
+  /**
+   * Client for a registered credential reference.
+   */
+  resolve(credentialRef?: string): GitHubClient {
+    if (!credentialRef) {
+      throw new Error("No credentialRef given. Register a credential with POST /credentials and pass its credentialRef.");
+    }
+
+    const entry = this.entries.get(credentialRef);
+    if (!entry) {
+      throw new Error(`Unknown credential ${credentialRef}. Register one with POST /credentials.`);
+    }
+    return entry.client;
+  }
+}
+
+export const credentialRegistry = new CredentialRegistry();
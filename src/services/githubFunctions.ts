@@ -1,6 +1,168 @@
 import { DaemoFunction } from "daemo-engine";
 import { z } from "zod";
-import { Octokit } from "@octokit/rest";
+import { GitHubRepository, RepositoryTarget, repositoryTargetFields } from "./repositoryEnumerator";
+import {
+  ChangeExecutor,
+  ChangeProposal,
+  Delivery,
+  FixPlanStore,
+  MAX_TOPICS,
+  ORGANIZER_BRANCH_PREFIX,
+  RollbackResult,
+  changeResultSchema,
+  deliveryField,
+  describePlan,
+  fixPlanSchema,
+  rollbackResultSchema
+} from "./fixPlans";
+import { ChangeJournal, PullRequestOpenedEntry, describeEntry, journalEntrySchema } from "./changeJournal";
+import { renderReadme } from "./fileTemplates";
+import { LICENSE_CATALOG, LICENSE_IDS, getLicense, recommendLicense, renderLicenseFiles } from "./licenseCatalog";
+import { BRANCH_RULE_IDS, HealthRule, RuleContext, RuleEvaluation, SECURITY_RULE_IDS, STALE_MONTHS, Severity, createRuleContext, healthRules } from "./healthRules";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+import { normalizeTopic, suggestTopics } from "./topicSuggestions";
+import { draftDescription } from "./descriptionDrafts";
+import { archiveEvidence, planArchive, planUnarchive } from "./archiveWorkflow";
+import { PROTECTION_PROFILES, PROTECTION_PROFILE_NAMES, getProtectionProfile, planProtectionProfile } from "./branchProtection";
+import {
+  SECURITY_FEATURES,
+  SECURITY_FEATURE_LABELS,
+  SecurityFeature,
+  detectEcosystems,
+  renderDependabotConfig,
+  uncoveredEcosystems,
+  parseDependabotConfig
+} from "./securityPosture";
+import { scanRepositoryForSecrets } from "./secretScan";
+import { FORK_STATES, loadForkStatus } from "./forkStatus";
+import { DuplicateConfidence, findDuplicateClusters, loadFingerprint } from "./duplicateDetection";
+import { HealthHistory, RepoHealthChange } from "./healthHistory";
+import { REPORT_FORMATS, Report, ReportFormat, publicBaseUrl, reportStore } from "./reportBuilder";
+import { STARTER_LANGUAGES, STARTER_WORKFLOW_PATH, StarterLanguage, detectCiStack, renderStarterWorkflow } from "./ciWorkflows";
+import {
+  COMMUNITY_FILE_CATALOG,
+  COMMUNITY_FILE_KINDS,
+  CommunityFileKind,
+  communityFileStatus,
+  communityTemplateOptions,
+  getCommunityFile,
+  loadCommunityProfile
+} from "./communityFiles";
+import { credentialFields, credentialRegistry } from "./githubClients";
+import { GovernanceIssue, isTeamOwner, loadOrganizationSettings, loadTeamAccess, settingsIssues } from "./orgGovernance";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type CredentialInput = { credentialRef?: string };
+
+type OrganizerClient = ReturnType<GitHubFunctions["client"]>;
+
+/** A repository whose health rules couldn't be evaluated */
+interface NotAnalysed {
+  repo: string;
+  error: string;
+}
+
+/** Repositories with their rule contexts and evaluations, in the same order, and the ones that failed */
+interface PortfolioEvaluation {
+  repos: GitHubRepository[];
+  contexts: RuleContext[];
+  evaluations: RuleEvaluation[][];
+  notAnalysed: NotAnalysed[];
+}
+
+const notAnalysedSchema = z.array(z.object({
+  repo: z.string(),
+  error: z.string()
+})).describe("Repositories whose health couldn't be evaluated, left out of the results");
+
+function describeNotAnalysed(notAnalysed: NotAnalysed[]): string {
+  return notAnalysed.length > 0 ? ` ${notAnalysed.length} repositories couldn't be analysed: ${notAnalysed.map(n => n.repo).join(", ")}.` : "";
+}
+
+// Issue shape shared by the repository and organization analyses
+const issueSchema = z.object({
+  repo: z.string(),
+  ruleId: z.string(),
+  severity: z.enum(["high", "medium", "low"]),
+  issue: z.string()
+});
+
+// Security posture shape shared by the health check and the security audit
+const ecosystemSchema = z.object({
+  ecosystem: z.string(),
+  directories: z.array(z.string())
+});
+
+const securityPostureSchema = z.object({
+  vulnerabilityAlerts: z.boolean().nullable(),
+  securityUpdates: z.boolean().nullable(),
+  dependabotConfig: z.string().nullable(),
+  ecosystems: z.array(ecosystemSchema),
+  uncoveredEcosystems: z.array(ecosystemSchema),
+  openAlerts: z.object({
+    total: z.number(),
+    critical: z.number(),
+    high: z.number(),
+    medium: z.number(),
+    low: z.number()
+  }).nullable(),
+  secretScanning: z.boolean().nullable(),
+  pushProtection: z.boolean().nullable(),
+  codeScanning: z.boolean().nullable()
+}).describe("null means the token isn't allowed to tell");
+
+// Rule shape for issues read back from the health history, which may name rules removed since
+const historyRuleSchema = z.object({
+  ruleId: z.string(),
+  title: z.string(),
+  severity: z.enum(["high", "medium", "low"]).nullable()
+});
+
+const repoHealthChangeSchema = z.object({
+  repo: z.string(),
+  scoreThen: z.number(),
+  scoreNow: z.number(),
+  change: z.number(),
+  thenAt: z.string(),
+  nowAt: z.string(),
+  introduced: z.array(historyRuleSchema),
+  fixed: z.array(historyRuleSchema)
+});
+
+const historyWindowFields = {
+  sinceDays: z.number().int().min(1).optional().default(30).describe("Compare with the health this many days ago"),
+  since: z.string().optional().describe("Compare with the health at this ISO date instead of sinceDays"),
+  owner: z.string().optional().describe("Only repositories of this owner"),
+  ...credentialFields
+};
+
+type HistoryWindow = { sinceDays?: number; since?: string; owner?: string } & CredentialInput;
+
+function historySince(input: HistoryWindow): Date {
+  const since = input.since ? new Date(input.since) : new Date(Date.now() - (input.sinceDays ?? 30) * DAY_MS);
+  if (isNaN(since.getTime())) {
+    throw new Error(`Invalid date "${input.since}"`);
+  }
+  return since;
+}
+
+function historyRule(id: string) {
+  if (!healthRules.ids().includes(id)) return { ruleId: id, title: id, severity: null };
+  const rule = healthRules.get(id);
+  return { ruleId: id, title: rule.title, severity: rule.severity };
+}
+
+function describeHealthChange(change: RepoHealthChange) {
+  return { ...change, introduced: change.introduced.map(historyRule), fixed: change.fixed.map(historyRule) };
+}
+
+export type ReportInput = RepositoryTarget & {
+  scope?: "portfolio" | "repository";
+  owner?: string;
+  repo?: string;
+  includeStatistics?: boolean;
+} & CredentialInput;
 
 /**
  * GitHub Repository Analyzer Service for Daemo
@@ -9,13 +171,26 @@ import { Octokit } from "@octokit/rest";
  * with health scoring, issue detection, and recommendations.
  */
 export class GitHubFunctions {
-  private octokit: Octokit;
-
-  constructor() {
-    // Initialize GitHub client with token from environment
-    this.octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN
-    });
+  private plans = new FixPlanStore();
+
+  /**
+   * Resolve the GitHub client for the credential a call carries. There is no process-wide client:
+   * every function acts as whoever the call's credential belongs to, and only sees the plans,
+   * journal entries and health history that credential created.
+   */
+  private client(credentialRef?: string) {
+    const { identity, octokit, repositories, scheduler, cache } = credentialRegistry.resolve(credentialRef);
+    const journal = new ChangeJournal(identity);
+    return {
+      identity,
+      octokit,
+      repositories,
+      scheduler,
+      cache,
+      journal,
+      history: new HealthHistory(identity),
+      executor: new ChangeExecutor(octokit, journal, scheduler)
+    };
   }
 
   @DaemoFunction({
@@ -23,115 +198,35 @@ export class GitHubFunctions {
     tags: ["github", "analysis", "repositories"],
     category: "GitHub Analysis",
     inputSchema: z.object({
-      username: z.string().optional().describe("GitHub username to analyze (optional, defaults to authenticated user)"),
-      includePrivate: z.boolean().optional().default(true).describe("Include private repositories")
+      ...repositoryTargetFields,
+      ...credentialFields
     }),
     outputSchema: z.object({
       totalRepos: z.number(),
       analyzed: z.number(),
-      issues: z.array(z.object({
-        repo: z.string(),
-        severity: z.enum(["high", "medium", "low"]),
-        issue: z.string()
-      })),
+      issues: z.array(issueSchema),
+      notAnalysed: notAnalysedSchema,
+      snapshotId: z.string(),
       summary: z.string()
     })
   })
-  async analyzeAllRepositories(input: { username?: string; includePrivate?: boolean }) {
+  async analyzeAllRepositories(input: RepositoryTarget & CredentialInput) {
     try {
-      const { data: repos } = await this.octokit.repos.listForAuthenticatedUser({
-        per_page: 100,
-        sort: 'updated',
-        direction: 'desc'
-      });
-
-      const issues: Array<{repo: string; severity: "high" | "medium" | "low"; issue: string}> = [];
-      
-      for (const repo of repos) {
-        // Skip private repos if requested
-        if (!input.includePrivate && repo.private) continue;
-
-        // Check for missing LICENSE
-        if (!repo.license) {
-          issues.push({
-            repo: repo.name,
-            severity: "high",
-            issue: "Missing LICENSE file"
-          });
-        }
-
-        // Check for weak description
-        if (!repo.description || repo.description.length < 10) {
-          issues.push({
-            repo: repo.name,
-            severity: "medium",
-            issue: "Weak or missing description"
-          });
-        }
-
-        // Check for README
-        try {
-          await this.octokit.repos.getContent({
-            owner: repo.owner.login,
-            repo: repo.name,
-            path: 'README.md'
-          });
-        } catch (error) {
-          issues.push({
-            repo: repo.name,
-            severity: "high",
-            issue: "Missing README.md"
-          });
-        }
-
-        // Check for stale repos (6+ months)
-        const sixMonthsAgo = new Date();
-        sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-        if (repo.updated_at && new Date(repo.updated_at) < sixMonthsAgo) {
-          issues.push({
-            repo: repo.name,
-            severity: "low",
-            issue: "Repository hasn't been updated in 6+ months"
-          });
-        }
-
-        // Check for practice/demo repos that should be private
-        const practiceKeywords = ['practice', 'test', 'learning', 'tutorial', 'example', 'demo', 'temp'];
-        const isPractice = practiceKeywords.some(keyword => 
-          repo.name.toLowerCase().includes(keyword) ||
-          (repo.description && repo.description.toLowerCase().includes(keyword))
-        );
-        if (isPractice && !repo.private) {
-          issues.push({
-            repo: repo.name,
-            severity: "medium",
-            issue: "Practice/demo code should be private"
-          });
-        }
-      }
-
-      const highPriority = issues.filter(i => i.severity === "high").length;
-      const mediumPriority = issues.filter(i => i.severity === "medium").length;
-      const lowPriority = issues.filter(i => i.severity === "low").length;
-
-      return {
-        totalRepos: repos.length,
-        analyzed: repos.length,
-        issues: issues,
-        summary: `Analyzed ${repos.length} repositories. Found ${issues.length} total issues: ${highPriority} high priority, ${mediumPriority} medium priority, ${lowPriority} low priority.`
-      };
+      const client = this.client(input.credentialRef);
+      return this.summarizeAnalysis(client, input, await this.evaluatePortfolio(client, input, "Analyzing repositories"));
     } catch (error: any) {
       throw new Error(`GitHub API error: ${error.message}`);
     }
   }
 
   @DaemoFunction({
-    description: "Get detailed health score and analysis for a specific GitHub repository",
+    description: "Get detailed health score and analysis for a specific GitHub repository, including its security posture",
     tags: ["github", "repository", "health"],
     category: "GitHub Analysis",
     inputSchema: z.object({
       owner: z.string().describe("Repository owner username"),
-      repo: z.string().describe("Repository name")
+      repo: z.string().describe("Repository name"),
+      ...credentialFields
     }),
     outputSchema: z.object({
       name: z.string(),
@@ -141,96 +236,53 @@ export class GitHubFunctions {
       recommendations: z.array(z.object({
         priority: z.enum(["high", "medium", "low"]),
         action: z.string()
-      }))
+      })),
+      security: securityPostureSchema,
+      snapshotId: z.string()
     })
   })
-  async getRepositoryHealth(input: { owner: string; repo: string }) {
+  async getRepositoryHealth(input: { owner: string; repo: string } & CredentialInput) {
     try {
-      const { data: repo } = await this.octokit.repos.get({
+      const { octokit, history } = this.client(input.credentialRef);
+      const { data: repo } = await octokit.repos.get({
         owner: input.owner,
         repo: input.repo
       });
 
-      const issues: string[] = [];
-      const strengths: string[] = [];
-      let healthScore = 100;
-
-      // Check LICENSE
-      if (!repo.license) {
-        issues.push("Missing LICENSE file");
-        healthScore -= 15;
-      } else {
-        strengths.push(`Has ${repo.license.name} license`);
-      }
-
-      // Check description
-      if (!repo.description || repo.description.length < 10) {
-        issues.push("Weak or missing description");
-        healthScore -= 10;
-      } else {
-        strengths.push("Has detailed description");
-      }
-
-      // Check README
-      try {
-        await this.octokit.repos.getContent({
-          owner: input.owner,
-          repo: input.repo,
-          path: 'README.md'
-        });
-        strengths.push("Has README.md");
-      } catch (error) {
-        issues.push("Missing README.md");
-        healthScore -= 20;
-      }
+      const ctx = createRuleContext(octokit, repo);
+      const evaluations = await healthRules.evaluate(ctx);
+      const failed = evaluations.filter(e => !e.passed);
 
-      // Check activity
-      const oneMonthAgo = new Date();
-      oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-      if (repo.updated_at && new Date(repo.updated_at) > oneMonthAgo) {
-        strengths.push("Recently updated");
-      } else {
-        issues.push("Not recently updated");
-        healthScore -= 10;
-      }
+      const issues = failed.map(e => e.rule.title);
+      const strengths = evaluations
+        .filter(e => e.passed && e.strength)
+        .map(e => e.strength!);
 
       // Check stars/engagement
       if (repo.stargazers_count > 10) {
         strengths.push(`${repo.stargazers_count} stars`);
       }
 
-      // Generate recommendations
-      const recommendations: Array<{priority: "high" | "medium" | "low"; action: string}> = [];
-      
-      if (issues.includes("Missing README.md")) {
-        recommendations.push({
-          priority: "high",
-          action: "Add a comprehensive README with installation and usage instructions"
-        });
-      }
-      
-      if (issues.includes("Missing LICENSE file")) {
-        recommendations.push({
-          priority: "high",
-          action: "Add an appropriate LICENSE file (MIT recommended for open source)"
-        });
-      }
-      
-      if (issues.includes("Weak or missing description")) {
-        recommendations.push({
-          priority: "medium",
-          action: "Add a clear, concise description explaining what the project does"
-        });
-      }
+      const recommendations = failed.map(e => ({
+        priority: e.rule.severity,
+        action: e.rule.recommendation
+      }));
 
-      healthScore = Math.max(0, Math.min(100, healthScore));
+      const healthScore = healthRules.score(evaluations);
+      const snapshot = history.record("getRepositoryHealth", null, [{
+        repo: repo.full_name,
+        score: healthScore,
+        issues: failed.map(e => e.rule.id)
+      }]);
 
       return {
         name: repo.name,
         healthScore,
         issues,
         strengths,
-        recommendations
+        recommendations,
+        security: await ctx.security(),
+        snapshotId: snapshot.id
       };
     } catch (error: any) {
       throw new Error(`Failed to analyze repository: ${error.message}`);
@@ -238,83 +290,47 @@ export class GitHubFunctions {
   }
 
   @DaemoFunction({
-    description: "Find all repositories with specific issues (missing LICENSE, README, etc.)",
+    description: `Find all repositories failing a health rule. Rule IDs: ${healthRules.ids().join(", ")}, or "all"`,
     tags: ["github", "search", "issues"],
     category: "GitHub Analysis",
     inputSchema: z.object({
-      issueType: z.enum(["missing-license", "missing-readme", "weak-description", "stale", "all"])
-        .describe("Type of issue to search for")
+      issueType: z.string().describe(`Health rule ID to search for (${healthRules.ids().join(", ")}) or "all"`),
+      ...repositoryTargetFields,
+      ...credentialFields
     }),
     outputSchema: z.object({
       repositories: z.array(z.object({
         name: z.string(),
         url: z.string(),
+        ruleId: z.string(),
         issue: z.string()
       })),
-      count: z.number()
+      count: z.number(),
+      notAnalysed: notAnalysedSchema
     })
   })
-  async findRepositoriesWithIssues(input: { issueType: string }) {
+  async findRepositoriesWithIssues(input: RepositoryTarget & { issueType: string } & CredentialInput) {
     try {
-      const { data: repos } = await this.octokit.repos.listForAuthenticatedUser({
-        per_page: 100
-      });
-
-      const results: Array<{name: string; url: string; issue: string}> = [];
-
-      for (const repo of repos) {
-        if (input.issueType === "missing-license" || input.issueType === "all") {
-          if (!repo.license) {
-            results.push({
-              name: repo.name,
-              url: repo.html_url,
-              issue: "Missing LICENSE file"
-            });
-          }
-        }
-
-        if (input.issueType === "missing-readme" || input.issueType === "all") {
-          try {
-            await this.octokit.repos.getContent({
-              owner: repo.owner.login,
-              repo: repo.name,
-              path: 'README.md'
-            });
-          } catch (error) {
-            results.push({
-              name: repo.name,
-              url: repo.html_url,
-              issue: "Missing README.md"
-            });
-          }
-        }
-
-        if (input.issueType === "weak-description" || input.issueType === "all") {
-          if (!repo.description || repo.description.length < 10) {
-            results.push({
-              name: repo.name,
-              url: repo.html_url,
-              issue: "Weak or missing description"
-            });
-          }
-        }
-
-        if (input.issueType === "stale" || input.issueType === "all") {
-          const sixMonthsAgo = new Date();
-          sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-          if (repo.updated_at && new Date(repo.updated_at) < sixMonthsAgo) {
-            results.push({
-              name: repo.name,
-              url: repo.html_url,
-              issue: "Not updated in 6+ months"
-            });
-          }
+      const client = this.client(input.credentialRef);
+      const rules = healthRules.select([input.issueType]);
+      const { repos, evaluations, notAnalysed } = await this.evaluateEach(client, await client.repositories.list(input), "Searching repositories", rules);
+
+      const results: Array<{name: string; url: string; ruleId: string; issue: string}> = [];
+      for (const [i, repo] of repos.entries()) {
+        for (const { rule } of evaluations[i].filter(e => !e.passed)) {
+          results.push({
+            name: repo.name,
+            url: repo.html_url,
+            ruleId: rule.id,
+            issue: rule.title
+          });
         }
       }
 
       return {
         repositories: results,
-        count: results.length
+        count: results.length,
+        notAnalysed
       };
     } catch (error: any) {
       throw new Error(`Search failed: ${error.message}`);
@@ -322,81 +338,186 @@ export class GitHubFunctions {
   }
 
   @DaemoFunction({
-    description: "Get portfolio-wide statistics and insights across all repositories",
+    description: "Get portfolio-wide statistics and insights across all repositories: README, LICENSE and community file coverage, security feature coverage and open Dependabot alerts, health score distribution, archived/fork share, activity and language bytes",
     tags: ["github", "statistics", "portfolio"],
     category: "GitHub Analysis",
-    inputSchema: z.object({}),
+    inputSchema: z.object({
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
     outputSchema: z.object({
       totalRepositories: z.number(),
       publicRepos: z.number(),
       privateRepos: z.number(),
+      archivedRepos: z.number(),
+      forkRepos: z.number(),
+      archivedShare: z.number(),
+      forkShare: z.number(),
       totalStars: z.number(),
       totalForks: z.number(),
       languages: z.record(z.number()),
+      languageBytes: z.record(z.number()),
       licenseCoverage: z.number(),
       readmeCoverage: z.number(),
-      insights: z.array(z.string())
+      communityFileCoverage: z.record(z.number()),
+      securityCoverage: z.object({
+        vulnerabilityAlerts: z.number(),
+        securityUpdates: z.number(),
+        dependabotConfig: z.number(),
+        secretScanning: z.number(),
+        codeScanning: z.number()
+      }),
+      openDependabotAlerts: z.object({
+        total: z.number(),
+        critical: z.number(),
+        high: z.number(),
+        repositories: z.number()
+      }),
+      averageHealthScore: z.number(),
+      healthScoreDistribution: z.record(z.number()),
+      activity: z.object({
+        last30Days: z.number(),
+        last6Months: z.number(),
+        last12Months: z.number(),
+        older: z.number()
+      }),
+      insights: z.array(z.string()),
+      notAnalysed: notAnalysedSchema
     })
   })
-  async getPortfolioStatistics() {
+  async getPortfolioStatistics(input: RepositoryTarget & CredentialInput = {}) {
     try {
-      const { data: repos } = await this.octokit.repos.listForAuthenticatedUser({
-        per_page: 100
-      });
-
-      const stats = {
-        totalRepositories: repos.length,
-        publicRepos: repos.filter(r => !r.private).length,
-        privateRepos: repos.filter(r => r.private).length,
-        totalStars: repos.reduce((sum, r) => sum + r.stargazers_count, 0),
-        totalForks: repos.reduce((sum, r) => sum + r.forks_count, 0),
-        languages: {} as Record<string, number>,
-        licenseCoverage: 0,
-        readmeCoverage: 0,
-        insights: [] as string[]
-      };
+      const client = this.client(input.credentialRef);
+      return await this.portfolioStatistics(client, await this.evaluatePortfolio(client, input, "Collecting portfolio statistics"));
+    } catch (error: any) {
+      throw new Error(`Failed to get statistics: ${error.message}`);
+    }
+  }
 
-      // Count languages
-      repos.forEach(repo => {
-        if (repo.language) {
-          stats.languages[repo.language] = (stats.languages[repo.language] || 0) + 1;
+  @DaemoFunction({
+    description: "Analyze every repository of an organization: health issues grouped by owning team, organization settings (base permission, 2FA requirement, repository creation) and repositories without a team owner",
+    tags: ["github", "organization", "governance"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      org: z.string().describe("GitHub organization to analyze"),
+      includePrivate: repositoryTargetFields.includePrivate,
+      includeForks: repositoryTargetFields.includeForks,
+      includeArchived: repositoryTargetFields.includeArchived,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      org: z.string(),
+      settings: z.object({
+        basePermission: z.string().nullable(),
+        twoFactorRequired: z.boolean().nullable(),
+        membersCanCreateRepositories: z.boolean().nullable(),
+        membersCanCreatePublicRepositories: z.boolean().nullable(),
+        membersCanForkPrivateRepositories: z.boolean().nullable()
+      }),
+      totalRepos: z.number(),
+      teams: z.array(z.object({
+        team: z.string(),
+        slug: z.string(),
+        ownedRepos: z.array(z.string()),
+        otherRepos: z.array(z.string()),
+        averageHealthScore: z.number(),
+        issueCount: z.number()
+      })),
+      unownedRepos: z.array(z.string()),
+      issues: z.array(issueSchema),
+      notAnalysed: notAnalysedSchema,
+      summary: z.string()
+    })
+  })
+  async analyzeOrganization(input: Omit<RepositoryTarget, "username" | "affiliation"> & { org: string } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories, scheduler } = client;
+      const org = input.org;
+
+      const settings = await loadOrganizationSettings(octokit, org);
+      const teamAccess = await loadTeamAccess(octokit, org, scheduler);
+      const { repos, evaluations: evaluated, notAnalysed } =
+        await this.evaluateEach(client, await repositories.list(input), "Analyzing organization repositories");
+
+      const issues: GovernanceIssue[] = settingsIssues(org, settings);
+      const scores = new Map<string, number>();
+      const issueCounts = new Map<string, number>();
+      const unownedRepos: string[] = [];
+
+      for (const [i, repo] of repos.entries()) {
+        const repoIssues: GovernanceIssue[] = evaluated[i].filter(e => !e.passed).map(({ rule }) => ({
+          repo: repo.name,
+          ruleId: rule.id,
+          severity: rule.severity,
+          issue: rule.title
+        }));
+
+        const access = teamAccess.get(repo.name.toLowerCase()) ?? [];
+        if (!access.some(isTeamOwner)) {
+          unownedRepos.push(repo.name);
+          repoIssues.push({
+            repo: repo.name,
+            ruleId: "no-team-owner",
+            severity: "medium",
+            issue: access.length > 0
+              ? `No team owns this repository (${access.map(a => `${a.team}: ${a.permission}`).join(", ")})`
+              : "No team has access to this repository"
+          });
         }
-      });
 
-      // Calculate coverage
-      stats.licenseCoverage = Math.round((repos.filter(r => r.license).length / repos.length) * 100);
-      
-      // Check README coverage
-      stats.readmeCoverage = 85; // Placeholder
-
-      // Generate insights
-      if (stats.licenseCoverage < 80) {
-        stats.insights.push(`Only ${stats.licenseCoverage}% of repositories have licenses. Consider adding licenses to protect your work.`);
-      }
-      
-      if (stats.publicRepos > stats.privateRepos * 2) {
-        stats.insights.push(`You have significantly more public repos (${stats.publicRepos}) than private (${stats.privateRepos}). Consider organizing practice/demo code privately.`);
+        issues.push(...repoIssues);
+        scores.set(repo.name, healthRules.score(evaluated[i]));
+        issueCounts.set(repo.name, repoIssues.length);
       }
 
-      const topLanguage = Object.entries(stats.languages).sort((a, b) => b[1] - a[1])[0];
-      if (topLanguage) {
-        stats.insights.push(`Your primary language is ${topLanguage[0]} with ${topLanguage[1]} repositories.`);
+      // Group by team, counting only the repositories in this analysis
+      const teams = new Map<string, { team: string; slug: string; ownedRepos: string[]; otherRepos: string[] }>();
+      for (const repo of repos) {
+        for (const access of teamAccess.get(repo.name.toLowerCase()) ?? []) {
+          const group = teams.get(access.slug) ?? { team: access.team, slug: access.slug, ownedRepos: [], otherRepos: [] };
+          (isTeamOwner(access) ? group.ownedRepos : group.otherRepos).push(repo.name);
+          teams.set(access.slug, group);
+        }
       }
 
-      return stats;
+      const teamSummaries = [...teams.values()].map(group => ({
+        ...group,
+        averageHealthScore: group.ownedRepos.length
+          ? Math.round(group.ownedRepos.reduce((sum, name) => sum + scores.get(name)!, 0) / group.ownedRepos.length)
+          : 0,
+        issueCount: group.ownedRepos.reduce((sum, name) => sum + issueCounts.get(name)!, 0)
+      })).sort((a, b) => b.issueCount - a.issueCount);
+
+      const highPriority = issues.filter(i => i.severity === "high").length;
+      const settingsHidden = settings.twoFactorRequired === null
+        ? ' Organization settings need an organization owner\'s token to read.'
+        : '';
+
+      return {
+        org,
+        settings,
+        totalRepos: repos.length,
+        teams: teamSummaries,
+        unownedRepos,
+        issues,
+        notAnalysed,
+        summary: `Analyzed ${repos.length} repositories in ${org} across ${teamSummaries.length} teams. Found ${issues.length} issues (${highPriority} high priority); ${unownedRepos.length} repositories have no team owner.${settingsHidden}` +
+          describeNotAnalysed(notAnalysed)
+      };
     } catch (error: any) {
-      throw new Error(`Failed to get statistics: ${error.message}`);
+      throw new Error(`Organization analysis failed: ${error.message}`);
     }
   }
 
   // ==================== NEW FUNCTIONS ====================
-
   @DaemoFunction({
     description: "List all repository names with basic information",
     tags: ["github", "list", "repositories"],
     category: "GitHub Analysis",
     inputSchema: z.object({
-      username: z.string().optional().describe("GitHub username (optional)")
+      ...repositoryTargetFields,
+      ...credentialFields
     }),
     outputSchema: z.object({
       repositories: z.array(z.object({
@@ -409,11 +530,9 @@ export class GitHubFunctions {
       count: z.number()
     })
   })
-  async listAllRepositoryNames(input: { username?: string }) {
+  async listAllRepositoryNames(input: RepositoryTarget & CredentialInput) {
     try {
-      const { data: repos } = await this.octokit.repos.listForAuthenticatedUser({
-        per_page: 100
-      });
+      const repos = await this.client(input.credentialRef).repositories.list(input);
 
       const repositories = repos.map(repo => ({
         name: repo.name,
@@ -433,353 +552,2394 @@ export class GitHubFunctions {
   }
 
   @DaemoFunction({
-    description: "Add a LICENSE file to a repository",
+    description: "Add a LICENSE file to a repository, committed directly or through a pull request. Set dryRun to get a plan for applyFixPlan instead of committing.",
     tags: ["github", "license", "create"],
     category: "GitHub Management",
     inputSchema: z.object({
       repoName: z.string().describe("Repository name"),
-      licenseType: z.enum(["MIT", "Apache-2.0", "GPL-3.0"]).optional().default("MIT").describe("License type")
+      licenseType: z.enum(LICENSE_IDS).optional().default("MIT").describe("SPDX license ID (see listAvailableLicenses)"),
+      copyrightHolder: z.string().optional().describe("Copyright holder name (optional, defaults to your GitHub display name)"),
+      year: z.number().optional().describe("Copyright year (optional, defaults to the current year)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't commit it"),
+      delivery: deliveryField,
+      ...credentialFields
     }),
     outputSchema: z.object({
       success: z.boolean(),
-      message: z.string()
+      message: z.string(),
+      plan: fixPlanSchema.optional()
     })
   })
-  async addLicenseToRepo(input: { repoName: string; licenseType?: string }) {
+  async addLicenseToRepo(input: {
+    repoName: string;
+    licenseType?: string;
+    copyrightHolder?: string;
+    year?: number;
+    dryRun?: boolean;
+    delivery?: Delivery;
+  } & CredentialInput) {
     try {
-      const { data: user } = await this.octokit.users.getAuthenticated();
-      const owner = user.login;
-      const licenseType = input.licenseType || "MIT";
-
-      const licenses: Record<string, string> = {
-        "MIT": `MIT License
-
-Copyright (c) ${new Date().getFullYear()} ${owner}
-
-Permission is hereby granted, free of charge, to any person obtaining a copy
-of this software and associated documentation files (the "Software"), to deal
-in the Software without restriction, including without limitation the rights
-to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
-copies of the Software, and to permit persons to whom the Software is
-furnished to do so, subject to the following conditions:
-
-The above copyright notice and this permission notice shall be included in all
-copies or substantial portions of the Software.
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = await repositories.getAuthenticatedLogin();
+      const licenseType = getLicense(input.licenseType || "MIT").spdxId;
+
+      // Check if a license file already exists under any common name
+      const existing = (await RepoFileIndex.load(octokit, owner, input.repoName)).find("license");
+      if (existing) {
+        return {
+          success: false,
+          message: `${existing} already exists in ${owner}/${input.repoName}`
+        };
+      }
 
-THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
-IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
-FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
-AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
-LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
-OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
-SOFTWARE.`,
-        "Apache-2.0": `Apache License
-Version 2.0, January 2004
+      const holder = input.copyrightHolder || (await repositories.getAuthenticatedAccount()).name;
 
-Copyright ${new Date().getFullYear()} ${owner}
+      const proposals = renderLicenseFiles(licenseType, holder, input.year).map((file): ChangeProposal => ({
+        kind: "create-file",
+        owner,
+        repo: input.repoName,
+        path: file.path,
+        content: file.content,
+        message: `Add ${licenseType} ${file.path}`,
+        summary: `Add ${licenseType} ${file.path}`,
+        skipIfPresent: file.path === 'LICENSE' ? "license" : undefined
+      }));
 
-Licensed under the Apache License, Version 2.0 (the "License");
-you may not use this file except in compliance with the License.`,
-        "GPL-3.0": `GNU GENERAL PUBLIC LICENSE
-Version 3, 29 June 2007
+      return await this.planOrApply(client, proposals, input, `Successfully added ${licenseType} LICENSE to ${owner}/${input.repoName}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to add LICENSE: ${error.message}`);
+    }
+  }
 
-Copyright (C) ${new Date().getFullYear()} ${owner}`
-      };
+  @DaemoFunction({
+    description: "List the licenses addLicenseToRepo can add, with what each permits and requires",
+    tags: ["github", "license", "list"],
+    category: "GitHub Management",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      licenses: z.array(z.object({
+        spdxId: z.string(),
+        name: z.string(),
+        description: z.string(),
+        copyleft: z.enum(["none", "weak", "strong", "network"]),
+        permissions: z.array(z.string()),
+        conditions: z.array(z.string()),
+        limitations: z.array(z.string())
+      })),
+      count: z.number()
+    })
+  })
+  async listAvailableLicenses() {
+    const licenses = LICENSE_CATALOG.map(({ companionFiles, ...license }) => license);
+    return {
+      licenses,
+      count: licenses.length
+    };
+  }
 
-      const licenseContent = licenses[licenseType] || licenses["MIT"];
+  @DaemoFunction({
+    description: "Recommend a license for a repository based on its language and the licenses of its dependencies",
+    tags: ["github", "license", "recommend"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      owner: z.string().describe("Repository owner username"),
+      repo: z.string().describe("Repository name"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      currentLicense: z.string().nullable(),
+      recommended: z.string(),
+      alternatives: z.array(z.string()),
+      reasons: z.array(z.string()),
+      copyleftDependencies: z.array(z.object({
+        name: z.string(),
+        license: z.string()
+      })),
+      dependenciesScanned: z.number()
+    })
+  })
+  async recommendLicenseForRepo(input: { owner: string; repo: string } & CredentialInput) {
+    try {
+      const { octokit } = this.client(input.credentialRef);
+      const { data: repo } = await octokit.repos.get({
+        owner: input.owner,
+        repo: input.repo
+      });
 
-      // Check if LICENSE already exists
+      // The dependency graph SBOM lists every dependency with its declared license
+      let dependencies: Array<{ name: string; license: string | null }> = [];
       try {
-        await this.octokit.repos.getContent({
-          owner,
-          repo: input.repoName,
-          path: 'LICENSE'
+        const { data } = await octokit.dependencyGraph.exportSbom({
+          owner: input.owner,
+          repo: input.repo
         });
-        return {
-          success: false,
-          message: `LICENSE file already exists in ${owner}/${input.repoName}`
-        };
-      } catch (e) {
-        // LICENSE doesn't exist, proceed to create
+        const self = `com.github.${repo.full_name}`.toLowerCase();
+        dependencies = data.sbom.packages
+          .filter(pkg => pkg.name && pkg.name.toLowerCase() !== self)
+          .map(pkg => {
+            const license = [pkg.licenseConcluded, pkg.licenseDeclared]
+              .find(l => l && l !== "NOASSERTION");
+            return { name: pkg.name!, license: license ?? null };
+          });
+      } catch (error: any) {
+        // Dependency graph disabled or not available for this repository
+        if (error.status !== 404 && error.status !== 403) throw error;
       }
 
-      // Create LICENSE file
-      await this.octokit.repos.createOrUpdateFileContents({
-        owner,
-        repo: input.repoName,
-        path: 'LICENSE',
-        message: `Add ${licenseType} LICENSE`,
-        content: Buffer.from(licenseContent).toString('base64')
-      });
+      const recommendation = recommendLicense({ language: repo.language, dependencies });
 
       return {
-        success: true,
-        message: `Successfully added ${licenseType} LICENSE to ${owner}/${input.repoName}!`
+        repo: repo.full_name,
+        currentLicense: repo.license?.spdx_id ?? null,
+        ...recommendation,
+        dependenciesScanned: dependencies.length
       };
     } catch (error: any) {
-      throw new Error(`Failed to add LICENSE: ${error.message}`);
+      throw new Error(`Failed to recommend license: ${error.message}`);
     }
   }
 
   @DaemoFunction({
-    description: "Add a README file to a repository",
+    description: "Add a README file to a repository, committed directly or through a pull request. Set dryRun to get a plan for applyFixPlan instead of committing.",
     tags: ["github", "readme", "create"],
     category: "GitHub Management",
     inputSchema: z.object({
       repoName: z.string().describe("Repository name"),
       title: z.string().optional().describe("README title"),
-      description: z.string().optional().describe("Project description")
+      description: z.string().optional().describe("Project description"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't commit it"),
+      delivery: deliveryField,
+      ...credentialFields
     }),
     outputSchema: z.object({
       success: z.boolean(),
-      message: z.string()
+      message: z.string(),
+      plan: fixPlanSchema.optional()
     })
   })
-  async addReadmeToRepo(input: { repoName: string; title?: string; description?: string }) {
+  async addReadmeToRepo(input: { repoName: string; title?: string; description?: string; dryRun?: boolean; delivery?: Delivery } & CredentialInput) {
     try {
-      const { data: user } = await this.octokit.users.getAuthenticated();
-      const owner = user.login;
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = await repositories.getAuthenticatedLogin();
 
       // Get repo info
-      const { data: repoData } = await this.octokit.repos.get({ 
+      const { data: repoData } = await octokit.repos.get({ 
         owner, 
         repo: input.repoName 
       });
 
-      const readmeTitle = input.title || repoData.name;
-      const readmeDescription = input.description || repoData.description || 'A description of this project.';
-
-      const readmeContent = `# ${readmeTitle}
-
-${readmeDescription}
-
-## Installation
-
-\`\`\`bash
-git clone https://github.com/${owner}/${input.repoName}.git
-cd ${input.repoName}
-\`\`\`
-
-## Usage
-
-Add usage instructions here.
-
-## Contributing
-
-Contributions are welcome! Please feel free to submit a Pull Request.
-
-## License
-
-This project is licensed under the ${repoData.license ? repoData.license.name : 'MIT'} License - see the [LICENSE](LICENSE) file for details.
-
-## Contact
-
-Created by [@${owner}](https://github.com/${owner})
-`;
-
-      // Check if README already exists
-      try {
-        await this.octokit.repos.getContent({
-          owner,
-          repo: input.repoName,
-          path: 'README.md'
-        });
+      // Check if a README already exists under any common name or location
+      const existing = (await RepoFileIndex.load(octokit, owner, input.repoName, repoData.default_branch)).find("readme");
+      if (existing) {
         return {
           success: false,
-          message: `README.md already exists in ${owner}/${input.repoName}`
+          message: `${existing} already exists in ${owner}/${input.repoName}`
         };
-      } catch (e) {
-        // README doesn't exist, proceed to create
       }
 
-      // Create README file
-      await this.octokit.repos.createOrUpdateFileContents({
+      return await this.planOrApply(client, [{
+        kind: "create-file",
         owner,
         repo: input.repoName,
         path: 'README.md',
+        content: renderReadme(owner, repoData.name, {
+          title: input.title,
+          description: input.description || repoData.description,
+          licenseName: repoData.license?.name
+        }),
         message: 'Add README.md',
-        content: Buffer.from(readmeContent).toString('base64')
-      });
-
-      return {
-        success: true,
-        message: `Successfully added README.md to ${owner}/${input.repoName}!`
-      };
+        summary: 'Add README.md',
+        skipIfPresent: "readme"
+      }], input, `Successfully added README.md to ${owner}/${input.repoName}!`);
     } catch (error: any) {
       throw new Error(`Failed to add README: ${error.message}`);
     }
   }
 
   @DaemoFunction({
-    description: "Automatically fix common issues across all repositories (add missing LICENSE, README, make practice repos private)",
-    tags: ["github", "autofix", "batch"],
-    category: "GitHub Management",
-    inputSchema: z.object({}),
+    description: "Check which community health files a repository has: CONTRIBUTING, CODE_OF_CONDUCT, SECURITY, SUPPORT, issue templates, pull request template and FUNDING.yml. Uses GitHub's community profile for public repositories, which also sees files inherited from the owner's .github repository.",
+    tags: ["github", "community", "health"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      owner: z.string().describe("Repository owner username"),
+      repo: z.string().describe("Repository name"),
+      ...credentialFields
+    }),
     outputSchema: z.object({
-      fixed: z.array(z.object({
-        repo: z.string(),
-        actions: z.array(z.string())
+      repo: z.string(),
+      communityProfileAvailable: z.boolean(),
+      communityHealthPercentage: z.number().nullable(),
+      files: z.array(z.object({
+        kind: z.string(),
+        label: z.string(),
+        present: z.boolean(),
+        path: z.string().nullable(),
+        source: z.enum(["repository", "community-profile"]).nullable()
       })),
-      totalFixed: z.number(),
-      message: z.string()
+      missing: z.array(z.string())
     })
   })
-  async autoFixAllIssues() {
+  async checkCommunityFiles(input: { owner: string; repo: string } & CredentialInput) {
     try {
-      const { data: user } = await this.octokit.users.getAuthenticated();
-      const { data: repos } = await this.octokit.repos.listForAuthenticatedUser({
-        per_page: 100
-      });
-
-      const fixed: Array<{repo: string; actions: string[]}> = [];
-
-      for (const repo of repos) {
-        const actions: string[] = [];
+      const { octokit } = this.client(input.credentialRef);
+      const { data: repo } = await octokit.repos.get({ owner: input.owner, repo: input.repo });
 
-        // Check and add LICENSE
-        if (!repo.license) {
-          try {
-            await this.octokit.repos.getContent({
-              owner: repo.owner.login,
-              repo: repo.name,
-              path: 'LICENSE'
-            });
-          } catch (e) {
-            const licenseContent = `MIT License
-
-Copyright (c) ${new Date().getFullYear()} ${repo.owner.login}
-
-Permission is hereby granted, free of charge, to any person obtaining a copy
-of this software and associated documentation files (the "Software"), to deal
-in the Software without restriction, including without limitation the rights
-to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
-copies of the Software, and to permit persons to whom the Software is
-furnished to do so, subject to the following conditions:
-
-The above copyright notice and this permission notice shall be included in all
-copies or substantial portions of the Software.
-
-THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
-IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
-FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
-AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
-LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
-OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
-SOFTWARE.`;
-
-            await this.octokit.repos.createOrUpdateFileContents({
-              owner: repo.owner.login,
-              repo: repo.name,
-              path: 'LICENSE',
-              message: 'Add MIT LICENSE',
-              content: Buffer.from(licenseContent).toString('base64')
-            });
-            actions.push('Added LICENSE');
-          }
-        }
-
-        // Check and add README
-        try {
-          await this.octokit.repos.getContent({
-            owner: repo.owner.login,
-            repo: repo.name,
-            path: 'README.md'
-          });
-        } catch (e) {
-          const readmeContent = `# ${repo.name}
-
-${repo.description || 'A description of this project.'}
-
-## Installation
-
-\`\`\`bash
-git clone https://github.com/${repo.owner.login}/${repo.name}.git
-\`\`\`
-
-## Usage
-
-Add usage instructions here.
-
-## License
-
-This project is licensed under the MIT License - see the [LICENSE](LICENSE) file for details.
-`;
-
-          await this.octokit.repos.createOrUpdateFileContents({
-            owner: repo.owner.login,
-            repo: repo.name,
-            path: 'README.md',
-            message: 'Add README.md',
-            content: Buffer.from(readmeContent).toString('base64')
-          });
-          actions.push('Added README');
-        }
-
-        // Make practice repos private
-        const practiceKeywords = ['practice', 'demo', 'test', 'learning', 'tutorial', 'example', 'temp'];
-        const isPractice = practiceKeywords.some(keyword => 
-          repo.name.toLowerCase().includes(keyword)
-        );
-        
-        if (isPractice && !repo.private) {
-          await this.octokit.repos.update({
-            owner: repo.owner.login,
-            repo: repo.name,
-            private: true
-          });
-          actions.push('Made private');
-        }
-
-        if (actions.length > 0) {
-          fixed.push({ repo: repo.name, actions });
-        }
-
-        // Small delay to avoid rate limiting
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+      const [files, profile] = await Promise.all([
+        RepoFileIndex.load(octokit, input.owner, input.repo, repo.default_branch),
+        loadCommunityProfile(octokit, repo)
+      ]);
+      const statuses = COMMUNITY_FILE_CATALOG.map(({ kind }) => communityFileStatus(kind, files, profile));
 
       return {
-        fixed,
-        totalFixed: fixed.length,
-        message: fixed.length === 0 
-          ? 'No issues to fix! All repositories are healthy.' 
-          : `Fixed issues in ${fixed.length} repositories`
+        repo: repo.full_name,
+        communityProfileAvailable: profile !== null,
+        communityHealthPercentage: profile?.healthPercentage ?? null,
+        files: statuses,
+        missing: statuses.filter(s => !s.present).map(s => s.label)
       };
     } catch (error: any) {
-      throw new Error(`Auto-fix failed: ${error.message}`);
+      throw new Error(`Failed to check community files: ${error.message}`);
     }
   }
 
   @DaemoFunction({
-    description: "Change repository visibility (make public or private)",
-    tags: ["github", "visibility", "privacy"],
+    description: "Add a community health file to a repository, filled in from the repository's name, description, language, default branch and license. Set dryRun to get a plan for applyFixPlan instead of committing.",
+    tags: ["github", "community", "create"],
     category: "GitHub Management",
     inputSchema: z.object({
       repoName: z.string().describe("Repository name"),
-      makePrivate: z.boolean().describe("True to make private, false to make public")
+      fileType: z.enum(COMMUNITY_FILE_KINDS).describe("Which community file to add"),
+      contact: z.string().optional()
+        .describe("How to reach the maintainers privately, e.g. an email address (optional, defaults to your GitHub profile)"),
+      funding: z.record(z.union([z.string(), z.array(z.string())])).optional()
+        .describe('FUNDING.yml platforms and accounts, e.g. { "github": ["octocat"], "ko_fi": "octocat" } (optional, defaults to your GitHub Sponsors)'),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't commit it"),
+      delivery: deliveryField,
+      ...credentialFields
     }),
     outputSchema: z.object({
       success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async addCommunityFileToRepo(input: {
+    repoName: string;
+    fileType: CommunityFileKind;
+    contact?: string;
+    funding?: Record<string, string | string[]>;
+    dryRun?: boolean;
+    delivery?: Delivery;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = await repositories.getAuthenticatedLogin();
+      const { label, render } = getCommunityFile(input.fileType);
+
+      const { data: repoData } = await octokit.repos.get({
+        owner,
+        repo: input.repoName
+      });
+
+      const existing = (await RepoFileIndex.load(octokit, owner, input.repoName, repoData.default_branch)).find(input.fileType);
+      if (existing) {
+        return {
+          success: false,
+          message: `${existing} already exists in ${owner}/${input.repoName}`
+        };
+      }
+
+      const files = render(communityTemplateOptions(repoData, {
+        contact: input.contact,
+        funding: input.funding
+      }));
+
+      const proposals = files.map((file, i): ChangeProposal => ({
+        kind: "create-file",
+        owner,
+        repo: input.repoName,
+        path: file.path,
+        content: file.content,
+        message: `Add ${file.path}`,
+        summary: `Add ${file.path}`,
+        skipIfPresent: i === 0 ? input.fileType : undefined
+      }));
+
+      return await this.planOrApply(client, proposals, input, `Successfully added ${label} to ${owner}/${input.repoName}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to add community file: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Plan fixes for failing health rules across all repositories (add missing LICENSE, README and community health files, make practice repos private). Nothing is changed until the plan is passed to applyFixPlan, which can commit directly or open one pull request per repository.",
+    tags: ["github", "autofix", "batch"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      ruleIds: z.array(z.string()).optional()
+        .describe(`Only fix these health rules (optional, defaults to every rule with a fixer): ${healthRules.ids().join(", ")}`),
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      plan: fixPlanSchema,
+      reposWithChanges: z.number(),
+      message: z.string()
+    })
+  })
+  async autoFixAllIssues(input: RepositoryTarget & { ruleIds?: string[] } & CredentialInput = {}) {
+    try {
+      const { identity, octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const rules = healthRules.select(input.ruleIds).filter(rule => rule.fix);
+      const repos = await repositories.list(input);
+
+      const perRepo = await scheduler.map(repos, async repo => {
+        const ctx = createRuleContext(octokit, repo);
+        const evaluations = await healthRules.evaluate(ctx, rules);
+
+        const fixes: ChangeProposal[] = [];
+        for (const { rule } of evaluations.filter(e => !e.passed)) {
+          const ruleFixes = await rule.fix!(ctx);
+          fixes.push(...ruleFixes.map(fix => ({ ...fix, reason: fix.reason ?? rule.title })));
+        }
+        return fixes;
+      }, "Planning fixes");
+
+      const proposals = perRepo.flat();
+      const reposWithChanges = new Set(repos.filter((_, i) => perRepo[i].length > 0).map(repo => repo.name));
+
+      const plan = this.plans.create(proposals, identity);
+
+      return {
+        plan: describePlan(plan),
+        reposWithChanges: reposWithChanges.size,
+        message: proposals.length === 0 
+          ? 'No issues to fix! All repositories are healthy.' 
+          : `Planned ${proposals.length} changes across ${reposWithChanges.size} repositories. Review them, then call applyFixPlan with plan ${plan.planId} and the approved change IDs, with delivery "pull-request" to open pull requests instead of committing.`
+      };
+    } catch (error: any) {
+      throw new Error(`Auto-fix failed: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Apply a previously generated fix plan. Pass changeIds to apply only the approved subset; omit them to apply the whole plan. With delivery \"pull-request\", each repository's file changes are committed together on a new branch and opened as one pull request.",
+    tags: ["github", "autofix", "apply"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      planId: z.string().describe("Plan ID returned by autoFixAllIssues or a dryRun call"),
+      changeIds: z.array(z.string()).optional().describe("IDs of the approved changes (optional, defaults to all)"),
+      delivery: deliveryField,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      planId: z.string(),
+      batchId: z.string(),
+      results: z.array(changeResultSchema),
+      pullRequests: z.array(z.string()),
+      applied: z.number(),
+      skipped: z.number(),
+      failed: z.number(),
+      message: z.string()
+    })
+  })
+  async applyFixPlan(input: { planId: string; changeIds?: string[]; delivery?: Delivery } & CredentialInput) {
+    try {
+      const { identity, journal, executor } = this.client(input.credentialRef);
+      const changes = this.plans.select(input.planId, input.changeIds, identity);
+      const batchId = journal.newBatchId();
+      const results = await executor.applyAll(changes, batchId, input.delivery);
+      const pullRequests = [...new Set(results.flatMap(r => r.pullRequestUrl ? [r.pullRequestUrl] : []))];
+
+      const applied = results.filter(r => r.status === "applied").length;
+      const skipped = results.filter(r => r.status === "skipped").length;
+      const failed = results.filter(r => r.status === "failed").length;
+
+      return {
+        planId: input.planId,
+        batchId,
+        results,
+        pullRequests,
+        applied,
+        skipped,
+        failed,
+        message: `Applied ${applied} of ${changes.length} changes (${skipped} skipped, ${failed} failed)` +
+          (pullRequests.length > 0 ? `, opening ${pullRequests.length} pull request(s)` : '') +
+          `. Roll back with rollbackBatch("${batchId}").`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to apply plan: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Change repository visibility (make public or private). Before making a repository public its files and recent history are scanned for secrets, and the change is refused if anything is found or the scan can't check every file, unless overrideSecretScan is set. Set dryRun to get a plan for applyFixPlan instead of changing it.",
+    tags: ["github", "visibility", "privacy"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      makePrivate: z.boolean().describe("True to make private, false to make public"),
+      overrideSecretScan: z.boolean().optional().default(false).describe("Make public even if the secret scan finds possible secrets. Only set this after the user has reviewed the findings."),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async changeRepoVisibility(input: { repoName: string; makePrivate: boolean; overrideSecretScan?: boolean; dryRun?: boolean } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { repositories } = client;
+      const owner = await repositories.getAuthenticatedLogin();
+
+      return await this.planOrApply(client, [{
+        kind: "set-visibility",
+        owner,
+        repo: input.repoName,
+        makePrivate: input.makePrivate,
+        overrideSecretScan: !input.makePrivate && input.overrideSecretScan ? true : undefined,
+        summary: `Make ${input.makePrivate ? 'private' : 'public'}${!input.makePrivate && input.overrideSecretScan ? ' (secret scan overridden)' : ''}`
+      }], input, `Successfully made ${owner}/${input.repoName} ${input.makePrivate ? 'private' : 'public'}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to change visibility: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Scan a repository for committed secrets: sensitive files (.env files, private keys, key stores, credential files, Terraform state) and credentials in file contents (cloud, GitHub, Slack, Stripe, OpenAI and other API keys and tokens, connection strings, hard-coded passwords), optionally in the lines added by recent commits too. Secrets are masked in the results.",
+    tags: ["github", "security", "secrets"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      historyCommits: z.number().int().min(0).max(100).optional().default(0).describe("Recent commits on the default branch to scan as well (0 to scan only the current files)"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      findings: z.array(z.object({
+        rule: z.string(),
+        title: z.string(),
+        severity: z.enum(["high", "medium"]),
+        path: z.string(),
+        line: z.number().nullable(),
+        excerpt: z.string().nullable(),
+        commit: z.string().nullable()
+      })),
+      scannedFiles: z.number(),
+      skippedFiles: z.number(),
+      scannedCommits: z.number(),
+      complete: z.boolean(),
+      message: z.string()
+    })
+  })
+  async scanForSecrets(input: { repoName: string; owner?: string; historyCommits?: number } & CredentialInput) {
+    try {
+      const { octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+      const files = await RepoFileIndex.load(octokit, owner, input.repoName, repo.default_branch);
+
+      const scan = await scanRepositoryForSecrets(
+        octokit,
+        scheduler,
+        { owner, name: input.repoName, defaultBranch: repo.default_branch },
+        files,
+        { historyCommits: input.historyCommits }
+      );
+      const high = scan.findings.filter(f => f.severity === "high").length;
+
+      return {
+        repo: repo.full_name,
+        ...scan,
+        message: (scan.findings.length > 0
+          ? `Found ${scan.findings.length} possible secret(s) in ${repo.full_name} (${high} high severity). Remove them and rotate any real credentials; deleting a file doesn't remove it from the history.`
+          : `No secrets found in ${repo.full_name}.`) +
+          (scan.complete ? "" : " The repository is too large to scan completely, so some files weren't checked.")
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to scan for secrets: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Show a repository's topics and suggest new ones from its language bytes, dependency manifests (package.json, requirements.txt, Cargo.toml) and README keywords, with the evidence for each",
+    tags: ["github", "topics", "discoverability"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      owner: z.string().describe("Repository owner username"),
+      repo: z.string().describe("Repository name"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      currentTopics: z.array(z.string()),
+      suggestions: z.array(z.object({
+        topic: z.string(),
+        reasons: z.array(z.string())
+      }))
+    })
+  })
+  async suggestTopicsForRepo(input: { owner: string; repo: string } & CredentialInput) {
+    try {
+      const { octokit } = this.client(input.credentialRef);
+      const { data: repo } = await octokit.repos.get({ owner: input.owner, repo: input.repo });
+      const files = await RepoFileIndex.load(octokit, input.owner, input.repo, repo.default_branch);
+
+      return {
+        repo: repo.full_name,
+        currentTopics: repo.topics ?? [],
+        suggestions: await suggestTopics(octokit, repo, files)
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to suggest topics: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Plan topic additions for many repositories at once from each one's suggestions. Nothing is changed until the plan is passed to applyFixPlan.",
+    tags: ["github", "topics", "batch"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      maxTopicsPerRepo: z.number().optional().default(5).describe("Most suggested topics to add to one repository"),
+      onlyWithoutTopics: z.boolean().optional().default(false).describe("Only plan for repositories that have no topics yet"),
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      plan: fixPlanSchema,
+      reposWithChanges: z.number(),
+      message: z.string()
+    })
+  })
+  async planTopicsForRepositories(input: RepositoryTarget & { maxTopicsPerRepo?: number; onlyWithoutTopics?: boolean } & CredentialInput = {}) {
+    try {
+      const { identity, octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const repos = (await repositories.list(input))
+        .filter(repo => !input.onlyWithoutTopics || !repo.topics?.length);
+      const limit = Math.max(1, Math.min(input.maxTopicsPerRepo ?? 5, MAX_TOPICS));
+
+      const perRepo = await scheduler.map(repos, async (repo): Promise<ChangeProposal[]> => {
+        const files = await createRuleContext(octokit, repo).files();
+        const room = MAX_TOPICS - (repo.topics?.length ?? 0);
+        const suggestions = (await suggestTopics(octokit, repo, files)).slice(0, Math.min(limit, room));
+        if (suggestions.length === 0) return [];
+
+        return [{
+          kind: "set-topics",
+          owner: repo.owner.login,
+          repo: repo.name,
+          topics: suggestions.map(s => s.topic),
+          mode: "add",
+          summary: `Add topics: ${suggestions.map(s => s.topic).join(", ")}`,
+          reason: suggestions.map(s => `${s.topic}: ${s.reasons.join("; ")}`).join(" | ")
+        }];
+      }, "Suggesting topics");
+
+      const plan = this.plans.create(perRepo.flat(), identity);
+      return {
+        plan: describePlan(plan),
+        reposWithChanges: plan.changes.length,
+        message: plan.changes.length > 0
+          ? `Planned topics for ${plan.changes.length} of ${repos.length} repositories. Review the suggestions, then call applyFixPlan with plan ${plan.planId}.`
+          : `No new topics to suggest for ${repos.length} repositories.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to plan topics: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Set topics on one or more repositories, adding to their existing topics or replacing them. Set dryRun to get a plan for applyFixPlan instead of changing them.",
+    tags: ["github", "topics", "update"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoNames: z.array(z.string()).min(1).describe("Repositories to update"),
+      topics: z.array(z.string()).describe("Topics to set; names are lowercased and hyphenated to GitHub's format"),
+      mode: z.enum(["add", "replace"]).optional().default("add")
+        .describe('"add" keeps existing topics; "replace" sets exactly these (an empty list removes all topics)'),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async setRepositoryTopics(input: {
+    repoNames: string[];
+    topics: string[];
+    mode?: "add" | "replace";
+    owner?: string;
+    dryRun?: boolean;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const mode = input.mode ?? "add";
+
+      const topics = [...new Set(input.topics.map(normalizeTopic).filter(Boolean))];
+      if (topics.length > MAX_TOPICS) {
+        return { success: false, message: `A repository can have at most ${MAX_TOPICS} topics, got ${topics.length}` };
+      }
+      if (topics.length === 0 && mode === "add") {
+        return { success: false, message: "No valid topics given" };
+      }
+
+      const summary = mode === "add"
+        ? `Add topics: ${topics.join(", ")}`
+        : topics.length ? `Set topics to: ${topics.join(", ")}` : "Remove all topics";
+
+      const proposals = input.repoNames.map((repo): ChangeProposal => ({
+        kind: "set-topics",
+        owner,
+        repo,
+        topics,
+        mode,
+        summary
+      }));
+
+      return await this.planOrApply(client, proposals, input, `Updated topics on ${input.repoNames.length} repositories!`);
+    } catch (error: any) {
+      throw new Error(`Failed to set topics: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Draft a description for a repository from its package manifest's description, the README's first paragraph and its languages, and plan the update. Show the draft to the user; nothing changes until the plan is passed to applyFixPlan.",
+    tags: ["github", "description", "draft"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      currentDescription: z.string().nullable(),
+      currentHomepage: z.string().nullable(),
+      draft: z.object({
+        description: z.string(),
+        homepage: z.string().optional(),
+        sources: z.array(z.string()),
+        confidence: z.enum(["high", "low"])
+      }).nullable(),
+      plan: fixPlanSchema.optional(),
       message: z.string()
     })
   })
-  async changeRepoVisibility(input: { repoName: string; makePrivate: boolean }) {
+  async draftRepositoryDescription(input: { repoName: string; owner?: string } & CredentialInput) {
+    try {
+      const { identity, octokit, repositories } = this.client(input.credentialRef);
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+      const files = await RepoFileIndex.load(octokit, owner, input.repoName, repo.default_branch);
+
+      const draft = await draftDescription(octokit, repo, files);
+      const current = {
+        repo: repo.full_name,
+        currentDescription: repo.description,
+        currentHomepage: repo.homepage || null
+      };
+      if (!draft) {
+        return {
+          ...current,
+          draft: null,
+          message: "Nothing to draft from: no manifest description, README paragraph or language data. Ask the user for a description and call updateRepositoryDescription."
+        };
+      }
+
+      const plan = this.plans.create([{
+        kind: "set-description",
+        owner,
+        repo: input.repoName,
+        description: draft.description,
+        homepage: draft.homepage,
+        summary: `Set description to "${draft.description}"${draft.homepage ? ` and homepage to ${draft.homepage}` : ''}`
+      }], identity);
+
+      return {
+        ...current,
+        draft,
+        plan: describePlan(plan),
+        message: `Drafted from the ${draft.sources.join(" and ")}. Call applyFixPlan with plan ${plan.planId} to apply it, or updateRepositoryDescription with an edited text.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to draft description: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Update a repository's description and homepage. Set dryRun to get a plan for applyFixPlan instead of changing them.",
+    tags: ["github", "description", "update"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      description: z.string().max(350).describe("New description"),
+      homepage: z.string().optional().describe("New homepage URL (optional, left unchanged when omitted)"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async updateRepositoryDescription(input: {
+    repoName: string;
+    description: string;
+    homepage?: string;
+    owner?: string;
+    dryRun?: boolean;
+  } & CredentialInput) {
     try {
-      const { data: user } = await this.octokit.users.getAuthenticated();
-      const owner = user.login;
+      const client = this.client(input.credentialRef);
+      const { repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const description = input.description.replace(/\s+/g, " ").trim();
 
-      await this.octokit.repos.update({
+      return await this.planOrApply(client, [{
+        kind: "set-description",
         owner,
         repo: input.repoName,
-        private: input.makePrivate
+        description,
+        homepage: input.homepage,
+        summary: `Set description to "${description}"${input.homepage ? ` and homepage to ${input.homepage}` : ''}`
+      }], input, `Updated the description of ${owner}/${input.repoName}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to update description: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Find repositories with no pushes for a number of months and plan archiving them, with the evidence for each: last push, open issues and pull requests, stars, forks and a link to the dependents page. Nothing is changed until the plan is passed to applyFixPlan.",
+    tags: ["github", "archive", "stale"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      inactiveMonths: z.number().optional().default(STALE_MONTHS).describe("Months without a push before a repository is proposed"),
+      addReadmeNotice: z.boolean().optional().default(true).describe("Add an archived notice to the top of each README before archiving"),
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      candidates: z.array(z.object({
+        repo: z.string(),
+        lastPush: z.string().nullable(),
+        daysSinceLastPush: z.number().nullable(),
+        openIssues: z.number(),
+        openPullRequests: z.number(),
+        stars: z.number(),
+        forks: z.number(),
+        dependentsUrl: z.string(),
+        recommendation: z.enum(["archive", "review"]),
+        concerns: z.array(z.string())
+      })),
+      plan: fixPlanSchema,
+      message: z.string()
+    })
+  })
+  async proposeArchiveCandidates(input: RepositoryTarget & { inactiveMonths?: number; addReadmeNotice?: boolean } & CredentialInput = {}) {
+    try {
+      const { identity, octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - (input.inactiveMonths ?? STALE_MONTHS));
+
+      const stale = (await repositories.list(input)).filter(repo => {
+        const lastActivity = repo.pushed_at || repo.updated_at;
+        return !repo.archived && (!lastActivity || new Date(lastActivity) < cutoff);
       });
 
+      const proposals = await scheduler.map(stale, async repo => {
+        const evidence = await archiveEvidence(octokit, repo);
+        const change = await planArchive(octokit, repo, { addNotice: input.addReadmeNotice ?? true });
+        return {
+          evidence,
+          change: {
+            ...change,
+            reason: `No push for ${evidence.daysSinceLastPush ?? "unknown"} days${evidence.concerns.length ? `; ${evidence.concerns.join("; ")}` : ""}`
+          }
+        };
+      }, "Collecting archive evidence");
+
+      const candidates = proposals.map(p => p.evidence)
+        .sort((a, b) => (b.daysSinceLastPush ?? Infinity) - (a.daysSinceLastPush ?? Infinity));
+      const plan = this.plans.create(proposals.map(p => p.change), identity);
+      const review = candidates.filter(c => c.recommendation === "review").length;
+
       return {
-        success: true,
-        message: `Successfully made ${owner}/${input.repoName} ${input.makePrivate ? 'private' : 'public'}!`
+        candidates,
+        plan: describePlan(plan),
+        message: candidates.length > 0
+          ? `${candidates.length} repositories have had no push since ${cutoff.toISOString().slice(0, 10)}; ${review} of them deserve a closer look first. Approve changes from plan ${plan.planId} with applyFixPlan.`
+          : `Every repository has been pushed to since ${cutoff.toISOString().slice(0, 10)}.`
       };
     } catch (error: any) {
-      throw new Error(`Failed to change visibility: ${error.message}`);
+      throw new Error(`Failed to propose archive candidates: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Find duplicate and near-duplicate repositories (project, project-v2, project-old, project-final) by name, description, README text, root file trees and shared commit history. Each cluster lists its evidence, the repository to keep and the ones to archive, and the archiving is returned as a plan; nothing is changed until it's passed to applyFixPlan.",
+    tags: ["github", "duplicates", "archive"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      minConfidence: z.enum(["low", "medium", "high"]).optional().default("low").describe("Leave out clusters with weaker evidence than this"),
+      addReadmeNotice: z.boolean().optional().default(true).describe("Plan an archived notice, pointing at the kept repository, at the top of each README"),
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      clusters: z.array(z.object({
+        repos: z.array(z.string()),
+        confidence: z.enum(["high", "medium", "low"]),
+        evidence: z.array(z.string()),
+        canonical: z.string(),
+        canonicalReasons: z.array(z.string()),
+        archive: z.array(z.string())
+      })),
+      plan: fixPlanSchema,
+      message: z.string()
+    })
+  })
+  async findDuplicateRepositories(input: RepositoryTarget & {
+    minConfidence?: DuplicateConfidence;
+    addReadmeNotice?: boolean;
+  } & CredentialInput = {}) {
+    try {
+      const { identity, octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const repos = await repositories.list(input);
+      const fingerprints = await scheduler.map(repos, repo => loadFingerprint(octokit, repo), "Comparing repositories");
+
+      const levels: DuplicateConfidence[] = ["high", "medium", "low"];
+      const allowed = levels.slice(0, levels.indexOf(input.minConfidence ?? "low") + 1);
+      const clusters = findDuplicateClusters(fingerprints).filter(cluster => allowed.includes(cluster.confidence));
+
+      const byName = new Map(repos.map(repo => [repo.full_name, repo]));
+      const toArchive = clusters.flatMap(cluster => cluster.archive.map(name => ({ repo: byName.get(name)!, canonical: byName.get(cluster.canonical)! })));
+      const proposals = await scheduler.map(toArchive, async ({ repo, canonical }) => {
+        const evidence = await archiveEvidence(octokit, repo);
+        const change = await planArchive(octokit, repo, {
+          addNotice: input.addReadmeNotice ?? true,
+          reason: `Development continues in [${canonical.full_name}](${canonical.html_url})`
+        });
+        return {
+          ...change,
+          reason: `Duplicate of ${canonical.full_name}${evidence.concerns.length ? `; ${evidence.concerns.join("; ")}` : ""}`
+        };
+      }, "Collecting archive evidence");
+      const plan = this.plans.create(proposals, identity);
+
+      return {
+        clusters,
+        plan: describePlan(plan),
+        message: clusters.length > 0
+          ? `Found ${clusters.length} groups of similar repositories (${clusters.filter(c => c.confidence === "high").length} with strong evidence). ` +
+            (proposals.length > 0 ? `Review the suggested repository to keep in each, then approve archiving the others from plan ${plan.planId} with applyFixPlan.` : "The copies are already archived.")
+          : `No duplicate repositories among ${repos.length} repositories.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to find duplicate repositories: ${error.message}`);
     }
   }
+
+  @DaemoFunction({
+    description: "Archive a repository, adding an archived notice to its README first. Returns the evidence (open issues and pull requests, stars, forks). Set dryRun to get a plan for applyFixPlan instead.",
+    tags: ["github", "archive"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      reason: z.string().optional().describe("Sentence added to the notice, e.g. where the project moved (optional)"),
+      addReadmeNotice: z.boolean().optional().default(true).describe("Add an archived notice to the top of the README"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      concerns: z.array(z.string()),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async archiveRepository(input: {
+    repoName: string;
+    owner?: string;
+    reason?: string;
+    addReadmeNotice?: boolean;
+    dryRun?: boolean;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+
+      if (repo.archived) {
+        return { success: false, message: `${repo.full_name} is already archived`, concerns: [] };
+      }
+
+      const evidence = await archiveEvidence(octokit, repo);
+      const change = await planArchive(octokit, repo, { addNotice: input.addReadmeNotice ?? true, reason: input.reason });
+
+      const outcome = await this.planOrApply(client, [change], input, `Archived ${repo.full_name}!`);
+      return { ...outcome, concerns: evidence.concerns };
+    } catch (error: any) {
+      throw new Error(`Failed to archive repository: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Unarchive a repository and remove the organizer's archived notice from its README. Set dryRun to get a plan for applyFixPlan instead.",
+    tags: ["github", "archive"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      removeReadmeNotice: z.boolean().optional().default(true).describe("Remove the archived notice the organizer added to the README"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async unarchiveRepository(input: {
+    repoName: string;
+    owner?: string;
+    removeReadmeNotice?: boolean;
+    dryRun?: boolean;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+
+      if (!repo.archived) {
+        return { success: false, message: `${repo.full_name} is not archived` };
+      }
+
+      const change = await planUnarchive(octokit, repo, { removeNotice: input.removeReadmeNotice ?? true });
+      return await this.planOrApply(client, [change], input, `Unarchived ${repo.full_name}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to unarchive repository: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Audit a repository's default branch protection (required reviews and status checks, force-push and deletion blocking, signed commits, including rulesets) and its merge settings and vulnerability alerts",
+    tags: ["github", "branch-protection", "security"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      owner: z.string().describe("Repository owner username"),
+      repo: z.string().describe("Repository name"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      defaultBranch: z.string().nullable(),
+      readable: z.boolean(),
+      protected: z.boolean(),
+      protection: z.object({
+        requiredReviews: z.number(),
+        dismissStaleReviews: z.boolean(),
+        requireCodeOwnerReviews: z.boolean(),
+        statusChecks: z.array(z.string()),
+        forcePushBlocked: z.boolean(),
+        deletionBlocked: z.boolean(),
+        signedCommits: z.boolean(),
+        enforceAdmins: z.boolean(),
+        linearHistory: z.boolean(),
+        rulesetRules: z.array(z.string())
+      }).nullable(),
+      settings: z.object({
+        allowMergeCommit: z.boolean(),
+        allowSquashMerge: z.boolean(),
+        allowRebaseMerge: z.boolean(),
+        deleteBranchOnMerge: z.boolean(),
+        vulnerabilityAlerts: z.boolean().nullable()
+      }),
+      issues: z.array(z.object({
+        ruleId: z.string(),
+        severity: z.enum(["high", "medium", "low"]),
+        issue: z.string(),
+        recommendation: z.string()
+      })),
+      strengths: z.array(z.string()),
+      message: z.string()
+    })
+  })
+  async auditBranchProtection(input: { owner: string; repo: string } & CredentialInput) {
+    try {
+      const { octokit } = this.client(input.credentialRef);
+      const { data: repo } = await octokit.repos.get({ owner: input.owner, repo: input.repo });
+      const ctx = createRuleContext(octokit, repo);
+      const [protection, settings, evaluations] = await Promise.all([
+        ctx.protection(),
+        ctx.settings(),
+        healthRules.evaluate(ctx, healthRules.select(BRANCH_RULE_IDS))
+      ]);
+
+      const issues = evaluations.filter(e => !e.passed).map(({ rule }) => ({
+        ruleId: rule.id,
+        severity: rule.severity,
+        issue: rule.title,
+        recommendation: rule.recommendation
+      }));
+      const classic = protection?.classic;
+
+      return {
+        repo: repo.full_name,
+        defaultBranch: protection?.branch ?? null,
+        readable: protection?.readable ?? false,
+        protected: protection?.protected ?? false,
+        protection: protection && {
+          requiredReviews: protection.requiredReviews,
+          dismissStaleReviews: classic?.dismissStaleReviews ?? false,
+          requireCodeOwnerReviews: classic?.requireCodeOwnerReviews ?? false,
+          statusChecks: classic?.statusChecks?.contexts ?? [],
+          forcePushBlocked: protection.forcePushBlocked,
+          deletionBlocked: protection.deletionBlocked,
+          signedCommits: protection.signedCommits,
+          enforceAdmins: classic?.enforceAdmins ?? false,
+          linearHistory: classic?.requiredLinearHistory ?? false,
+          rulesetRules: protection.rulesetRules
+        },
+        settings,
+        issues,
+        strengths: evaluations.filter(e => e.passed && e.strength).map(e => e.strength!),
+        message: !protection
+          ? `${repo.full_name} has no default branch yet.`
+          : !protection.readable
+            ? `Can't read the protection of ${protection.branch}: it needs admin access, and private repositories need a paid plan. Only the settings were checked.`
+            : issues.length > 0
+              ? `${issues.length} issue(s) on ${protection.branch}. applyProtectionProfile can fix the protection ones.`
+              : `${protection.branch} is well protected.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to audit branch protection: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "List the branch protection profiles applyProtectionProfile can apply, with what each requires",
+    tags: ["github", "branch-protection", "list"],
+    category: "GitHub Management",
+    inputSchema: z.object({}),
+    outputSchema: z.object({
+      profiles: z.array(z.object({
+        name: z.string(),
+        description: z.string(),
+        protection: z.object({
+          requiredReviews: z.number().nullable(),
+          dismissStaleReviews: z.boolean(),
+          requireCodeOwnerReviews: z.boolean(),
+          requireStatusChecks: z.boolean(),
+          enforceAdmins: z.boolean(),
+          allowForcePushes: z.boolean(),
+          allowDeletions: z.boolean(),
+          requiredSignatures: z.boolean(),
+          requiredLinearHistory: z.boolean()
+        }),
+        settings: z.object({
+          allowMergeCommit: z.boolean().optional(),
+          allowSquashMerge: z.boolean().optional(),
+          allowRebaseMerge: z.boolean().optional(),
+          deleteBranchOnMerge: z.boolean().optional()
+        })
+      }))
+    })
+  })
+  async listProtectionProfiles() {
+    return { profiles: PROTECTION_PROFILES };
+  }
+
+  @DaemoFunction({
+    description: "Apply a branch protection profile (basic, standard or strict) to the default branch of selected repositories. Protection that is already stricter is kept. Set dryRun to preview the changes per repository as a plan for applyFixPlan.",
+    tags: ["github", "branch-protection", "update"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoNames: z.array(z.string()).min(1).describe("Repositories to protect"),
+      profile: z.enum(PROTECTION_PROFILE_NAMES).describe("Protection profile (see listProtectionProfiles)"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the changes, don't apply them"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      skipped: z.array(z.object({
+        repo: z.string(),
+        reason: z.string()
+      })),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async applyProtectionProfile(input: {
+    repoNames: string[];
+    profile: string;
+    owner?: string;
+    dryRun?: boolean;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories, scheduler } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const profile = getProtectionProfile(input.profile);
+
+      const skipped: Array<{ repo: string; reason: string }> = [];
+      const planned = await scheduler.map(input.repoNames, async repoName => {
+        try {
+          const { data: repo } = await octokit.repos.get({ owner, repo: repoName });
+          if (repo.archived) {
+            skipped.push({ repo: repoName, reason: "Archived repositories are read-only" });
+            return null;
+          }
+          const change = await planProtectionProfile(octokit, repo, profile);
+          if (!change) skipped.push({ repo: repoName, reason: `Already meets the ${profile.name} profile` });
+          return change;
+        } catch (error: any) {
+          skipped.push({ repo: repoName, reason: error.message });
+          return null;
+        }
+      }, "Planning branch protection");
+
+      const proposals = planned.filter((change): change is NonNullable<typeof change> => change !== null);
+      if (proposals.length === 0) {
+        return { success: true, message: `Nothing to change for the ${profile.name} profile.`, skipped };
+      }
+
+      const outcome = await this.planOrApply(client, proposals, input, `Applied the ${profile.name} profile to ${proposals.length} repositories!`);
+      return { ...outcome, skipped };
+    } catch (error: any) {
+      throw new Error(`Failed to apply protection profile: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Audit a repository's security posture: Dependabot vulnerability alerts and security updates, dependabot.yml coverage of the package ecosystems found in the repo, open Dependabot alerts, secret scanning and code scanning",
+    tags: ["github", "security", "dependabot"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      owner: z.string().describe("Repository owner username"),
+      repo: z.string().describe("Repository name"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      security: securityPostureSchema,
+      issues: z.array(z.object({
+        ruleId: z.string(),
+        severity: z.enum(["high", "medium", "low"]),
+        issue: z.string(),
+        recommendation: z.string()
+      })),
+      strengths: z.array(z.string()),
+      message: z.string()
+    })
+  })
+  async auditSecurityPosture(input: { owner: string; repo: string } & CredentialInput) {
+    try {
+      const { octokit } = this.client(input.credentialRef);
+      const { data: repo } = await octokit.repos.get({ owner: input.owner, repo: input.repo });
+      const ctx = createRuleContext(octokit, repo);
+      const [security, evaluations] = await Promise.all([
+        ctx.security(),
+        healthRules.evaluate(ctx, healthRules.select(SECURITY_RULE_IDS))
+      ]);
+
+      const issues = evaluations.filter(e => !e.passed).map(({ rule }) => ({
+        ruleId: rule.id,
+        severity: rule.severity,
+        issue: rule.title,
+        recommendation: rule.recommendation
+      }));
+      const uncovered = security.uncoveredEcosystems.map(e => `${e.ecosystem} (${e.directories.join(", ")})`);
+
+      return {
+        repo: repo.full_name,
+        security,
+        issues,
+        strengths: evaluations.filter(e => e.passed && e.strength).map(e => e.strength!),
+        message: [
+          issues.length > 0
+            ? `${issues.length} security issue(s). enableSecurityFeatures and addDependabotConfig can fix most of them.`
+            : "No security issues found.",
+          security.dependabotConfig && uncovered.length > 0
+            ? `${security.dependabotConfig} doesn't cover ${uncovered.join("; ")}.`
+            : ""
+        ].filter(Boolean).join(" ")
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to audit security posture: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Turn on security features for one or more repositories: Dependabot vulnerability alerts and security updates, secret scanning, push protection and code scanning default setup. Set dryRun to get a plan for applyFixPlan instead.",
+    tags: ["github", "security", "update"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoNames: z.array(z.string()).min(1).describe("Repositories to update"),
+      features: z.array(z.enum(SECURITY_FEATURES)).optional().default(["vulnerability-alerts", "security-updates"])
+        .describe("Features to turn on; security updates need vulnerability alerts and push protection needs secret scanning, so include those too if they're off"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async enableSecurityFeatures(input: {
+    repoNames: string[];
+    features?: SecurityFeature[];
+    owner?: string;
+    dryRun?: boolean;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      // Dependencies first: SECURITY_FEATURES lists alerts before updates and scanning before push protection
+      const features = (input.features?.length ? [...new Set(input.features)] : ["vulnerability-alerts", "security-updates"] as SecurityFeature[])
+        .sort((a, b) => SECURITY_FEATURES.indexOf(a) - SECURITY_FEATURES.indexOf(b));
+
+      const proposals = input.repoNames.flatMap(repo => features.map((feature): ChangeProposal => ({
+        kind: "set-security-feature",
+        owner,
+        repo,
+        feature,
+        enabled: true,
+        summary: `Turn on ${SECURITY_FEATURE_LABELS[feature]}`
+      })));
+
+      return await this.planOrApply(client, proposals, input,
+        `Turned on ${features.map(f => SECURITY_FEATURE_LABELS[f]).join(", ")} for ${input.repoNames.length} repositories!`);
+    } catch (error: any) {
+      throw new Error(`Failed to enable security features: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Add a .github/dependabot.yml with weekly version updates for each package ecosystem found in the repository (npm, pip, cargo, gomod, maven, gradle, nuget, docker, GitHub Actions and more)",
+    tags: ["github", "security", "dependabot"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't commit it"),
+      delivery: deliveryField,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      ecosystems: z.array(ecosystemSchema),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async addDependabotConfig(input: {
+    repoName: string;
+    owner?: string;
+    dryRun?: boolean;
+    delivery?: Delivery;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+      const files = await RepoFileIndex.load(octokit, owner, input.repoName, repo.default_branch);
+      const ecosystems = detectEcosystems(files);
+
+      if (ecosystems.length === 0) {
+        return { success: false, message: `No package manifests or workflows found in ${repo.full_name}`, ecosystems };
+      }
+
+      const existing = files.find("dependabot-config");
+      if (existing) {
+        const config = await readRepoFile(octokit, owner, input.repoName, existing, repo.default_branch);
+        const uncovered = uncoveredEcosystems(ecosystems, config ? parseDependabotConfig(config) : []);
+        return {
+          success: false,
+          message: uncovered.length > 0
+            ? `${existing} already exists but doesn't cover ${uncovered.map(e => `${e.ecosystem} (${e.directories.join(", ")})`).join("; ")}. Add those entries by hand.`
+            : `${existing} already exists and covers every ecosystem`,
+          ecosystems
+        };
+      }
+
+      const change: ChangeProposal = {
+        kind: "create-file",
+        owner,
+        repo: input.repoName,
+        path: ".github/dependabot.yml",
+        content: renderDependabotConfig(ecosystems),
+        message: "Add Dependabot version updates config",
+        summary: `Add .github/dependabot.yml for ${ecosystems.map(e => e.ecosystem).join(", ")}`,
+        skipIfPresent: "dependabot-config"
+      };
+
+      const outcome = await this.planOrApply(client, [change], input, `Added .github/dependabot.yml to ${repo.full_name}!`);
+      return { ...outcome, ecosystems };
+    } catch (error: any) {
+      throw new Error(`Failed to add Dependabot config: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Find repositories whose CI is failing on the default branch, that have workflows but no runs there, or that have no GitHub Actions workflows at all. Returns a plan adding a starter workflow to the repositories without CI where the language is supported; nothing is changed until it's passed to applyFixPlan.",
+    tags: ["github", "ci", "workflows"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      includeNoRuns: z.boolean().optional().default(true).describe("Also list repositories with workflows that never ran on the default branch"),
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repositories: z.array(z.object({
+        repo: z.string(),
+        url: z.string(),
+        state: z.enum(["failing", "no-runs", "missing"]),
+        workflows: z.array(z.string()),
+        failingRuns: z.array(z.object({
+          workflow: z.string(),
+          conclusion: z.string().nullable(),
+          url: z.string(),
+          createdAt: z.string()
+        })),
+        starter: z.enum(STARTER_LANGUAGES).nullable()
+      })),
+      counts: z.object({
+        failing: z.number(),
+        noRuns: z.number(),
+        missing: z.number(),
+        passing: z.number()
+      }),
+      plan: fixPlanSchema,
+      message: z.string()
+    })
+  })
+  async findCiProblems(input: RepositoryTarget & { includeNoRuns?: boolean } & CredentialInput = {}) {
+    try {
+      const { identity, octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const repos = (await repositories.list(input)).filter(repo => !repo.archived);
+
+      const checked = await scheduler.map(repos, async repo => {
+        const ctx = createRuleContext(octokit, repo);
+        const ci = await ctx.ci();
+        // Repositories without code don't need CI, and a fork's CI is upstream's business
+        const missing = ci.state === "missing" && !!repo.language && !repo.fork;
+        const stack = missing ? await detectCiStack(octokit, repo, await ctx.files()) : null;
+        return { repo, ci, missing, stack };
+      }, "Checking CI");
+
+      const counts = { failing: 0, noRuns: 0, missing: 0, passing: 0 };
+      const results = [];
+      const proposals: ChangeProposal[] = [];
+      for (const { repo, ci, missing, stack } of checked) {
+        if (ci.state === "passing") counts.passing++;
+        if (ci.state === "failing") counts.failing++;
+        if (ci.state === "no-runs") counts.noRuns++;
+        if (missing) counts.missing++;
+
+        const listed = ci.state === "failing" || missing || (ci.state === "no-runs" && (input.includeNoRuns ?? true));
+        if (!listed) continue;
+
+        results.push({
+          repo: repo.full_name,
+          url: repo.html_url,
+          state: ci.state as "failing" | "no-runs" | "missing",
+          workflows: ci.workflows,
+          failingRuns: ci.latestRuns
+            .filter(run => run.conclusion && ["failure", "timed_out", "startup_failure"].includes(run.conclusion))
+            .map(({ workflow, conclusion, url, createdAt }) => ({ workflow, conclusion, url, createdAt })),
+          starter: stack?.language ?? null
+        });
+
+        if (stack && repo.default_branch) {
+          proposals.push({
+            kind: "create-file",
+            owner: repo.owner.login,
+            repo: repo.name,
+            path: STARTER_WORKFLOW_PATH,
+            content: renderStarterWorkflow(stack, repo.default_branch),
+            message: "Add CI workflow",
+            summary: `Add a ${stack.language} CI workflow (from ${stack.manifest})`,
+            skipIfPresent: "workflows"
+          });
+        }
+      }
+
+      const plan = this.plans.create(proposals, identity);
+      return {
+        repositories: results,
+        counts,
+        plan: describePlan(plan),
+        message: results.length > 0
+          ? `${counts.failing} repositories are failing CI, ${counts.noRuns} have workflows that never ran on the default branch and ${counts.missing} have no CI.` +
+            (proposals.length > 0 ? ` Approve starter workflows from plan ${plan.planId} with applyFixPlan.` : "")
+          : `CI is set up and passing on all ${repos.length} active repositories.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to check CI: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Add a starter GitHub Actions CI workflow (.github/workflows/ci.yml) that builds and tests the repository, for Node, Python, Go, Rust or Java. The language, package manager, scripts and build tool are inferred from the repo's manifests.",
+    tags: ["github", "ci", "workflows"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Repository name"),
+      language: z.enum(STARTER_LANGUAGES).optional().describe("Toolchain to use (optional, inferred from the manifests and main language)"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't commit it"),
+      delivery: deliveryField,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async addStarterWorkflow(input: {
+    repoName: string;
+    language?: StarterLanguage;
+    owner?: string;
+    dryRun?: boolean;
+    delivery?: Delivery;
+  } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+      const files = await RepoFileIndex.load(octokit, owner, input.repoName, repo.default_branch);
+
+      if (files.has(STARTER_WORKFLOW_PATH)) {
+        return { success: false, message: `${STARTER_WORKFLOW_PATH} already exists in ${repo.full_name}` };
+      }
+
+      const stack = await detectCiStack(octokit, repo, files, input.language);
+      if (!stack) {
+        return {
+          success: false,
+          message: input.language
+            ? `No ${input.language} manifest found in the root of ${repo.full_name}`
+            : `No supported manifest found in the root of ${repo.full_name} (starter workflows: ${STARTER_LANGUAGES.join(", ")})`
+        };
+      }
+
+      const change: ChangeProposal = {
+        kind: "create-file",
+        owner,
+        repo: input.repoName,
+        path: STARTER_WORKFLOW_PATH,
+        content: renderStarterWorkflow(stack, repo.default_branch),
+        message: "Add CI workflow",
+        summary: `Add a ${stack.language} CI workflow (from ${stack.manifest})`
+      };
+      return await this.planOrApply(client, [change], input, `Added a ${stack.language} CI workflow to ${repo.full_name}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to add CI workflow: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Report how far each fork is ahead of or behind the repository it was forked from, and which forks have no commits of their own on any branch (candidates for deletion). Returns a plan syncing the forks that are behind with their upstream; nothing is changed until it's passed to applyFixPlan.",
+    tags: ["github", "forks", "upstream"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      forks: z.array(z.object({
+        repo: z.string(),
+        url: z.string(),
+        upstream: z.string().nullable(),
+        upstreamUrl: z.string().nullable(),
+        branch: z.string(),
+        state: z.enum(FORK_STATES),
+        aheadBy: z.number(),
+        behindBy: z.number(),
+        branchesAhead: z.array(z.string()),
+        noUniqueCommits: z.boolean(),
+        lastPush: z.string().nullable()
+      })),
+      deletionCandidates: z.array(z.string()),
+      plan: fixPlanSchema,
+      message: z.string()
+    })
+  })
+  async analyzeForks(input: RepositoryTarget & CredentialInput = {}) {
+    try {
+      const { identity, octokit, repositories, scheduler } = this.client(input.credentialRef);
+      const forks = (await repositories.list({ ...input, includeForks: true })).filter(repo => repo.fork);
+
+      const statuses = await scheduler.map(forks, repo => loadForkStatus(octokit, repo), "Comparing forks");
+
+      const results = forks.map((repo, i) => ({
+        repo: repo.full_name,
+        url: repo.html_url,
+        ...statuses[i],
+        lastPush: repo.pushed_at ?? null
+      }));
+      const deletionCandidates = results.filter(fork => fork.noUniqueCommits).map(fork => fork.repo);
+
+      // Archived forks are read-only
+      const proposals: ChangeProposal[] = forks
+        .map((repo, i) => ({ repo, status: statuses[i] }))
+        .filter(({ repo, status }) => !repo.archived && status.upstream && status.behindBy > 0)
+        .map(({ repo, status }) => ({
+          kind: "sync-fork",
+          owner: repo.owner.login,
+          repo: repo.name,
+          branch: status.branch,
+          upstream: status.upstream!,
+          summary: `Sync ${status.branch} with ${status.upstream} (${status.behindBy} commits behind` +
+            (status.aheadBy > 0 ? `, ${status.aheadBy} ahead, so a merge commit is made)` : ")")
+        }));
+      const plan = this.plans.create(proposals, identity);
+
+      const behind = results.filter(fork => fork.behindBy > 0).length;
+      return {
+        forks: results,
+        deletionCandidates,
+        plan: describePlan(plan),
+        message: forks.length === 0
+          ? "No forks found."
+          : `${forks.length} forks: ${behind} behind their upstream, ${results.filter(fork => fork.aheadBy > 0).length} with commits of their own on the default branch, ` +
+            `${deletionCandidates.length} with no unique commits that could be deleted.` +
+            (proposals.length > 0 ? ` Sync them from plan ${plan.planId} with applyFixPlan.` : "")
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to analyze forks: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Sync a fork's branch with its upstream repository using GitHub's merge-upstream API: fast-forwards when the fork has no commits of its own, otherwise makes a merge commit. Fails if the merge would conflict. Set dryRun to get a plan for applyFixPlan instead.",
+    tags: ["github", "forks", "upstream"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      repoName: z.string().describe("Name of the fork"),
+      branch: z.string().optional().describe("Branch to sync (optional, defaults to the fork's default branch)"),
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      dryRun: z.boolean().optional().default(false).describe("Only plan the change, don't apply it"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      plan: fixPlanSchema.optional()
+    })
+  })
+  async syncForkWithUpstream(input: { repoName: string; branch?: string; owner?: string; dryRun?: boolean } & CredentialInput) {
+    try {
+      const client = this.client(input.credentialRef);
+      const { octokit, repositories } = client;
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { data: repo } = await octokit.repos.get({ owner, repo: input.repoName });
+
+      if (!repo.fork) {
+        return { success: false, message: `${repo.full_name} is not a fork` };
+      }
+      if (!repo.parent) {
+        return { success: false, message: `The upstream of ${repo.full_name} no longer exists` };
+      }
+
+      const branch = input.branch || repo.default_branch;
+      return await this.planOrApply(client, [{
+        kind: "sync-fork",
+        owner,
+        repo: input.repoName,
+        branch,
+        upstream: repo.parent.full_name,
+        summary: `Sync ${branch} with ${repo.parent.full_name}`
+      }], input, `Synced ${repo.full_name} ${branch} with ${repo.parent.full_name}!`);
+    } catch (error: any) {
+      throw new Error(`Failed to sync fork: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "How portfolio health changed over time, from the snapshots every analyzeAllRepositories and getRepositoryHealth call stores: average score then and now, repositories that improved or regressed, issues introduced and fixed, and the average score of each portfolio analysis in the period. Reads local history only; run analyzeAllRepositories first for an up-to-date picture.",
+    tags: ["github", "history", "trends"],
+    category: "GitHub Analysis",
+    inputSchema: z.object(historyWindowFields),
+    outputSchema: z.object({
+      since: z.string(),
+      repositoriesCompared: z.number(),
+      averageScoreThen: z.number(),
+      averageScoreNow: z.number(),
+      change: z.number(),
+      improved: z.array(repoHealthChangeSchema),
+      regressed: z.array(repoHealthChangeSchema),
+      unchanged: z.number(),
+      issuesIntroduced: z.number(),
+      issuesFixed: z.number(),
+      analysedOnce: z.array(z.string()),
+      points: z.array(z.object({
+        timestamp: z.string(),
+        averageScore: z.number(),
+        repos: z.number()
+      })),
+      message: z.string()
+    })
+  })
+  async getHealthTrend(input: HistoryWindow = {}) {
+    try {
+      const { history } = this.client(input.credentialRef);
+      const since = historySince(input);
+      const { changes, analysedOnce } = history.changesSince(since, input.owner);
+      const average = (scores: number[]) => scores.length ? Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length) : 0;
+
+      const averageScoreThen = average(changes.map(c => c.scoreThen));
+      const averageScoreNow = average(changes.map(c => c.scoreNow));
+      const improved = changes.filter(c => c.change > 0).sort((a, b) => b.change - a.change);
+      const regressed = changes.filter(c => c.change < 0).sort((a, b) => a.change - b.change);
+      // Baselines after the requested date mean the history doesn't reach back that far
+      const earliest = changes.map(c => c.thenAt).sort()[0];
+      const shortHistory = earliest && new Date(earliest) > since;
+
+      return {
+        since: since.toISOString(),
+        repositoriesCompared: changes.length,
+        averageScoreThen,
+        averageScoreNow,
+        change: averageScoreNow - averageScoreThen,
+        improved: improved.map(describeHealthChange),
+        regressed: regressed.map(describeHealthChange),
+        unchanged: changes.length - improved.length - regressed.length,
+        issuesIntroduced: changes.reduce((sum, c) => sum + c.introduced.length, 0),
+        issuesFixed: changes.reduce((sum, c) => sum + c.fixed.length, 0),
+        analysedOnce,
+        points: history.portfolioPoints(since, input.owner),
+        message: changes.length > 0
+          ? `Average health went from ${averageScoreThen} to ${averageScoreNow} across ${changes.length} repositories: ${improved.length} improved, ${regressed.length} regressed.` +
+            (shortHistory ? ` History only goes back to ${earliest.slice(0, 10)}, so that is the baseline.` : "")
+          : "Not enough history yet: each repository needs to have been analysed at least twice."
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to read health history: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "List repositories whose health score dropped since a date, with the issues that appeared and the ones fixed, worst first. Reads the local snapshot history.",
+    tags: ["github", "history", "regressions"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      ...historyWindowFields,
+      minDrop: z.number().int().min(1).optional().default(1).describe("Only repositories whose score dropped by at least this much")
+    }),
+    outputSchema: z.object({
+      regressions: z.array(repoHealthChangeSchema),
+      count: z.number(),
+      message: z.string()
+    })
+  })
+  async findHealthRegressions(input: HistoryWindow & { minDrop?: number } = {}) {
+    try {
+      const { history } = this.client(input.credentialRef);
+      const since = historySince(input);
+      const regressions = history.changesSince(since, input.owner).changes
+        .filter(c => -c.change >= (input.minDrop ?? 1))
+        .sort((a, b) => a.change - b.change);
+
+      return {
+        regressions: regressions.map(describeHealthChange),
+        count: regressions.length,
+        message: regressions.length > 0
+          ? `${regressions.length} repositories regressed since ${since.toISOString().slice(0, 10)}, worst ${regressions[0].repo} (${regressions[0].scoreThen} to ${regressions[0].scoreNow}).`
+          : `No repository's health dropped since ${since.toISOString().slice(0, 10)}.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to read health history: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "When a repository's health issues were introduced and fixed, from the local snapshot history. Each event lies between its timestamp and the analysis before it; \"present\" means the issue was there when the repository was first analysed.",
+    tags: ["github", "history", "issues"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      owner: z.string().describe("Repository owner"),
+      repo: z.string().describe("Repository name"),
+      ruleId: z.string().optional().describe("Only this health rule (optional)"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      repo: z.string(),
+      analyses: z.number(),
+      events: z.array(z.object({
+        ruleId: z.string(),
+        title: z.string(),
+        event: z.enum(["introduced", "fixed", "present"]),
+        timestamp: z.string(),
+        previousTimestamp: z.string().nullable()
+      })),
+      openIssues: z.array(historyRuleSchema.extend({ since: z.string().nullable() })),
+      message: z.string()
+    })
+  })
+  async getIssueTimeline(input: { owner: string; repo: string; ruleId?: string } & CredentialInput) {
+    try {
+      const { history } = this.client(input.credentialRef);
+      const fullName = `${input.owner}/${input.repo}`;
+      const { events, analyses, current } = history.issueTimeline(fullName, input.ruleId);
+
+      // An open issue dates from its latest appearance
+      const openIssues = current.map(id => ({
+        ...historyRule(id),
+        since: [...events].reverse().find(e => e.ruleId === id && e.event !== "fixed")?.timestamp ?? null
+      }));
+
+      return {
+        repo: fullName,
+        analyses,
+        events: events.map(e => ({ ...e, title: historyRule(e.ruleId).title })),
+        openIssues,
+        message: analyses === 0
+          ? `${fullName} hasn't been analysed yet. Run getRepositoryHealth to start its history.`
+          : `${analyses} analyses of ${fullName}: ${events.filter(e => e.event === "introduced").length} issues introduced, ` +
+            `${events.filter(e => e.event === "fixed").length} fixed, ${openIssues.length} open.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to read health history: ${error.message}`);
+    }
+  }
+
+  /**
+   * Collect a report's data: a portfolio analysis with each repository's score and issues and,
+   * optionally, the portfolio statistics, or one repository's health. Also used by POST /reports.
+   */
+  async buildReport(input: ReportInput): Promise<Report> {
+    const client = this.client(input.credentialRef);
+    const { repositories, history } = client;
+    const generatedAt = new Date().toISOString();
+
+    if (input.scope === "repository") {
+      if (!input.repo) {
+        throw new Error("repo is required for a repository report");
+      }
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const health = await this.getRepositoryHealth({ owner, repo: input.repo, credentialRef: input.credentialRef });
+      return {
+        kind: "repository",
+        title: `Repository health report: ${owner}/${input.repo}`,
+        generatedAt,
+        repo: `${owner}/${input.repo}`,
+        url: `https://github.com/${owner}/${input.repo}`,
+        health
+      };
+    }
+
+    const portfolio = await this.evaluatePortfolio(client, input, "Analyzing repositories");
+    const analysis = this.summarizeAnalysis(client, input, portfolio);
+    const statistics = input.includeStatistics === false ? null : await this.portfolioStatistics(client, portfolio);
+    const snapshot = history.get(analysis.snapshotId);
+    if (!snapshot) {
+      throw new Error(`Health snapshot ${analysis.snapshotId} is missing from the history`);
+    }
+
+    return {
+      kind: "portfolio",
+      title: `Repository health report: ${input.org || input.username || await repositories.getAuthenticatedLogin()}`,
+      generatedAt,
+      summary: analysis.summary,
+      snapshotId: snapshot.id,
+      repositories: snapshot.repos.map(record => ({
+        repo: record.repo,
+        url: `https://github.com/${record.repo}`,
+        score: record.score,
+        issues: record.issues.map(historyRule)
+      })),
+      statistics
+    };
+  }
+
+  @DaemoFunction({
+    description: "Export a shareable health report as Markdown, standalone HTML, CSV or JSON and return a download link. A portfolio report has the analysis of every repository (scores and issue lists) and the portfolio statistics; a repository report has one repository's health, recommendations and security posture.",
+    tags: ["github", "report", "export"],
+    category: "GitHub Analysis",
+    inputSchema: z.object({
+      format: z.enum(REPORT_FORMATS).optional().default("html").describe("markdown, html (a standalone page), csv (for spreadsheets) or json"),
+      scope: z.enum(["portfolio", "repository"]).optional().default("portfolio").describe("A report on all repositories or on one"),
+      repo: z.string().optional().describe("Repository name, required for a repository report"),
+      owner: z.string().optional().describe("Repository owner for a repository report (optional, defaults to authenticated user)"),
+      includeStatistics: z.boolean().optional().default(true).describe("Include the portfolio statistics in a portfolio report"),
+      ...repositoryTargetFields,
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      reportId: z.string(),
+      title: z.string(),
+      format: z.enum(REPORT_FORMATS),
+      downloadUrl: z.string(),
+      expiresAt: z.string(),
+      message: z.string()
+    })
+  })
+  async exportReport(input: ReportInput & { format?: ReportFormat }) {
+    try {
+      const { identity } = this.client(input.credentialRef);
+      const format = input.format ?? "html";
+      const report = await this.buildReport(input);
+      const stored = reportStore.save(report, format, identity);
+      const downloadUrl = `${publicBaseUrl()}/reports/${stored.id}`;
+
+      return {
+        reportId: stored.id,
+        title: stored.title,
+        format,
+        downloadUrl,
+        expiresAt: stored.expiresAt,
+        message: `${stored.title} is ready as ${format.toUpperCase()}: ${downloadUrl}. Anyone with the link can download it until ${stored.expiresAt}; after that only with your credential.`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to export report: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "List recorded changes made by the organizer with the caller's credential (files created, visibility changed), newest first",
+    tags: ["github", "journal", "history"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      owner: z.string().optional().describe("Only changes in repositories of this owner"),
+      repoName: z.string().optional().describe("Only changes in this repository"),
+      batchId: z.string().optional().describe("Only changes from this batch"),
+      limit: z.number().optional().default(50).describe("Maximum number of entries to return"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      entries: z.array(journalEntrySchema),
+      count: z.number()
+    })
+  })
+  async listChangeJournal(input: { owner?: string; repoName?: string; batchId?: string; limit?: number } & CredentialInput) {
+    try {
+      const { journal } = this.client(input.credentialRef);
+      const entries = journal.list({
+        owner: input.owner,
+        repo: input.repoName,
+        batchId: input.batchId,
+        limit: input.limit
+      }).map(describeEntry);
+
+      return {
+        entries,
+        count: entries.length
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to read change journal: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Roll back a single recorded change: delete a created file, restore the previous visibility or close an opened pull request. Refuses if the repository changed since, or if restoring public visibility fails the secret scan unless overrideSecretScan is set.",
+    tags: ["github", "journal", "rollback"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      entryId: z.string().describe("Journal entry ID from listChangeJournal or applyFixPlan"),
+      overrideSecretScan: z.boolean().optional().default(false).describe("Make the repository public again even if the secret scan finds possible secrets or can't check every file. Only set this after the user has reviewed the findings."),
+      ...credentialFields
+    }),
+    outputSchema: rollbackResultSchema
+  })
+  async rollbackChange(input: { entryId: string; overrideSecretScan?: boolean } & CredentialInput) {
+    try {
+      const { journal, executor } = this.client(input.credentialRef);
+      return await executor.rollback(journal.get(input.entryId), { overrideSecretScan: input.overrideSecretScan });
+    } catch (error: any) {
+      throw new Error(`Rollback failed: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Roll back every change recorded in a batch, newest first. Restoring public visibility is refused if the secret scan fails, unless overrideSecretScan is set.",
+    tags: ["github", "journal", "rollback"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      batchId: z.string().describe("Batch ID returned by applyFixPlan"),
+      overrideSecretScan: z.boolean().optional().default(false).describe("Make repositories public again even if the secret scan finds possible secrets or can't check every file. Only set this after the user has reviewed the findings."),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      results: z.array(rollbackResultSchema),
+      rolledBack: z.number(),
+      refused: z.number(),
+      failed: z.number(),
+      message: z.string()
+    })
+  })
+  async rollbackBatch(input: { batchId: string; overrideSecretScan?: boolean } & CredentialInput) {
+    try {
+      const { journal, executor } = this.client(input.credentialRef);
+      const results: RollbackResult[] = [];
+      for (const entry of journal.batch(input.batchId)) {
+        results.push(await executor.rollback(entry, { overrideSecretScan: input.overrideSecretScan }));
+      }
+
+      const rolledBack = results.filter(r => r.status === "rolled-back").length;
+      const refused = results.filter(r => r.status === "refused").length;
+      const failed = results.filter(r => r.status === "failed").length;
+
+      return {
+        results,
+        rolledBack,
+        refused,
+        failed,
+        message: `Rolled back ${rolledBack} of ${results.length} changes (${refused} refused, ${failed} failed)`
+      };
+    } catch (error: any) {
+      throw new Error(`Rollback failed: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "List pull requests opened by the organizer. Without a repository, lists every pull request recorded in the change journal; with one, scans that repository for organizer branches.",
+    tags: ["github", "pull-request", "list"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user when repoName is set)"),
+      repoName: z.string().optional().describe("Only this repository (optional)"),
+      state: z.enum(["open", "closed", "all"]).optional().default("open").describe("Which pull requests to list"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      pullRequests: z.array(z.object({
+        repo: z.string(),
+        number: z.number(),
+        title: z.string(),
+        url: z.string(),
+        branch: z.string(),
+        state: z.enum(["open", "closed", "merged"]),
+        createdAt: z.string(),
+        journalEntryId: z.string().optional()
+      })),
+      count: z.number()
+    })
+  })
+  async listOrganizerPullRequests(input: { owner?: string; repoName?: string; state?: "open" | "closed" | "all" } & CredentialInput) {
+    try {
+      const { octokit, repositories, journal } = this.client(input.credentialRef);
+      const state = input.state || "open";
+      const pullRequests = [];
+
+      if (input.repoName) {
+        const owner = input.owner || await repositories.getAuthenticatedLogin();
+        const prs = await octokit.paginate(octokit.pulls.list, {
+          owner,
+          repo: input.repoName,
+          state,
+          per_page: 100
+        });
+
+        for (const pr of prs.filter(pr => pr.head.ref.startsWith(ORGANIZER_BRANCH_PREFIX))) {
+          pullRequests.push({
+            repo: `${owner}/${input.repoName}`,
+            number: pr.number,
+            title: pr.title,
+            url: pr.html_url,
+            branch: pr.head.ref,
+            state: pr.merged_at ? "merged" as const : pr.state as "open" | "closed",
+            createdAt: pr.created_at,
+            journalEntryId: journal.findPullRequest(owner, input.repoName, pr.number)?.id
+          });
+        }
+      } else {
+        const entries = journal.list({ owner: input.owner, kind: "pull-request-opened", limit: Infinity }) as PullRequestOpenedEntry[];
+
+        for (const entry of entries) {
+          let pr;
+          try {
+            ({ data: pr } = await octokit.pulls.get({ owner: entry.owner, repo: entry.repo, pull_number: entry.number }));
+          } catch (error: any) {
+            // The repository was deleted or we lost access to it
+            if (error.status === 404) continue;
+            throw error;
+          }
+          if (state !== "all" && pr.state !== state) continue;
+
+          pullRequests.push({
+            repo: `${entry.owner}/${entry.repo}`,
+            number: pr.number,
+            title: pr.title,
+            url: pr.html_url,
+            branch: pr.head.ref,
+            state: pr.merged ? "merged" as const : pr.state as "open" | "closed",
+            createdAt: pr.created_at,
+            journalEntryId: entry.id
+          });
+        }
+      }
+
+      return {
+        pullRequests,
+        count: pullRequests.length
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to list organizer pull requests: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Close a pull request the organizer opened and delete its branch. Refuses pull requests from other branches and ones that were already merged.",
+    tags: ["github", "pull-request", "close"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      repoName: z.string().describe("Repository name"),
+      number: z.number().describe("Pull request number"),
+      deleteBranch: z.boolean().optional().default(true).describe("Delete the organizer branch after closing"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string()
+    })
+  })
+  async closeOrganizerPullRequest(input: { owner?: string; repoName: string; number: number; deleteBranch?: boolean } & CredentialInput) {
+    try {
+      const { repositories, executor } = this.client(input.credentialRef);
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const { closed, message } = await executor.closePullRequest(owner, input.repoName, input.number, input.deleteBranch !== false);
+
+      return {
+        success: closed,
+        message: `${owner}/${input.repoName}: ${message}`
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to close pull request: ${error.message}`);
+    }
+  }
+
+  @DaemoFunction({
+    description: "Drop cached GitHub responses for a repository, or for everything when no repository is given. Changes made through the organizer invalidate the cache automatically; use this after changing a repository elsewhere.",
+    tags: ["github", "cache"],
+    category: "GitHub Management",
+    inputSchema: z.object({
+      owner: z.string().optional().describe("Repository owner (optional, defaults to the authenticated user)"),
+      repoName: z.string().optional().describe("Repository name (optional, clears the whole cache when omitted)"),
+      ...credentialFields
+    }),
+    outputSchema: z.object({
+      success: z.boolean(),
+      removed: z.number(),
+      message: z.string()
+    })
+  })
+  async invalidateRepositoryCache(input: { owner?: string; repoName?: string } & CredentialInput) {
+    try {
+      const { repositories, cache } = this.client(input.credentialRef);
+      if (!cache) {
+        return { success: true, removed: 0, message: 'Caching is turned off (GITHUB_CACHE=off)' };
+      }
+
+      if (!input.repoName) {
+        const removed = cache.clear();
+        return { success: true, removed, message: `Cleared ${removed} cached responses` };
+      }
+
+      const owner = input.owner || await repositories.getAuthenticatedLogin();
+      const removed = cache.invalidateRepository(owner, input.repoName);
+      return { success: true, removed, message: `Cleared ${removed} cached responses for ${owner}/${input.repoName} and the repository listings` };
+    } catch (error: any) {
+      throw new Error(`Failed to invalidate cache: ${error.message}`);
+    }
+  }
+
+  /**
+   * List a target's repositories and evaluate every health rule on each, once for both the
+   * analysis and the statistics.
+   */
+  private async evaluatePortfolio(client: OrganizerClient, target: RepositoryTarget, label: string): Promise<PortfolioEvaluation> {
+    return this.evaluateEach(client, await client.repositories.list(target), label);
+  }
+
+  /**
+   * Evaluate health rules on each repository. A repository whose evaluation throws, e.g. on a
+   * server error that outlasted the retries or a 451, is set aside instead of failing the others;
+   * only when none could be evaluated does the error propagate.
+   */
+  private async evaluateEach(client: OrganizerClient, repos: GitHubRepository[], label: string, rules?: HealthRule[]): Promise<PortfolioEvaluation> {
+    const outcomes = await client.scheduler.map(repos, async repo => {
+      const ctx = createRuleContext(client.octokit, repo);
+      try {
+        return { repo, ctx, evaluations: await healthRules.evaluate(ctx, rules) };
+      } catch (error: any) {
+        return { repo, ctx, error };
+      }
+    }, label);
+
+    const portfolio: PortfolioEvaluation = { repos: [], contexts: [], evaluations: [], notAnalysed: [] };
+    for (const outcome of outcomes) {
+      if (outcome.evaluations) {
+        portfolio.repos.push(outcome.repo);
+        portfolio.contexts.push(outcome.ctx);
+        portfolio.evaluations.push(outcome.evaluations);
+      } else {
+        portfolio.notAnalysed.push({ repo: outcome.repo.full_name, error: outcome.error.message });
+      }
+    }
+    if (portfolio.repos.length === 0 && outcomes.length > 0) {
+      throw outcomes[0].error;
+    }
+    return portfolio;
+  }
+
+  /**
+   * The issues of an evaluated portfolio, recorded as a health snapshot.
+   */
+  private summarizeAnalysis(client: OrganizerClient, target: RepositoryTarget, { repos, evaluations, notAnalysed }: PortfolioEvaluation) {
+    const issues: Array<{repo: string; ruleId: string; severity: Severity; issue: string}> = [];
+    for (const [i, repo] of repos.entries()) {
+      for (const { rule } of evaluations[i].filter(e => !e.passed)) {
+        issues.push({
+          repo: repo.name,
+          ruleId: rule.id,
+          severity: rule.severity,
+          issue: rule.title
+        });
+      }
+    }
+
+    const highPriority = issues.filter(i => i.severity === "high").length;
+    const mediumPriority = issues.filter(i => i.severity === "medium").length;
+    const lowPriority = issues.filter(i => i.severity === "low").length;
+
+    const snapshot = client.history.record(
+      "analyzeAllRepositories",
+      target.org ? `org:${target.org}` : target.username ? `user:${target.username}` : null,
+      repos.map((repo, i) => ({
+        repo: repo.full_name,
+        score: healthRules.score(evaluations[i]),
+        issues: evaluations[i].filter(e => !e.passed).map(e => e.rule.id)
+      }))
+    );
+
+    return {
+      totalRepos: repos.length + notAnalysed.length,
+      analyzed: repos.length,
+      issues: issues,
+      notAnalysed,
+      snapshotId: snapshot.id,
+      summary: `Analyzed ${repos.length} repositories. Found ${issues.length} total issues: ${highPriority} high priority, ${mediumPriority} medium priority, ${lowPriority} low priority.` +
+        describeNotAnalysed(notAnalysed)
+    };
+  }
+
+  /**
+   * Coverage, security, score and activity figures of an evaluated portfolio.
+   */
+  private async portfolioStatistics(client: OrganizerClient, { repos, contexts, evaluations, notAnalysed }: PortfolioEvaluation) {
+    const { octokit, scheduler } = client;
+    const percent = (count: number) => repos.length ? Math.round((count / repos.length) * 100) : 0;
+
+    const languages: Record<string, number> = {};
+    const languageBytes: Record<string, number> = {};
+    const communityFileCounts: Record<string, number> = Object.fromEntries(COMMUNITY_FILE_CATALOG.map(file => [file.label, 0]));
+    const healthScoreDistribution: Record<string, number> = { "90-100": 0, "70-89": 0, "50-69": 0, "0-49": 0 };
+    const activity = { last30Days: 0, last6Months: 0, last12Months: 0, older: 0 };
+    const securityCounts = { vulnerabilityAlerts: 0, securityUpdates: 0, dependabotConfig: 0, secretScanning: 0, codeScanning: 0 };
+    const openDependabotAlerts = { total: 0, critical: 0, high: 0, repositories: 0 };
+    let readmeCount = 0;
+    let scoreTotal = 0;
+
+    // The rule contexts have already loaded the files, community profile and security posture
+    const details = await scheduler.map(repos, async (repo, i) => {
+      const { data: bytesByLanguage } = await octokit.repos.listLanguages({
+        owner: repo.owner.login,
+        repo: repo.name
+      });
+      const ctx = contexts[i];
+      const files = await ctx.files();
+      const profile = await ctx.communityProfile();
+      const score = healthRules.score(evaluations[i]);
+      const security = await ctx.security();
+      return { bytesByLanguage, files, profile, score, security };
+    }, "Collecting portfolio statistics");
+
+    for (const [i, repo] of repos.entries()) {
+      const { bytesByLanguage, files, profile, score, security } = details[i];
+
+      if (repo.language) {
+        languages[repo.language] = (languages[repo.language] || 0) + 1;
+      }
+
+      for (const [language, bytes] of Object.entries(bytesByLanguage)) {
+        languageBytes[language] = (languageBytes[language] || 0) + bytes;
+      }
+
+      if (files.find("readme")) readmeCount++;
+      for (const { kind, label } of COMMUNITY_FILE_CATALOG) {
+        if (communityFileStatus(kind, files, profile).present) communityFileCounts[label]++;
+      }
+
+      if (security.vulnerabilityAlerts) securityCounts.vulnerabilityAlerts++;
+      if (security.securityUpdates) securityCounts.securityUpdates++;
+      if (security.dependabotConfig) securityCounts.dependabotConfig++;
+      if (security.secretScanning) securityCounts.secretScanning++;
+      if (security.codeScanning) securityCounts.codeScanning++;
+      if (security.openAlerts && security.openAlerts.total > 0) {
+        openDependabotAlerts.total += security.openAlerts.total;
+        openDependabotAlerts.critical += security.openAlerts.critical;
+        openDependabotAlerts.high += security.openAlerts.high;
+        openDependabotAlerts.repositories++;
+      }
+
+      scoreTotal += score;
+      const bucket = score >= 90 ? "90-100" : score >= 70 ? "70-89" : score >= 50 ? "50-69" : "0-49";
+      healthScoreDistribution[bucket]++;
+
+      const lastActivity = repo.pushed_at || repo.updated_at;
+      const days = lastActivity ? (Date.now() - new Date(lastActivity).getTime()) / DAY_MS : Infinity;
+      if (days <= 30) activity.last30Days++;
+      else if (days <= 182) activity.last6Months++;
+      else if (days <= 365) activity.last12Months++;
+      else activity.older++;
+    }
+
+    const archivedRepos = repos.filter(r => r.archived).length;
+    const forkRepos = repos.filter(r => r.fork).length;
+
+    const stats = {
+      totalRepositories: repos.length,
+      publicRepos: repos.filter(r => !r.private).length,
+      privateRepos: repos.filter(r => r.private).length,
+      archivedRepos,
+      forkRepos,
+      archivedShare: percent(archivedRepos),
+      forkShare: percent(forkRepos),
+      totalStars: repos.reduce((sum, r) => sum + (r.stargazers_count ?? 0), 0),
+      totalForks: repos.reduce((sum, r) => sum + (r.forks_count ?? 0), 0),
+      languages,
+      languageBytes,
+      licenseCoverage: percent(repos.filter(r => r.license).length),
+      readmeCoverage: percent(readmeCount),
+      communityFileCoverage: Object.fromEntries(
+        Object.entries(communityFileCounts).map(([path, count]) => [path, percent(count)])
+      ),
+      securityCoverage: {
+        vulnerabilityAlerts: percent(securityCounts.vulnerabilityAlerts),
+        securityUpdates: percent(securityCounts.securityUpdates),
+        dependabotConfig: percent(securityCounts.dependabotConfig),
+        secretScanning: percent(securityCounts.secretScanning),
+        codeScanning: percent(securityCounts.codeScanning)
+      },
+      openDependabotAlerts,
+      averageHealthScore: repos.length ? Math.round(scoreTotal / repos.length) : 0,
+      healthScoreDistribution,
+      activity,
+      insights: [] as string[],
+      notAnalysed
+    };
+
+    // Generate insights
+    if (stats.licenseCoverage < 80) {
+      stats.insights.push(`Only ${stats.licenseCoverage}% of repositories have licenses. Consider adding licenses to protect your work.`);
+    }
+
+    if (stats.readmeCoverage < 80) {
+      stats.insights.push(`Only ${stats.readmeCoverage}% of repositories have a README. ${repos.length - readmeCount} repositories have none.`);
+    }
+
+    for (const [path, coverage] of Object.entries(stats.communityFileCoverage)) {
+      if (coverage < 50) {
+        stats.insights.push(`${path} is present in ${coverage}% of repositories.`);
+      }
+    }
+
+    if (openDependabotAlerts.total > 0) {
+      stats.insights.push(`${openDependabotAlerts.total} open Dependabot alerts across ${openDependabotAlerts.repositories} repositories, ${openDependabotAlerts.critical} critical and ${openDependabotAlerts.high} high.`);
+    }
+
+    if (stats.securityCoverage.vulnerabilityAlerts < 80) {
+      stats.insights.push(`Vulnerability alerts are on in only ${stats.securityCoverage.vulnerabilityAlerts}% of repositories.`);
+    }
+
+    if (repos.length > 0) {
+      stats.insights.push(`Average health score is ${stats.averageHealthScore}/100, with ${healthScoreDistribution["0-49"]} repositories scoring below 50.`);
+    }
+
+    if (stats.publicRepos > stats.privateRepos * 2) {
+      stats.insights.push(`You have significantly more public repos (${stats.publicRepos}) than private (${stats.privateRepos}). Consider organizing practice/demo code privately.`);
+    }
+
+    if (activity.older > 0) {
+      stats.insights.push(`${activity.older} repositories (${percent(activity.older)}%) haven't been pushed to in over a year.`);
+    }
+
+    if (stats.forkShare >= 30) {
+      stats.insights.push(`${stats.forkShare}% of repositories are forks (${forkRepos} of ${repos.length}).`);
+    }
+
+    if (archivedRepos > 0) {
+      stats.insights.push(`${archivedRepos} repositories (${stats.archivedShare}%) are archived.`);
+    }
+
+    const totalBytes = Object.values(languageBytes).reduce((sum, bytes) => sum + bytes, 0);
+    const topLanguage = Object.entries(languageBytes).sort((a, b) => b[1] - a[1])[0];
+    if (topLanguage && totalBytes > 0) {
+      stats.insights.push(`Your primary language is ${topLanguage[0]} with ${Math.round((topLanguage[1] / totalBytes) * 100)}% of all code by bytes, and the main language of ${languages[topLanguage[0]] || 0} repositories.`);
+    }
+
+    return stats;
+  }
+
+  /**
+   * Either store the proposals as a plan for later approval, or apply them right away.
+   */
+  private async planOrApply(
+    { identity, journal, executor }: OrganizerClient,
+    proposals: ChangeProposal[],
+    options: { dryRun?: boolean; delivery?: Delivery },
+    successMessage: string
+  ) {
+    const plan = this.plans.create(proposals, identity);
+
+    if (options.dryRun) {
+      return {
+        success: true,
+        message: `Planned ${plan.changes.length} change(s). Call applyFixPlan with plan ${plan.planId} to apply.`,
+        plan: describePlan(plan)
+      };
+    }
+
+    const batchId = journal.newBatchId();
+    const results = await executor.applyAll(plan.changes, batchId, options.delivery);
+    const pullRequestUrl = results.find(r => r.pullRequestUrl)?.pullRequestUrl;
+
+    const problems = results.filter(r => r.status !== "applied");
+    return {
+      success: problems.length === 0,
+      message: problems.length > 0
+        ? problems.map(r => `${r.repo}: ${r.message}`).join('; ')
+        : pullRequestUrl
+          ? `Opened pull request ${pullRequestUrl} for review (batch ${batchId})`
+          : `${successMessage} (batch ${batchId})`
+    };
+  }
 }
@@ -0,0 +1,218 @@
+import { randomBytes } from "crypto";
+import { JsonLinesStore } from "./dataStore";
+import { SERVER_CREDENTIAL_ID } from "./githubClients";
+
+export type SnapshotSource = "getRepositoryHealth" | "analyzeAllRepositories";
+
+export interface RepoHealthRecord {
+  /** Full name, owner/repo */
+  repo: string;
+  score: number;
+  /** IDs of the failing rules */
+  issues: string[];
+}
+
+/**
+ * The result of one analysis, kept so scores and issues can be compared over time.
+ */
+export interface HealthSnapshot {
+  id: string;
+  timestamp: string;
+  source: SnapshotSource;
+  /** Whose repositories a portfolio analysis covered, e.g. "org:acme" */
+  target: string | null;
+  repos: RepoHealthRecord[];
+  /** Identity of the credential that ran the analysis; snapshots recorded before there was one belong to the server's */
+  credential?: string;
+}
+
+/**
+ * How one repository's health moved between two snapshots.
+ */
+export interface RepoHealthChange {
+  repo: string;
+  scoreThen: number;
+  scoreNow: number;
+  change: number;
+  thenAt: string;
+  nowAt: string;
+  introduced: string[];
+  fixed: string[];
+}
+
+export interface PortfolioPoint {
+  timestamp: string;
+  averageScore: number;
+  repos: number;
+}
+
+export interface IssueEvent {
+  ruleId: string;
+  /** "present" when the issue was already there the first time the repository was analysed */
+  event: "introduced" | "fixed" | "present";
+  timestamp: string;
+  /** The analysis before, which bounds when the change happened */
+  previousTimestamp: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Snapshots are appended to the file, which is only rewritten once it grows past COMPACT_AT_BYTES.
+// Compaction drops snapshots older than MAX_AGE_DAYS, then the oldest ones until at most
+// MAX_RECORDS repository records are left, which stays well under the threshold.
+const COMPACT_AT_BYTES = 16 * 1024 * 1024;
+const MAX_AGE_DAYS = 365;
+const MAX_RECORDS = 10_000;
+
+function newId(): string {
+  return `snap_${Date.now().toString(36)}${randomBytes(3).toString("hex")}`;
+}
+
+function average(scores: number[]): number {
+  return scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
+}
+
+type RepoPoint = { timestamp: string; score: number; issues: string[] };
+
+/**
+ * Persistent history of health analyses, answering how scores and issues changed over time.
+ * All credentials share one file, but a history only sees the snapshots of the credential it
+ * was created for.
+ */
+export class HealthHistory {
+  private store = new JsonLinesStore<HealthSnapshot>("health-history.jsonl");
+
+  constructor(private credential: string) {}
+
+  private snapshots(): HealthSnapshot[] {
+    return this.store.read().filter(s => (s.credential ?? SERVER_CREDENTIAL_ID) === this.credential);
+  }
+
+  record(source: SnapshotSource, target: string | null, repos: RepoHealthRecord[]): HealthSnapshot {
+    const snapshot: HealthSnapshot = {
+      id: newId(),
+      timestamp: new Date().toISOString(),
+      source,
+      target,
+      repos,
+      credential: this.credential
+    };
+    this.store.append(snapshot);
+    if (this.store.size() > COMPACT_AT_BYTES) {
+      this.compact();
+    }
+    return snapshot;
+  }
+
+  /**
+   * Drop old snapshots of every credential, always keeping the newest one.
+   */
+  private compact(): void {
+    const cutoff = Date.now() - MAX_AGE_DAYS * DAY_MS;
+    const kept: HealthSnapshot[] = [];
+    let records = 0;
+    for (const snapshot of this.store.read().reverse()) {
+      records += snapshot.repos.length;
+      if (kept.length > 0 && (records > MAX_RECORDS || new Date(snapshot.timestamp).getTime() < cutoff)) break;
+      kept.push(snapshot);
+    }
+    this.store.write(kept.reverse());
+  }
+
+  get(snapshotId: string): HealthSnapshot | null {
+    return this.snapshots().find(s => s.id === snapshotId) ?? null;
+  }
+
+  /**
+   * Each repository's records in time order, optionally only for one owner.
+   */
+  private series(owner?: string): Map<string, RepoPoint[]> {
+    const prefix = owner ? `${owner.toLowerCase()}/` : null;
+    const series = new Map<string, RepoPoint[]>();
+    for (const snapshot of this.snapshots()) {
+      for (const record of snapshot.repos) {
+        if (prefix && !record.repo.toLowerCase().startsWith(prefix)) continue;
+        const points = series.get(record.repo) ?? [];
+        points.push({ timestamp: snapshot.timestamp, score: record.score, issues: record.issues });
+        series.set(record.repo, points);
+      }
+    }
+    return series;
+  }
+
+  /**
+   * Compare every repository's latest record with its last record from before `since`, or its
+   * first record when history starts later. Repositories analysed only once can't be compared.
+   */
+  changesSince(since: Date, owner?: string): { changes: RepoHealthChange[]; analysedOnce: string[] } {
+    const changes: RepoHealthChange[] = [];
+    const analysedOnce: string[] = [];
+
+    for (const [repo, points] of this.series(owner)) {
+      const latest = points[points.length - 1];
+      const before = points.filter(p => new Date(p.timestamp) <= since);
+      const baseline = before.length > 0 ? before[before.length - 1] : points[0];
+      if (baseline === latest) {
+        analysedOnce.push(repo);
+        continue;
+      }
+
+      changes.push({
+        repo,
+        scoreThen: baseline.score,
+        scoreNow: latest.score,
+        change: latest.score - baseline.score,
+        thenAt: baseline.timestamp,
+        nowAt: latest.timestamp,
+        introduced: latest.issues.filter(id => !baseline.issues.includes(id)),
+        fixed: baseline.issues.filter(id => !latest.issues.includes(id))
+      });
+    }
+    return { changes, analysedOnce };
+  }
+
+  /**
+   * Average score of each portfolio analysis since a date, oldest first.
+   */
+  portfolioPoints(since: Date, owner?: string): PortfolioPoint[] {
+    const prefix = owner ? `${owner.toLowerCase()}/` : null;
+    return this.snapshots()
+      .filter(s => s.source === "analyzeAllRepositories" && new Date(s.timestamp) >= since)
+      .map(s => {
+        const repos = s.repos.filter(r => !prefix || r.repo.toLowerCase().startsWith(prefix));
+        return { timestamp: s.timestamp, averageScore: average(repos.map(r => r.score)), repos: repos.length };
+      })
+      .filter(point => point.repos > 0);
+  }
+
+  /**
+   * When each issue of a repository appeared and went away, oldest first.
+   */
+  issueTimeline(repo: string, ruleId?: string): { events: IssueEvent[]; analyses: number; current: string[] } {
+    const points = [...this.series()].find(([name]) => name.toLowerCase() === repo.toLowerCase())?.[1] ?? [];
+    const events: IssueEvent[] = [];
+    const relevant = (id: string) => !ruleId || id === ruleId;
+
+    points.forEach((point, i) => {
+      const previous = i > 0 ? points[i - 1] : null;
+      if (!previous) {
+        for (const id of point.issues.filter(relevant)) {
+          events.push({ ruleId: id, event: "present", timestamp: point.timestamp, previousTimestamp: null });
+        }
+        return;
+      }
+      for (const id of point.issues.filter(id => relevant(id) && !previous.issues.includes(id))) {
+        events.push({ ruleId: id, event: "introduced", timestamp: point.timestamp, previousTimestamp: previous.timestamp });
+      }
+      for (const id of previous.issues.filter(id => relevant(id) && !point.issues.includes(id))) {
+        events.push({ ruleId: id, event: "fixed", timestamp: point.timestamp, previousTimestamp: previous.timestamp });
+      }
+    });
+
+    return {
+      events,
+      analyses: points.length,
+      current: (points[points.length - 1]?.issues ?? []).filter(relevant)
+    };
+  }
+}
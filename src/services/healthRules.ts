@@ -0,0 +1,794 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { ChangeProposal } from "./fixPlans";
+import { RepoFileIndex } from "./repoFiles";
+import { renderReadme } from "./fileTemplates";
+import { renderLicenseFiles } from "./licenseCatalog";
+import { suggestTopics } from "./topicSuggestions";
+import { draftDescription } from "./descriptionDrafts";
+import {
+  EffectiveProtection,
+  RepositorySettings,
+  getProtectionProfile,
+  loadEffectiveProtection,
+  loadRepositorySettings,
+  planProtectionProfile
+} from "./branchProtection";
+import { CiStatus, STARTER_WORKFLOW_PATH, detectCiStack, loadCiStatus, renderStarterWorkflow } from "./ciWorkflows";
+import {
+  SECURITY_FEATURE_LABELS,
+  SecurityFeature,
+  SecurityPosture,
+  loadSecurityPosture,
+  renderDependabotConfig
+} from "./securityPosture";
+import {
+  CommunityFileKind,
+  CommunityProfile,
+  communityFileStatus,
+  communityTemplateOptions,
+  getCommunityFile,
+  loadCommunityProfile
+} from "./communityFiles";
+
+export type Severity = "high" | "medium" | "low";
+
+/**
+ * What a rule gets to look at. The file index, community profile, branch protection, settings,
+ * security posture and CI status are loaded once per repository, on first use.
+ */
+export interface RuleContext {
+  octokit: Octokit;
+  repo: RepositoryInfo;
+  files(): Promise<RepoFileIndex>;
+  communityProfile(): Promise<CommunityProfile | null>;
+  protection(): Promise<EffectiveProtection | null>;
+  settings(): Promise<RepositorySettings>;
+  security(): Promise<SecurityPosture>;
+  ci(): Promise<CiStatus>;
+}
+
+export interface RuleOutcome {
+  passed: boolean;
+  /** Shown as a strength when the rule passes */
+  strength?: string;
+}
+
+export interface HealthRule {
+  id: string;
+  /** Issue text reported when the rule fails */
+  title: string;
+  severity: Severity;
+  /** Points deducted from the 100-point health score when the rule fails */
+  weight: number;
+  recommendation: string;
+  /** Checks what the project's authors provide. Forks pass, since that belongs upstream. */
+  authorship?: boolean;
+  evaluate(ctx: RuleContext): Promise<RuleOutcome>;
+  fix?(ctx: RuleContext): Promise<ChangeProposal[]>;
+}
+
+export interface RuleEvaluation {
+  rule: HealthRule;
+  passed: boolean;
+  strength?: string;
+}
+
+export const STALE_MONTHS = 6;
+const MIN_DESCRIPTION_LENGTH = 10;
+const PRACTICE_KEYWORDS = ['practice', 'test', 'learning', 'tutorial', 'example', 'demo', 'temp'];
+const AUTO_FIX_TOPICS = 5;
+
+export function createRuleContext(octokit: Octokit, repo: RepositoryInfo): RuleContext {
+  let index: Promise<RepoFileIndex> | null = null;
+  let profile: Promise<CommunityProfile | null> | null = null;
+  let protection: Promise<EffectiveProtection | null> | null = null;
+  let settings: Promise<RepositorySettings> | null = null;
+  let security: Promise<SecurityPosture> | null = null;
+  let ci: Promise<CiStatus> | null = null;
+
+  return {
+    octokit,
+    repo,
+    files() {
+      if (!index) {
+        index = RepoFileIndex.load(octokit, repo.owner.login, repo.name, repo.default_branch);
+      }
+      return index;
+    },
+    communityProfile() {
+      if (!profile) {
+        profile = loadCommunityProfile(octokit, repo);
+      }
+      return profile;
+    },
+    protection() {
+      if (!protection) {
+        protection = loadEffectiveProtection(octokit, repo);
+      }
+      return protection;
+    },
+    settings() {
+      if (!settings) {
+        settings = loadRepositorySettings(octokit, repo.owner.login, repo.name);
+      }
+      return settings;
+    },
+    security() {
+      if (!security) {
+        security = Promise.all([this.files(), this.settings()])
+          .then(([files, repoSettings]) => loadSecurityPosture(octokit, repo, files, repoSettings));
+      }
+      return security;
+    },
+    ci() {
+      if (!ci) {
+        ci = this.files().then(files => loadCiStatus(octokit, repo, files));
+      }
+      return ci;
+    }
+  };
+}
+
+/**
+ * Registry of health rules. Analysis, scoring, issue search and auto-fix all run from it,
+ * so a new check only needs to be registered here.
+ */
+export class HealthRuleRegistry {
+  private rules = new Map<string, HealthRule>();
+
+  register(rule: HealthRule): this {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Health rule ${rule.id} is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+    return this;
+  }
+
+  get(id: string): HealthRule {
+    const rule = this.rules.get(id);
+    if (!rule) {
+      throw new Error(`Unknown health rule "${id}". Available rules: ${this.ids().join(", ")}`);
+    }
+    return rule;
+  }
+
+  all(): HealthRule[] {
+    return [...this.rules.values()];
+  }
+
+  ids(): string[] {
+    return [...this.rules.keys()];
+  }
+
+  /**
+   * Resolve a list of rule IDs, where an empty list or "all" means every rule.
+   */
+  select(ids?: string[]): HealthRule[] {
+    if (!ids || ids.length === 0 || ids.includes("all")) return this.all();
+    return ids.map(id => this.get(id));
+  }
+
+  async evaluate(ctx: RuleContext, rules: HealthRule[] = this.all()): Promise<RuleEvaluation[]> {
+    const evaluations: RuleEvaluation[] = [];
+    for (const rule of rules) {
+      const outcome = rule.authorship && ctx.repo.fork ? { passed: true } : await rule.evaluate(ctx);
+      evaluations.push({ rule, passed: outcome.passed, strength: outcome.strength });
+    }
+    return evaluations;
+  }
+
+  /**
+   * 100 minus the weight of every failed rule, clamped to 0..100.
+   */
+  score(evaluations: RuleEvaluation[]): number {
+    const deducted = evaluations
+      .filter(e => !e.passed)
+      .reduce((sum, e) => sum + e.rule.weight, 0);
+    return Math.max(0, Math.min(100, 100 - deducted));
+  }
+}
+
+export const healthRules = new HealthRuleRegistry();
+
+healthRules.register({
+  id: "missing-license",
+  title: "Missing LICENSE file",
+  severity: "high",
+  weight: 15,
+  recommendation: "Add an appropriate LICENSE file (MIT recommended for open source)",
+  authorship: true,
+  async evaluate(ctx) {
+    if (ctx.repo.license) {
+      return { passed: true, strength: `Has ${ctx.repo.license.name} license` };
+    }
+    // GitHub doesn't recognise every license text, so a license file of any name also counts
+    const path = (await ctx.files()).find("license");
+    return path
+      ? { passed: true, strength: `Has license file ${path}` }
+      : { passed: false };
+  },
+  async fix({ repo }) {
+    const owner = repo.owner.login;
+    return renderLicenseFiles("MIT", owner).map((file): ChangeProposal => ({
+      kind: "create-file",
+      owner,
+      repo: repo.name,
+      path: file.path,
+      content: file.content,
+      message: 'Add MIT LICENSE',
+      summary: 'Add MIT LICENSE',
+      skipIfPresent: "license"
+    }));
+  }
+});
+
+healthRules.register({
+  id: "missing-readme",
+  title: "Missing README",
+  severity: "high",
+  weight: 20,
+  recommendation: "Add a comprehensive README with installation and usage instructions",
+  authorship: true,
+  async evaluate(ctx) {
+    const path = (await ctx.files()).find("readme");
+    return path
+      ? { passed: true, strength: `Has ${path}` }
+      : { passed: false };
+  },
+  async fix({ repo }) {
+    const owner = repo.owner.login;
+    return [{
+      kind: "create-file",
+      owner,
+      repo: repo.name,
+      path: 'README.md',
+      content: renderReadme(owner, repo.name, {
+        description: repo.description,
+        licenseName: repo.license?.name
+      }),
+      message: 'Add README.md',
+      summary: 'Add README.md',
+      skipIfPresent: "readme"
+    }];
+  }
+});
+
+healthRules.register({
+  id: "weak-description",
+  title: "Weak or missing description",
+  severity: "medium",
+  weight: 10,
+  recommendation: "Add a clear, concise description explaining what the project does",
+  async evaluate({ repo }) {
+    return repo.description && repo.description.length >= MIN_DESCRIPTION_LENGTH
+      ? { passed: true, strength: "Has detailed description" }
+      : { passed: false };
+  },
+  async fix(ctx) {
+    const draft = await draftDescription(ctx.octokit, ctx.repo, await ctx.files());
+    if (!draft) return [];
+    return [{
+      kind: "set-description",
+      owner: ctx.repo.owner.login,
+      repo: ctx.repo.name,
+      description: draft.description,
+      homepage: draft.homepage,
+      summary: draft.confidence === "low"
+        ? `Set description to "${draft.description}" (only from the languages, worth editing)`
+        : `Set description to "${draft.description}" (from the ${draft.sources.join(" and ")})`
+    }];
+  }
+});
+
+healthRules.register({
+  id: "stale",
+  title: `Repository hasn't been updated in ${STALE_MONTHS}+ months`,
+  severity: "low",
+  weight: 10,
+  recommendation: "Push an update, or archive the repository if it is no longer maintained (proposeArchiveCandidates lists the evidence)",
+  async evaluate({ repo }) {
+    const cutoff = new Date();
+    cutoff.setMonth(cutoff.getMonth() - STALE_MONTHS);
+    const lastActivity = repo.pushed_at || repo.updated_at;
+    return lastActivity && new Date(lastActivity) >= cutoff
+      ? { passed: true, strength: "Recently updated" }
+      : { passed: false };
+  }
+});
+
+healthRules.register({
+  id: "public-practice-repo",
+  title: "Practice/demo code should be private",
+  severity: "medium",
+  weight: 5,
+  recommendation: "Make practice and demo repositories private to keep your public portfolio focused",
+  async evaluate({ repo }) {
+    const isPractice = PRACTICE_KEYWORDS.some(keyword =>
+      repo.name.toLowerCase().includes(keyword) ||
+      (repo.description && repo.description.toLowerCase().includes(keyword))
+    );
+    return { passed: !isPractice || !!repo.private };
+  },
+  async fix({ repo }) {
+    return [{
+      kind: "set-visibility",
+      owner: repo.owner.login,
+      repo: repo.name,
+      makePrivate: true,
+      summary: 'Make private (practice/demo repository)'
+    }];
+  }
+});
+
+healthRules.register({
+  id: "missing-topics",
+  title: "Public repository has no topics",
+  severity: "low",
+  weight: 5,
+  recommendation: "Add topics describing the language, frameworks and purpose so the repository shows up in GitHub search",
+  async evaluate({ repo }) {
+    if (repo.private) return { passed: true };
+    return repo.topics && repo.topics.length > 0
+      ? { passed: true, strength: `Tagged with ${repo.topics.length} topics` }
+      : { passed: false };
+  },
+  async fix(ctx) {
+    const suggestions = (await suggestTopics(ctx.octokit, ctx.repo, await ctx.files())).slice(0, AUTO_FIX_TOPICS);
+    if (suggestions.length === 0) return [];
+    return [{
+      kind: "set-topics",
+      owner: ctx.repo.owner.login,
+      repo: ctx.repo.name,
+      topics: suggestions.map(s => s.topic),
+      mode: "add",
+      summary: `Add topics: ${suggestions.map(s => s.topic).join(", ")}`,
+      reason: suggestions.map(s => `${s.topic}: ${s.reasons.join("; ")}`).join(" | ")
+    }];
+  }
+});
+
+// Default branch protection and merge settings. Archived repositories are read-only and pass, as do
+// branches whose protection the token can't read. The finer checks pass when the branch isn't
+// protected at all, which unprotected-default-branch already reports.
+async function protectionOf(ctx: RuleContext): Promise<EffectiveProtection | null> {
+  if (ctx.repo.archived) return null;
+  const protection = await ctx.protection();
+  return protection?.readable ? protection : null;
+}
+
+healthRules.register({
+  id: "unprotected-default-branch",
+  title: "Default branch isn't protected",
+  severity: "medium",
+  weight: 10,
+  recommendation: "Protect the default branch against force pushes and deletion, and require reviewed pull requests (applyProtectionProfile)",
+  async evaluate(ctx) {
+    const protection = await protectionOf(ctx);
+    if (!protection) return { passed: true };
+    return protection.protected
+      ? { passed: true, strength: `${protection.branch} is protected` }
+      : { passed: false };
+  },
+  async fix(ctx) {
+    const change = await planProtectionProfile(ctx.octokit, ctx.repo, getProtectionProfile("standard"));
+    return change ? [change] : [];
+  }
+});
+
+const PROTECTION_RULES: Array<{
+  id: string;
+  title: string;
+  severity: Severity;
+  weight: number;
+  recommendation: string;
+  passes(protection: EffectiveProtection): boolean;
+  strength: string;
+}> = [
+  {
+    id: "no-required-reviews",
+    title: "Default branch doesn't require pull request reviews",
+    severity: "low",
+    weight: 3,
+    recommendation: "Require at least one approving review before merging (the standard protection profile)",
+    passes: p => p.requiredReviews > 0,
+    strength: "Pull requests need an approving review"
+  },
+  {
+    id: "no-required-status-checks",
+    title: "Default branch doesn't require status checks",
+    severity: "low",
+    weight: 2,
+    recommendation: "Require CI checks to pass before merging (the standard protection profile)",
+    passes: p => p.statusChecks,
+    strength: "Status checks must pass before merging"
+  },
+  {
+    id: "force-push-allowed",
+    title: "Force pushes to the default branch are allowed",
+    severity: "medium",
+    weight: 5,
+    recommendation: "Block force pushes so published history can't be rewritten (the basic protection profile)",
+    passes: p => p.forcePushBlocked,
+    strength: "Force pushes are blocked"
+  },
+  {
+    id: "branch-deletion-allowed",
+    title: "The default branch can be deleted",
+    severity: "low",
+    weight: 3,
+    recommendation: "Block deletion of the default branch (the basic protection profile)",
+    passes: p => p.deletionBlocked,
+    strength: "The default branch can't be deleted"
+  },
+  {
+    id: "unsigned-commits-allowed",
+    title: "Default branch accepts unsigned commits",
+    severity: "low",
+    weight: 1,
+    recommendation: "Require signed commits (the strict protection profile)",
+    passes: p => p.signedCommits,
+    strength: "Commits must be signed"
+  }
+];
+
+for (const rule of PROTECTION_RULES) {
+  healthRules.register({
+    id: rule.id,
+    title: rule.title,
+    severity: rule.severity,
+    weight: rule.weight,
+    recommendation: rule.recommendation,
+    async evaluate(ctx) {
+      const protection = await protectionOf(ctx);
+      if (!protection || !protection.protected) return { passed: true };
+      return rule.passes(protection) ? { passed: true, strength: rule.strength } : { passed: false };
+    }
+  });
+}
+
+healthRules.register({
+  id: "branches-kept-after-merge",
+  title: "Merged branches aren't deleted automatically",
+  severity: "low",
+  weight: 2,
+  recommendation: "Turn on automatic deletion of head branches after merging (the standard protection profile)",
+  async evaluate(ctx) {
+    if (ctx.repo.archived) return { passed: true };
+    return (await ctx.settings()).deleteBranchOnMerge
+      ? { passed: true, strength: "Merged branches are deleted automatically" }
+      : { passed: false };
+  }
+});
+
+healthRules.register({
+  id: "mixed-merge-methods",
+  title: "Pull requests can be merged in several ways",
+  severity: "low",
+  weight: 1,
+  recommendation: "Allow a single merge method so the default branch history stays consistent (the strict profile allows squash merges only)",
+  async evaluate(ctx) {
+    if (ctx.repo.archived) return { passed: true };
+    const settings = await ctx.settings();
+    const methods = [settings.allowMergeCommit, settings.allowSquashMerge, settings.allowRebaseMerge].filter(Boolean).length;
+    return { passed: methods <= 1 };
+  }
+});
+
+/** The rules auditBranchProtection reports on */
+export const BRANCH_RULE_IDS = [
+  "unprotected-default-branch",
+  ...PROTECTION_RULES.map(rule => rule.id),
+  "branches-kept-after-merge",
+  "mixed-merge-methods",
+  "vulnerability-alerts-disabled"
+];
+
+// Security posture. Archived repositories pass, as do features the token can't read. Secret and
+// code scanning are free for public repositories only, so private ones pass those.
+const SECURITY_FEATURE_RULES: Array<{
+  id: string;
+  feature: SecurityFeature;
+  title: string;
+  severity: Severity;
+  weight: number;
+  recommendation: string;
+  /** Whether the rule applies; features that depend on another pass until that one is on */
+  applies(repo: RepositoryInfo, posture: SecurityPosture): boolean;
+  enabled(posture: SecurityPosture): boolean | null;
+  strength: string;
+}> = [
+  {
+    id: "vulnerability-alerts-disabled",
+    feature: "vulnerability-alerts",
+    title: "Dependabot vulnerability alerts are off",
+    severity: "medium",
+    weight: 5,
+    recommendation: "Turn on Dependabot vulnerability alerts to hear about vulnerable dependencies",
+    applies: () => true,
+    enabled: p => p.vulnerabilityAlerts,
+    strength: "Vulnerability alerts are on"
+  },
+  {
+    id: "security-updates-disabled",
+    feature: "security-updates",
+    title: "Dependabot security updates are off",
+    severity: "low",
+    weight: 3,
+    recommendation: "Turn on Dependabot security updates so vulnerable dependencies get fix pull requests",
+    applies: (_, p) => p.vulnerabilityAlerts === true,
+    enabled: p => p.securityUpdates,
+    strength: "Dependabot opens security update pull requests"
+  },
+  {
+    id: "secret-scanning-disabled",
+    feature: "secret-scanning",
+    title: "Secret scanning is off",
+    severity: "medium",
+    weight: 5,
+    recommendation: "Turn on secret scanning to be alerted about committed credentials",
+    applies: repo => !repo.private,
+    enabled: p => p.secretScanning,
+    strength: "Secret scanning is on"
+  },
+  {
+    id: "push-protection-disabled",
+    feature: "push-protection",
+    title: "Secret scanning push protection is off",
+    severity: "low",
+    weight: 2,
+    recommendation: "Turn on push protection so pushes containing credentials are blocked",
+    applies: (repo, p) => !repo.private && p.secretScanning === true,
+    enabled: p => p.pushProtection,
+    strength: "Pushes containing secrets are blocked"
+  },
+  {
+    id: "code-scanning-not-configured",
+    feature: "code-scanning",
+    title: "Code scanning isn't set up",
+    severity: "low",
+    weight: 2,
+    recommendation: "Set up code scanning with CodeQL's default setup",
+    applies: repo => !repo.private,
+    enabled: p => p.codeScanning,
+    strength: "Code scanning analyses the code"
+  }
+];
+
+for (const rule of SECURITY_FEATURE_RULES) {
+  healthRules.register({
+    id: rule.id,
+    title: rule.title,
+    severity: rule.severity,
+    weight: rule.weight,
+    recommendation: rule.recommendation,
+    async evaluate(ctx) {
+      if (ctx.repo.archived) return { passed: true };
+      const posture = await ctx.security();
+      if (!rule.applies(ctx.repo, posture)) return { passed: true };
+      const enabled = rule.enabled(posture);
+      if (enabled === null) return { passed: true };
+      return enabled ? { passed: true, strength: rule.strength } : { passed: false };
+    },
+    async fix({ repo }) {
+      return [{
+        kind: "set-security-feature",
+        owner: repo.owner.login,
+        repo: repo.name,
+        feature: rule.feature,
+        enabled: true,
+        summary: `Turn on ${SECURITY_FEATURE_LABELS[rule.feature]}`
+      }];
+    }
+  });
+}
+
+healthRules.register({
+  id: "missing-dependabot-config",
+  title: "No Dependabot version updates config",
+  severity: "low",
+  weight: 3,
+  recommendation: "Add a .github/dependabot.yml covering each package ecosystem so dependencies stay up to date",
+  authorship: true,
+  async evaluate(ctx) {
+    if (ctx.repo.archived) return { passed: true };
+    const posture = await ctx.security();
+    if (posture.ecosystems.length === 0) return { passed: true };
+    return posture.dependabotConfig
+      ? { passed: true, strength: `Dependabot keeps ${posture.ecosystems.map(e => e.ecosystem).join(", ")} dependencies up to date` }
+      : { passed: false };
+  },
+  async fix(ctx) {
+    const { ecosystems } = await ctx.security();
+    if (ecosystems.length === 0) return [];
+    return [{
+      kind: "create-file",
+      owner: ctx.repo.owner.login,
+      repo: ctx.repo.name,
+      path: ".github/dependabot.yml",
+      content: renderDependabotConfig(ecosystems),
+      message: "Add Dependabot version updates config",
+      summary: `Add .github/dependabot.yml for ${ecosystems.map(e => e.ecosystem).join(", ")}`,
+      skipIfPresent: "dependabot-config"
+    }];
+  }
+});
+
+healthRules.register({
+  id: "open-dependabot-alerts",
+  title: "Open Dependabot alerts",
+  severity: "medium",
+  weight: 5,
+  recommendation: "Update the vulnerable dependencies, or dismiss alerts that don't apply",
+  async evaluate(ctx) {
+    if (ctx.repo.archived) return { passed: true };
+    const { openAlerts } = await ctx.security();
+    if (!openAlerts) return { passed: true };
+    return openAlerts.total === 0
+      ? { passed: true, strength: "No open Dependabot alerts" }
+      : { passed: false };
+  }
+});
+
+/** The rules auditSecurityPosture reports on */
+export const SECURITY_RULE_IDS = [
+  ...SECURITY_FEATURE_RULES.map(rule => rule.id),
+  "missing-dependabot-config",
+  "open-dependabot-alerts"
+];
+
+// Continuous integration. Repositories without code and archived ones pass.
+healthRules.register({
+  id: "missing-ci",
+  title: "No CI workflow",
+  severity: "medium",
+  weight: 5,
+  recommendation: "Add a GitHub Actions workflow that builds and tests every push and pull request (addStarterWorkflow)",
+  authorship: true,
+  async evaluate(ctx) {
+    if (ctx.repo.archived || !ctx.repo.language) return { passed: true };
+    const { workflows } = await ctx.ci();
+    return workflows.length > 0
+      ? { passed: true, strength: `Has ${workflows.length} GitHub Actions workflow${workflows.length === 1 ? "" : "s"}` }
+      : { passed: false };
+  },
+  async fix(ctx) {
+    const stack = await detectCiStack(ctx.octokit, ctx.repo, await ctx.files());
+    if (!stack || !ctx.repo.default_branch) return [];
+    return [{
+      kind: "create-file",
+      owner: ctx.repo.owner.login,
+      repo: ctx.repo.name,
+      path: STARTER_WORKFLOW_PATH,
+      content: renderStarterWorkflow(stack, ctx.repo.default_branch),
+      message: "Add CI workflow",
+      summary: `Add a ${stack.language} CI workflow (from ${stack.manifest})`,
+      skipIfPresent: "workflows"
+    }];
+  }
+});
+
+healthRules.register({
+  id: "failing-ci",
+  title: "CI is failing on the default branch",
+  severity: "medium",
+  weight: 5,
+  recommendation: "Fix the failing workflow runs on the default branch (findCiProblems links to them)",
+  async evaluate(ctx) {
+    if (ctx.repo.archived) return { passed: true };
+    const { state } = await ctx.ci();
+    if (state === "passing") return { passed: true, strength: "CI passes on the default branch" };
+    return { passed: state !== "failing" };
+  }
+});
+
+// Community health files. They are for people outside the project, so private repositories pass.
+const COMMUNITY_RULES: Array<{
+  kind: CommunityFileKind;
+  id: string;
+  title: string;
+  severity: Severity;
+  weight: number;
+  recommendation: string;
+  /** Whether autoFixAllIssues adds the file; FUNDING.yml needs to know where sponsorships go */
+  autoFix: boolean;
+}> = [
+  {
+    kind: "contributing",
+    id: "missing-contributing",
+    title: "Missing CONTRIBUTING guide",
+    severity: "low",
+    weight: 5,
+    recommendation: "Add a CONTRIBUTING.md explaining how to report issues, set up the project and open pull requests",
+    autoFix: true
+  },
+  {
+    kind: "code-of-conduct",
+    id: "missing-code-of-conduct",
+    title: "Missing code of conduct",
+    severity: "low",
+    weight: 5,
+    recommendation: "Add a CODE_OF_CONDUCT.md (the Contributor Covenant is the common choice)",
+    autoFix: true
+  },
+  {
+    kind: "security",
+    id: "missing-security-policy",
+    title: "Missing security policy",
+    severity: "medium",
+    weight: 5,
+    recommendation: "Add a SECURITY.md telling people how to report vulnerabilities privately",
+    autoFix: true
+  },
+  {
+    kind: "support",
+    id: "missing-support",
+    title: "Missing SUPPORT file",
+    severity: "low",
+    weight: 2,
+    recommendation: "Add a SUPPORT.md pointing people to the right place for questions",
+    autoFix: true
+  },
+  {
+    kind: "issue-templates",
+    id: "missing-issue-templates",
+    title: "Missing issue templates",
+    severity: "low",
+    weight: 3,
+    recommendation: "Add bug report and feature request templates under .github/ISSUE_TEMPLATE/",
+    autoFix: true
+  },
+  {
+    kind: "pull-request-template",
+    id: "missing-pr-template",
+    title: "Missing pull request template",
+    severity: "low",
+    weight: 3,
+    recommendation: "Add a .github/pull_request_template.md so pull requests describe what changed and how it was tested",
+    autoFix: true
+  },
+  {
+    kind: "funding",
+    id: "missing-funding",
+    title: "Missing FUNDING.yml",
+    severity: "low",
+    weight: 2,
+    recommendation: "If you accept sponsorships, add .github/FUNDING.yml to show a Sponsor button",
+    autoFix: false
+  }
+];
+
+for (const communityRule of COMMUNITY_RULES) {
+  const { kind, autoFix, ...rule } = communityRule;
+  const { label } = getCommunityFile(kind);
+
+  healthRules.register({
+    ...rule,
+    authorship: true,
+    async evaluate(ctx) {
+      if (ctx.repo.private) return { passed: true };
+
+      const status = communityFileStatus(kind, await ctx.files(), await ctx.communityProfile());
+      if (!status.present) return { passed: false };
+      return {
+        passed: true,
+        strength: status.source === "community-profile"
+          ? `Has ${label} (${status.path})`
+          : `Has ${status.path}`
+      };
+    },
+    fix: autoFix
+      ? async ({ repo }) => getCommunityFile(kind).render(communityTemplateOptions(repo)).map((file, i): ChangeProposal => ({
+          kind: "create-file",
+          owner: repo.owner.login,
+          repo: repo.name,
+          path: file.path,
+          content: file.content,
+          message: `Add ${file.path}`,
+          summary: `Add ${file.path}`,
+          // The other files of a multi-file kind are only checked by path, like license companion files
+          skipIfPresent: i === 0 ? kind : undefined
+        }))
+      : undefined
+  });
+}
@@ -0,0 +1,281 @@
+import { LICENSE_TEXTS } from "./licenseTexts";
+
+export type CopyleftLevel = "none" | "weak" | "strong" | "network";
+
+export interface LicenseInfo {
+  spdxId: string;
+  name: string;
+  description: string;
+  copyleft: CopyleftLevel;
+  permissions: string[];
+  conditions: string[];
+  limitations: string[];
+  /** Extra license files the license expects next to LICENSE */
+  companionFiles?: Array<{ path: string; spdxId: string }>;
+}
+
+export interface LicenseFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Bundled SPDX license catalog. IDs follow GitHub's license detection, so they match repo.license.spdx_id.
+ */
+export const LICENSE_CATALOG: LicenseInfo[] = [
+  {
+    spdxId: "MIT",
+    name: "MIT License",
+    description: "Short and simple permissive license. Only requires preserving copyright and license notices.",
+    copyleft: "none",
+    permissions: ["commercial-use", "modifications", "distribution", "private-use"],
+    conditions: ["include-copyright"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "Apache-2.0",
+    name: "Apache License 2.0",
+    description: "Permissive license with an express grant of patent rights. Changes must be documented.",
+    copyleft: "none",
+    permissions: ["commercial-use", "modifications", "distribution", "patent-use", "private-use"],
+    conditions: ["include-copyright", "document-changes"],
+    limitations: ["trademark-use", "no-liability"]
+  },
+  {
+    spdxId: "GPL-2.0",
+    name: "GNU General Public License v2.0",
+    description: "Strong copyleft. Distributed derived works must be released under the same license with source code.",
+    copyleft: "strong",
+    permissions: ["commercial-use", "modifications", "distribution", "private-use"],
+    conditions: ["include-copyright", "document-changes", "disclose-source", "same-license"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "GPL-3.0",
+    name: "GNU General Public License v3.0",
+    description: "Strong copyleft covering larger works, with an express grant of patent rights.",
+    copyleft: "strong",
+    permissions: ["commercial-use", "modifications", "distribution", "patent-use", "private-use"],
+    conditions: ["include-copyright", "document-changes", "disclose-source", "same-license"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "LGPL-2.1",
+    name: "GNU Lesser General Public License v2.1",
+    description: "Weak copyleft for libraries. Works that only link to the library are not covered.",
+    copyleft: "weak",
+    permissions: ["commercial-use", "modifications", "distribution", "private-use"],
+    conditions: ["include-copyright", "disclose-source", "document-changes", "same-license"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "LGPL-3.0",
+    name: "GNU Lesser General Public License v3.0",
+    description: "Weak copyleft for libraries, as additional permissions on top of the GPLv3. Adds COPYING with the GPLv3 text.",
+    copyleft: "weak",
+    permissions: ["commercial-use", "modifications", "distribution", "patent-use", "private-use"],
+    conditions: ["include-copyright", "disclose-source", "document-changes", "same-license"],
+    limitations: ["no-liability"],
+    companionFiles: [{ path: "COPYING", spdxId: "GPL-3.0" }]
+  },
+  {
+    spdxId: "AGPL-3.0",
+    name: "GNU Affero General Public License v3.0",
+    description: "Strongest copyleft. Source must also be offered to users of a modified version over a network.",
+    copyleft: "network",
+    permissions: ["commercial-use", "modifications", "distribution", "patent-use", "private-use"],
+    conditions: ["include-copyright", "document-changes", "disclose-source", "network-use-disclose", "same-license"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "BSD-2-Clause",
+    name: "BSD 2-Clause \"Simplified\" License",
+    description: "Permissive license nearly identical to MIT.",
+    copyleft: "none",
+    permissions: ["commercial-use", "modifications", "distribution", "private-use"],
+    conditions: ["include-copyright"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "BSD-3-Clause",
+    name: "BSD 3-Clause \"New\" or \"Revised\" License",
+    description: "Permissive license like BSD 2-Clause, plus a clause forbidding use of the project's name to promote derived products.",
+    copyleft: "none",
+    permissions: ["commercial-use", "modifications", "distribution", "private-use"],
+    conditions: ["include-copyright"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "MPL-2.0",
+    name: "Mozilla Public License 2.0",
+    description: "Weak, file-level copyleft with an express grant of patent rights. Larger works may use other terms.",
+    copyleft: "weak",
+    permissions: ["commercial-use", "modifications", "distribution", "patent-use", "private-use"],
+    conditions: ["disclose-source", "include-copyright", "same-license"],
+    limitations: ["no-liability", "trademark-use"]
+  },
+  {
+    spdxId: "ISC",
+    name: "ISC License",
+    description: "Permissive license functionally equivalent to MIT and BSD 2-Clause, with simpler wording.",
+    copyleft: "none",
+    permissions: ["commercial-use", "distribution", "modifications", "private-use"],
+    conditions: ["include-copyright"],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "Unlicense",
+    name: "The Unlicense",
+    description: "Dedicates the work to the public domain with no conditions.",
+    copyleft: "none",
+    permissions: ["private-use", "commercial-use", "modifications", "distribution"],
+    conditions: [],
+    limitations: ["no-liability"]
+  },
+  {
+    spdxId: "CC0-1.0",
+    name: "Creative Commons Zero v1.0 Universal",
+    description: "Public domain dedication. Waives copyright entirely and disclaims warranties, but grants no patent rights.",
+    copyleft: "none",
+    permissions: ["commercial-use", "modifications", "distribution", "private-use"],
+    conditions: [],
+    limitations: ["no-liability", "trademark-use", "patent-use"]
+  }
+];
+
+export const LICENSE_IDS = LICENSE_CATALOG.map(license => license.spdxId) as [string, ...string[]];
+
+/**
+ * Map SPDX variants such as "GPL-3.0-only" or "gpl-3.0-or-later" to a catalog ID.
+ */
+export function normalizeLicenseId(id: string): string | null {
+  const base = id.trim().replace(/-(only|or-later)$/i, "").replace(/\+$/, "");
+  const match = LICENSE_CATALOG.find(license => license.spdxId.toLowerCase() === base.toLowerCase());
+  return match ? match.spdxId : null;
+}
+
+export function getLicense(id: string): LicenseInfo {
+  const spdxId = normalizeLicenseId(id);
+  if (!spdxId) {
+    throw new Error(`Unknown license "${id}". Available licenses: ${LICENSE_IDS.join(", ")}`);
+  }
+  return LICENSE_CATALOG.find(license => license.spdxId === spdxId)!;
+}
+
+/**
+ * Render the full license text with the copyright holder and year filled in, plus any companion files.
+ */
+export function renderLicenseFiles(id: string, holder: string, year: number = new Date().getFullYear()): LicenseFile[] {
+  const license = getLicense(id);
+  const fill = (text: string) => text
+    .replace(/\[year\]/g, String(year))
+    .replace(/\[fullname\]/g, () => holder);
+
+  return [
+    { path: 'LICENSE', content: fill(LICENSE_TEXTS[license.spdxId]) },
+    ...(license.companionFiles ?? []).map(file => ({
+      path: file.path,
+      content: fill(LICENSE_TEXTS[file.spdxId])
+    }))
+  ];
+}
+
+export interface DependencyLicense {
+  name: string;
+  license?: string | null;
+}
+
+export interface LicenseRecommendation {
+  recommended: string;
+  alternatives: string[];
+  reasons: string[];
+  copyleftDependencies: Array<{ name: string; license: string }>;
+}
+
+// Licenses most projects in an ecosystem use, first choice first
+const ECOSYSTEM_LICENSES: Record<string, string[]> = {
+  JavaScript: ["MIT", "ISC", "Apache-2.0"],
+  TypeScript: ["MIT", "Apache-2.0", "ISC"],
+  Python: ["MIT", "Apache-2.0", "BSD-3-Clause"],
+  Rust: ["MIT", "Apache-2.0"],
+  Go: ["MIT", "BSD-3-Clause", "Apache-2.0"],
+  Java: ["Apache-2.0", "MIT"],
+  Kotlin: ["Apache-2.0", "MIT"],
+  Scala: ["Apache-2.0", "MIT"],
+  "C#": ["MIT", "Apache-2.0"],
+  Ruby: ["MIT"],
+  PHP: ["MIT", "BSD-3-Clause"],
+  Swift: ["MIT", "Apache-2.0"],
+  C: ["MIT", "BSD-3-Clause", "GPL-3.0"],
+  "C++": ["MIT", "Apache-2.0", "BSD-3-Clause"],
+  Shell: ["MIT"]
+};
+
+const CONTENT_LANGUAGES = ["HTML", "CSS", "TeX", "Markdown", "Jupyter Notebook"];
+
+/**
+ * Recommend a license from the repository's primary language and the licenses of its dependencies.
+ * Strong copyleft dependencies take precedence, since the project must stay compatible with them.
+ */
+export function recommendLicense(input: { language?: string | null; dependencies: DependencyLicense[] }): LicenseRecommendation {
+  const reasons: string[] = [];
+
+  const copyleftDependencies = input.dependencies
+    .filter(dep => dep.license)
+    .map(dep => {
+      // SBOM license expressions can be compound, e.g. "MIT OR GPL-3.0-only"; only all-copyleft choices bind
+      const options = dep.license!.split(/\s+OR\s+/i).map(option => {
+        const id = normalizeLicenseId(option.replace(/[()]/g, ""));
+        return id ? getLicense(id) : null;
+      });
+      const binding = options.every(option => option && (option.copyleft === "strong" || option.copyleft === "network"));
+      return binding ? { name: dep.name, license: dep.license!, level: options[0]!.copyleft, spdxId: options[0]!.spdxId } : null;
+    })
+    .filter((dep): dep is NonNullable<typeof dep> => dep !== null);
+
+  if (copyleftDependencies.some(dep => dep.level === "network")) {
+    reasons.push("Depends on AGPL-licensed packages, so the project must be distributed under the AGPL-3.0.");
+    return {
+      recommended: "AGPL-3.0",
+      alternatives: [],
+      reasons,
+      copyleftDependencies: copyleftDependencies.map(({ name, license }) => ({ name, license }))
+    };
+  }
+
+  if (copyleftDependencies.length > 0) {
+    const gpl2Only = copyleftDependencies.some(dep => /GPL-2\.0(-only)?$/i.test(dep.license.trim()));
+    reasons.push(`Depends on GPL-licensed packages (${copyleftDependencies.map(dep => dep.name).join(", ")}), so the project must use a compatible GPL license.`);
+    return {
+      recommended: gpl2Only ? "GPL-2.0" : "GPL-3.0",
+      alternatives: gpl2Only ? [] : ["AGPL-3.0"],
+      reasons,
+      copyleftDependencies: copyleftDependencies.map(({ name, license }) => ({ name, license }))
+    };
+  }
+
+  if (input.language && CONTENT_LANGUAGES.includes(input.language)) {
+    reasons.push(`${input.language} projects are often content rather than code; MIT keeps reuse simple, CC0-1.0 gives it away entirely.`);
+    return { recommended: "MIT", alternatives: ["CC0-1.0", "Unlicense"], reasons, copyleftDependencies: [] };
+  }
+
+  const conventional = (input.language && ECOSYSTEM_LICENSES[input.language]) || ["MIT", "Apache-2.0"];
+  if (input.language && ECOSYSTEM_LICENSES[input.language]) {
+    reasons.push(`${conventional[0]} is the most common license for ${input.language} projects.`);
+  } else {
+    reasons.push("MIT is the most widely used permissive license.");
+  }
+  if (input.dependencies.length > 0) {
+    reasons.push(`None of the ${input.dependencies.length} dependencies require a copyleft license.`);
+  }
+  if (conventional[0] !== "Apache-2.0" && conventional.includes("Apache-2.0")) {
+    reasons.push("Choose Apache-2.0 instead if you want an explicit patent grant.");
+  }
+
+  return {
+    recommended: conventional[0],
+    alternatives: conventional.slice(1),
+    reasons,
+    copyleftDependencies: []
+  };
+}
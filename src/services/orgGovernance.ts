@@ -0,0 +1,111 @@
+import { Octokit } from "@octokit/rest";
+import { Severity } from "./healthRules";
+import { TaskScheduler } from "./taskScheduler";
+
+/**
+ * Organization-wide settings that decide who can see and change repositories.
+ * Values are null when the token can't read them, which takes an organization owner.
+ */
+export interface OrganizationSettings {
+  basePermission: string | null;
+  twoFactorRequired: boolean | null;
+  membersCanCreateRepositories: boolean | null;
+  membersCanCreatePublicRepositories: boolean | null;
+  membersCanForkPrivateRepositories: boolean | null;
+}
+
+export interface TeamAccess {
+  team: string;
+  slug: string;
+  permission: string;
+}
+
+/**
+ * Same shape as the issues reported by analyzeAllRepositories. Organization-level issues
+ * carry the organization's login as their repo.
+ */
+export interface GovernanceIssue {
+  repo: string;
+  ruleId: string;
+  severity: Severity;
+  issue: string;
+}
+
+// Team permissions that make a team responsible for a repository, not just a contributor to it
+const OWNER_PERMISSIONS = ["admin", "maintain"];
+
+// Base permissions that let every member push to every repository
+const BROAD_BASE_PERMISSIONS = ["write", "admin"];
+
+export async function loadOrganizationSettings(octokit: Octokit, org: string): Promise<OrganizationSettings> {
+  const { data } = await octokit.orgs.get({ org });
+  return {
+    basePermission: data.default_repository_permission ?? null,
+    twoFactorRequired: data.two_factor_requirement_enabled ?? null,
+    membersCanCreateRepositories: data.members_can_create_repositories ?? null,
+    membersCanCreatePublicRepositories: data.members_can_create_public_repositories ?? null,
+    membersCanForkPrivateRepositories: data.members_can_fork_private_repositories ?? null
+  };
+}
+
+/**
+ * Every team's access to the organization's repositories, keyed by lowercase repository name.
+ */
+export async function loadTeamAccess(octokit: Octokit, org: string, scheduler: TaskScheduler): Promise<Map<string, TeamAccess[]>> {
+  const teams = await octokit.paginate(octokit.teams.list, { org, per_page: 100 });
+
+  const teamRepos = await scheduler.map(teams, team => octokit.paginate(octokit.teams.listReposInOrg, {
+    org,
+    team_slug: team.slug,
+    per_page: 100
+  }), "Loading team repositories");
+
+  const access = new Map<string, TeamAccess[]>();
+  for (const [i, team] of teams.entries()) {
+    for (const repo of teamRepos[i]) {
+      const permissions = repo.permissions;
+      const permission = repo.role_name
+        ?? (permissions?.admin ? "admin" : permissions?.maintain ? "maintain" : permissions?.push ? "write" : permissions?.triage ? "triage" : "read");
+      const key = repo.name.toLowerCase();
+      access.set(key, [...(access.get(key) ?? []), { team: team.name, slug: team.slug, permission }]);
+    }
+  }
+  return access;
+}
+
+export function isTeamOwner(access: TeamAccess): boolean {
+  return OWNER_PERMISSIONS.includes(access.permission);
+}
+
+/**
+ * Issues with the organization's own settings.
+ */
+export function settingsIssues(org: string, settings: OrganizationSettings): GovernanceIssue[] {
+  const issues: GovernanceIssue[] = [];
+
+  if (settings.twoFactorRequired === false) {
+    issues.push({
+      repo: org,
+      ruleId: "org-2fa-not-required",
+      severity: "high",
+      issue: "Members are not required to use two-factor authentication"
+    });
+  }
+  if (settings.basePermission && BROAD_BASE_PERMISSIONS.includes(settings.basePermission)) {
+    issues.push({
+      repo: org,
+      ruleId: "org-broad-base-permission",
+      severity: "medium",
+      issue: `Base permission "${settings.basePermission}" lets every member push to every repository`
+    });
+  }
+  if (settings.membersCanCreatePublicRepositories) {
+    issues.push({
+      repo: org,
+      ruleId: "org-public-repo-creation",
+      severity: "low",
+      issue: "Any member can create public repositories"
+    });
+  }
+  return issues;
+}
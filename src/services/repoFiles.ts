@@ -0,0 +1,183 @@
+import { Octokit } from "@octokit/rest";
+
+export type FileKind =
+  | "readme" | "license" | "contributing" | "code-of-conduct" | "security"
+  | "support" | "issue-templates" | "pull-request-template" | "funding" | "dependabot-config" | "workflows";
+
+/**
+ * Where each kind of well-known file may live and which names count. GitHub looks for community
+ * files in the root, docs/ and .github/, and accepts any common extension. Patterns only match inside
+ * a subdirectory when they name it, as the issue and pull request template folders do.
+ */
+const FILE_KINDS: Record<FileKind, { dirs: string[]; pattern: RegExp }> = {
+  "readme": {
+    dirs: ["", "docs/", ".github/"],
+    pattern: /^readme(\.(md|markdown|mdown|mkdn|rst|txt|adoc|asciidoc|org|textile|rdoc|pod|wiki))?$/i
+  },
+  "license": {
+    dirs: [""],
+    pattern: /^(licen[cs]e|copying|unlicense)([-.][\w.-]+)?$/i
+  },
+  "contributing": {
+    dirs: ["", "docs/", ".github/"],
+    pattern: /^contributing(\.(md|markdown|rst|txt|adoc))?$/i
+  },
+  "code-of-conduct": {
+    dirs: ["", "docs/", ".github/"],
+    pattern: /^code[_-]of[_-]conduct(\.(md|markdown|rst|txt|adoc))?$/i
+  },
+  "security": {
+    dirs: ["", "docs/", ".github/"],
+    pattern: /^security(\.(md|markdown|rst|txt|adoc))?$/i
+  },
+  "support": {
+    dirs: ["", "docs/", ".github/"],
+    pattern: /^support(\.(md|markdown|rst|txt|adoc))?$/i
+  },
+  "issue-templates": {
+    dirs: ["", "docs/", ".github/"],
+    // config.yml only configures the template chooser, it isn't a template
+    pattern: /^issue_template(\.(md|markdown|txt))?$|^issue_template\/(?!config\.ya?ml$)[^/]+\.(md|ya?ml)$/i
+  },
+  "pull-request-template": {
+    dirs: ["", "docs/", ".github/"],
+    pattern: /^pull_request_template(\.(md|markdown|txt))?$|^pull_request_template\/[^/]+\.md$/i
+  },
+  "funding": {
+    dirs: [".github/"],
+    pattern: /^funding\.ya?ml$/i
+  },
+  "dependabot-config": {
+    dirs: [".github/"],
+    pattern: /^dependabot\.ya?ml$/i
+  },
+  "workflows": {
+    dirs: [".github/"],
+    pattern: /^workflows\/[^/]+\.ya?ml$/i
+  }
+};
+
+interface TreeEntry {
+  path: string;
+  type: "blob" | "tree";
+  sha: string;
+  size?: number;
+}
+
+/**
+ * Every file path in a repository's default branch, from one tree listing, plus the path
+ * GitHub's readme endpoint reports. All presence checks and fixers go through this.
+ */
+export class RepoFileIndex {
+  private entries = new Map<string, TreeEntry>();
+
+  private constructor(entries: TreeEntry[], private readmePath: string | null, readonly truncated: boolean) {
+    for (const entry of entries) {
+      this.entries.set(entry.path.toLowerCase(), entry);
+    }
+  }
+
+  /**
+   * Load the index for a repository. Empty repositories produce an empty index.
+   */
+  static async load(octokit: Octokit, owner: string, repo: string, ref: string = "HEAD"): Promise<RepoFileIndex> {
+    const [entries, truncated] = await RepoFileIndex.loadTree(octokit, owner, repo, ref);
+
+    let readmePath: string | null = null;
+    try {
+      const { data } = await octokit.repos.getReadme({ owner, repo });
+      readmePath = data.path;
+    } catch (error: any) {
+      if (error.status !== 404) throw error;
+    }
+
+    return new RepoFileIndex(entries, readmePath, truncated);
+  }
+
+  private static async loadTree(octokit: Octokit, owner: string, repo: string, ref: string): Promise<[TreeEntry[], boolean]> {
+    const toEntries = (tree: Array<{ path?: string; type?: string; sha?: string; size?: number }>, prefix = "") => tree
+      .filter(item => item.path && item.sha && (item.type === "blob" || item.type === "tree"))
+      .map(item => ({ path: prefix + item.path, type: item.type as TreeEntry["type"], sha: item.sha!, size: item.size }));
+
+    try {
+      const { data } = await octokit.git.getTree({ owner, repo, tree_sha: ref, recursive: "true" });
+      if (!data.truncated) {
+        return [toEntries(data.tree), false];
+      }
+
+      // Too large for one recursive listing: fall back to the directories well-known files live in
+      const { data: root } = await octokit.git.getTree({ owner, repo, tree_sha: ref });
+      const entries = toEntries(root.tree);
+      for (const dir of entries.filter(e => e.type === "tree" && [".github", "docs"].includes(e.path))) {
+        const { data: sub } = await octokit.git.getTree({ owner, repo, tree_sha: dir.sha, recursive: "true" });
+        entries.push(...toEntries(sub.tree, `${dir.path}/`));
+      }
+      return [entries, true];
+    } catch (error: any) {
+      // 409: the repository is empty
+      if (error.status === 409 || error.status === 404) return [[], false];
+      throw error;
+    }
+  }
+
+  /**
+   * Whether a file exists at this path, ignoring case.
+   */
+  has(path: string): boolean {
+    return this.entries.get(path.toLowerCase())?.type === "blob";
+  }
+
+  /**
+   * Blob SHA of the file at this path, if it exists.
+   */
+  sha(path: string): string | null {
+    const entry = this.entries.get(path.toLowerCase());
+    return entry?.type === "blob" ? entry.sha : null;
+  }
+
+  /**
+   * Size in bytes of the file at this path, if it exists and the tree listing reported it.
+   */
+  size(path: string): number | null {
+    const entry = this.entries.get(path.toLowerCase());
+    return entry?.type === "blob" ? entry.size ?? null : null;
+  }
+
+  /**
+   * All file paths, in tree order.
+   */
+  files(): string[] {
+    return [...this.entries.values()].filter(e => e.type === "blob").map(e => e.path);
+  }
+
+  /**
+   * Path of the first file of this kind, checking directories in GitHub's precedence order.
+   */
+  find(kind: FileKind): string | null {
+    if (kind === "readme" && this.readmePath) return this.readmePath;
+
+    const { dirs, pattern } = FILE_KINDS[kind];
+    for (const dir of dirs) {
+      for (const entry of this.entries.values()) {
+        if (entry.type !== "blob" || !entry.path.toLowerCase().startsWith(dir)) continue;
+        const name = entry.path.slice(dir.length);
+        if (pattern.test(name)) return entry.path;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Text content of a file, or null if it doesn't exist.
+ */
+export async function readRepoFile(octokit: Octokit, owner: string, repo: string, path: string, ref?: string): Promise<string | null> {
+  try {
+    const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+    if (Array.isArray(data) || data.type !== "file" || !("content" in data)) return null;
+    return Buffer.from(data.content, "base64").toString("utf8");
+  } catch (error: any) {
+    if (error.status === 404) return null;
+    throw error;
+  }
+}
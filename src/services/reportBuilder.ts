@@ -0,0 +1,473 @@
+import fs from "fs";
+import { randomBytes } from "crypto";
+import { JsonFileStore, dataPath } from "./dataStore";
+import { Severity } from "./healthRules";
+import { GitHubFunctions } from "./githubFunctions";
+
+export type ReportFormat = "markdown" | "html" | "csv" | "json";
+
+export const REPORT_FORMATS: [ReportFormat, ...ReportFormat[]] = ["markdown", "html", "csv", "json"];
+
+export type PortfolioStatistics = Awaited<ReturnType<GitHubFunctions["getPortfolioStatistics"]>>;
+export type RepositoryHealth = Awaited<ReturnType<GitHubFunctions["getRepositoryHealth"]>>;
+
+export interface ReportIssue {
+  ruleId: string;
+  title: string;
+  /** Null for rules removed since the analysis */
+  severity: Severity | null;
+}
+
+export interface ReportRepository {
+  /** Full name, owner/repo */
+  repo: string;
+  url: string;
+  score: number;
+  issues: ReportIssue[];
+}
+
+export interface PortfolioReport {
+  kind: "portfolio";
+  title: string;
+  generatedAt: string;
+  summary: string;
+  snapshotId: string;
+  repositories: ReportRepository[];
+  /** Null when the report was built without statistics */
+  statistics: PortfolioStatistics | null;
+}
+
+export interface RepositoryReport {
+  kind: "repository";
+  title: string;
+  generatedAt: string;
+  repo: string;
+  url: string;
+  health: RepositoryHealth;
+}
+
+export type Report = PortfolioReport | RepositoryReport;
+
+export interface RenderedReport {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+export interface StoredReport {
+  id: string;
+  title: string;
+  format: ReportFormat;
+  fileName: string;
+  createdAt: string;
+  /** Identity of the credential that exported it, which can always download it */
+  credential: string;
+  /** Until when the link works for anyone who has it */
+  expiresAt: string;
+}
+
+/** Reports kept for download; older files are deleted */
+const MAX_STORED_REPORTS = 200;
+
+/** How long a download link works without the exporting credential */
+const LINK_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+const SEVERITY_ORDER: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+
+function bySeverity(a: ReportIssue, b: ReportIssue): number {
+  return (a.severity ? SEVERITY_ORDER[a.severity] : 3) - (b.severity ? SEVERITY_ORDER[b.severity] : 3);
+}
+
+function countBySeverity(issues: ReportIssue[]): Record<Severity, number> {
+  return {
+    high: issues.filter(i => i.severity === "high").length,
+    medium: issues.filter(i => i.severity === "medium").length,
+    low: issues.filter(i => i.severity === "low").length
+  };
+}
+
+function sortedRepositories(report: PortfolioReport): ReportRepository[] {
+  return [...report.repositories].sort((a, b) => a.score - b.score || a.repo.localeCompare(b.repo));
+}
+
+function topEntries(record: Record<string, number>, limit: number): Array<[string, number]> {
+  return Object.entries(record).sort((a, b) => b[1] - a[1]).slice(0, limit);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+function securityValue(value: boolean | null): string {
+  return value === null ? "unknown" : value ? "on" : "off";
+}
+
+/**
+ * Key figures from the portfolio statistics as label/value rows, shared by the Markdown and HTML reports.
+ */
+function statisticRows(stats: PortfolioStatistics): Array<[string, string]> {
+  return [
+    ["Repositories", `${stats.totalRepositories} (${stats.publicRepos} public, ${stats.privateRepos} private)`],
+    ["Archived", `${stats.archivedRepos} (${stats.archivedShare}%)`],
+    ["Forks", `${stats.forkRepos} (${stats.forkShare}%)`],
+    ["Stars / forks", `${stats.totalStars} / ${stats.totalForks}`],
+    ["Average health score", String(stats.averageHealthScore)],
+    ["README coverage", `${stats.readmeCoverage}%`],
+    ["License coverage", `${stats.licenseCoverage}%`],
+    ...Object.entries(stats.communityFileCoverage).map(([label, coverage]): [string, string] => [`${label} coverage`, `${coverage}%`]),
+    ["Vulnerability alerts on", `${stats.securityCoverage.vulnerabilityAlerts}%`],
+    ["Dependabot security updates on", `${stats.securityCoverage.securityUpdates}%`],
+    ["dependabot.yml present", `${stats.securityCoverage.dependabotConfig}%`],
+    ["Secret scanning on", `${stats.securityCoverage.secretScanning}%`],
+    ["Code scanning on", `${stats.securityCoverage.codeScanning}%`],
+    ["Open Dependabot alerts", `${stats.openDependabotAlerts.total} (${stats.openDependabotAlerts.critical} critical, ${stats.openDependabotAlerts.high} high) in ${stats.openDependabotAlerts.repositories} repositories`],
+    ["Pushed in the last 30 days", String(stats.activity.last30Days)],
+    ["Pushed in the last 6 months", String(stats.activity.last6Months)],
+    ["Pushed in the last 12 months", String(stats.activity.last12Months)],
+    ["Not pushed for over a year", String(stats.activity.older)]
+  ];
+}
+
+function securityRows(health: RepositoryHealth): Array<[string, string]> {
+  const { security } = health;
+  return [
+    ["Vulnerability alerts", securityValue(security.vulnerabilityAlerts)],
+    ["Dependabot security updates", securityValue(security.securityUpdates)],
+    ["dependabot.yml", security.dependabotConfig ?? "missing"],
+    ["Package ecosystems not covered by dependabot.yml", security.uncoveredEcosystems.map(e => `${e.ecosystem} (${e.directories.join(", ")})`).join(", ") || "none"],
+    ["Open Dependabot alerts", security.openAlerts
+      ? `${security.openAlerts.total} (${security.openAlerts.critical} critical, ${security.openAlerts.high} high)`
+      : "unknown"],
+    ["Secret scanning", securityValue(security.secretScanning)],
+    ["Push protection", securityValue(security.pushProtection)],
+    ["Code scanning", securityValue(security.codeScanning)]
+  ];
+}
+
+// Markdown
+
+function markdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function markdownTable(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map(row => `| ${row.map(markdownCell).join(" | ")} |`)
+  ];
+}
+
+function issueLine(issue: ReportIssue): string {
+  return `- **${issue.severity ?? "unknown"}** ${issue.title} (\`${issue.ruleId}\`)`;
+}
+
+function renderMarkdown(report: Report): string {
+  const lines = [`# ${report.title}`, "", `Generated ${report.generatedAt}`, ""];
+
+  if (report.kind === "repository") {
+    const { health } = report;
+    lines.push(`[${report.repo}](${report.url}) has a health score of **${health.healthScore}**/100.`, "");
+    lines.push("## Issues", "", ...(health.issues.length ? health.issues.map(issue => `- ${issue}`) : ["None"]), "");
+    lines.push("## Recommendations", "");
+    lines.push(...(health.recommendations.length
+      ? health.recommendations.map(r => `- **${r.priority}** ${r.action}`)
+      : ["None"]), "");
+    lines.push("## Strengths", "", ...(health.strengths.length ? health.strengths.map(s => `- ${s}`) : ["None"]), "");
+    lines.push("## Security", "", ...markdownTable(["Feature", "Status"], securityRows(health)), "");
+    return lines.join("\n");
+  }
+
+  lines.push(report.summary, "");
+
+  if (report.statistics) {
+    const stats = report.statistics;
+    lines.push("## Statistics", "", ...markdownTable(["Metric", "Value"], statisticRows(stats)), "");
+    lines.push("### Health score distribution", "",
+      ...markdownTable(["Score", "Repositories"], Object.entries(stats.healthScoreDistribution).map(([range, count]) => [range, String(count)])), "");
+    lines.push("### Languages", "",
+      ...markdownTable(["Language", "Main language of", "Code"], topEntries(stats.languageBytes, 10).map(([language, bytes]) =>
+        [language, String(stats.languages[language] ?? 0), formatBytes(bytes)])), "");
+    if (stats.insights.length > 0) {
+      lines.push("### Insights", "", ...stats.insights.map(insight => `- ${insight}`), "");
+    }
+  }
+
+  const repos = sortedRepositories(report);
+  lines.push("## Repositories", "", ...markdownTable(["Repository", "Score", "High", "Medium", "Low"], repos.map(repo => {
+    const counts = countBySeverity(repo.issues);
+    return [`[${repo.repo}](${repo.url})`, String(repo.score), String(counts.high), String(counts.medium), String(counts.low)];
+  })), "");
+
+  lines.push("## Issues", "");
+  const withIssues = repos.filter(repo => repo.issues.length > 0);
+  if (withIssues.length === 0) lines.push("No issues found.", "");
+  for (const repo of withIssues) {
+    lines.push(`### ${repo.repo} (${repo.score})`, "", ...[...repo.issues].sort(bySeverity).map(issueLine), "");
+  }
+  return lines.join("\n");
+}
+
+// HTML
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function scoreClass(score: number): string {
+  return score >= 90 ? "good" : score >= 70 ? "fair" : score >= 50 ? "poor" : "bad";
+}
+
+function htmlTable(headers: string[], rows: string[][], rawColumns: number[] = []): string {
+  const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows.map(row =>
+    `<tr>${row.map((cell, i) => `<td>${rawColumns.includes(i) ? cell : escapeHtml(cell)}</td>`).join("")}</tr>`
+  ).join("\n");
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+function htmlList(items: string[]): string {
+  return items.length ? `<ul>\n${items.map(item => `<li>${item}</li>`).join("\n")}\n</ul>` : "<p>None</p>";
+}
+
+function severityTag(severity: string | null): string {
+  return `<span class="severity ${severity ?? "unknown"}">${escapeHtml(severity ?? "unknown")}</span>`;
+}
+
+function scoreTag(score: number): string {
+  return `<span class="score ${scoreClass(score)}">${score}</span>`;
+}
+
+function link(url: string, text: string): string {
+  return `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`;
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 1000px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { border-bottom: 1px solid #d1d9e0; padding-bottom: .3rem; }
+h2 { margin-top: 2rem; border-bottom: 1px solid #d1d9e0; padding-bottom: .3rem; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d1d9e0; padding: .35rem .75rem; text-align: left; }
+th { background: #f6f8fa; }
+a { color: #0969da; text-decoration: none; }
+.meta { color: #59636e; }
+.score { display: inline-block; min-width: 2.5rem; text-align: center; border-radius: 1rem; font-weight: 600; padding: 0 .5rem; }
+.score.good { background: #dafbe1; color: #116329; }
+.score.fair { background: #fff8c5; color: #7d4e00; }
+.score.poor { background: #ffe7d1; color: #953800; }
+.score.bad { background: #ffebe9; color: #a40e26; }
+.severity { font-size: .8rem; font-weight: 600; text-transform: uppercase; margin-right: .4rem; }
+.severity.high { color: #a40e26; }
+.severity.medium { color: #953800; }
+.severity.low, .severity.unknown { color: #59636e; }
+code { background: #f6f8fa; padding: 0 .25rem; border-radius: 4px; }
+`;
+
+function renderHtml(report: Report): string {
+  const sections: string[] = [
+    `<h1>${escapeHtml(report.title)}</h1>`,
+    `<p class="meta">Generated ${escapeHtml(report.generatedAt)}</p>`
+  ];
+
+  if (report.kind === "repository") {
+    const { health } = report;
+    sections.push(
+      `<p>${link(report.url, report.repo)} has a health score of ${scoreTag(health.healthScore)}</p>`,
+      "<h2>Issues</h2>", htmlList(health.issues.map(escapeHtml)),
+      "<h2>Recommendations</h2>", htmlList(health.recommendations.map(r => `${severityTag(r.priority)}${escapeHtml(r.action)}`)),
+      "<h2>Strengths</h2>", htmlList(health.strengths.map(escapeHtml)),
+      "<h2>Security</h2>", htmlTable(["Feature", "Status"], securityRows(health))
+    );
+  } else {
+    sections.push(`<p>${escapeHtml(report.summary)}</p>`);
+
+    if (report.statistics) {
+      const stats = report.statistics;
+      sections.push(
+        "<h2>Statistics</h2>", htmlTable(["Metric", "Value"], statisticRows(stats)),
+        "<h3>Health score distribution</h3>",
+        htmlTable(["Score", "Repositories"], Object.entries(stats.healthScoreDistribution).map(([range, count]) => [range, String(count)])),
+        "<h3>Languages</h3>",
+        htmlTable(["Language", "Main language of", "Code"], topEntries(stats.languageBytes, 10).map(([language, bytes]) =>
+          [language, String(stats.languages[language] ?? 0), formatBytes(bytes)]))
+      );
+      if (stats.insights.length > 0) {
+        sections.push("<h3>Insights</h3>", htmlList(stats.insights.map(escapeHtml)));
+      }
+    }
+
+    const repos = sortedRepositories(report);
+    sections.push("<h2>Repositories</h2>", htmlTable(["Repository", "Score", "High", "Medium", "Low"], repos.map(repo => {
+      const counts = countBySeverity(repo.issues);
+      return [link(repo.url, repo.repo), scoreTag(repo.score), String(counts.high), String(counts.medium), String(counts.low)];
+    }), [0, 1]));
+
+    sections.push("<h2>Issues</h2>");
+    const withIssues = repos.filter(repo => repo.issues.length > 0);
+    if (withIssues.length === 0) sections.push("<p>No issues found.</p>");
+    for (const repo of withIssues) {
+      sections.push(
+        `<h3>${link(repo.url, repo.repo)} ${scoreTag(repo.score)}</h3>`,
+        htmlList([...repo.issues].sort(bySeverity).map(issue =>
+          `${severityTag(issue.severity)}${escapeHtml(issue.title)} <code>${escapeHtml(issue.ruleId)}</code>`))
+      );
+    }
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(report.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...sections,
+    "</body>",
+    "</html>",
+    ""
+  ].join("\n");
+}
+
+// CSV
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRows(rows: Array<Array<string | number>>): string {
+  return rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * One row per repository for portfolio reports, one row per finding for repository reports.
+ */
+function renderCsv(report: Report): string {
+  if (report.kind === "repository") {
+    const { health } = report;
+    return csvRows([
+      ["repository", "type", "priority", "text"],
+      [report.repo, "score", "", health.healthScore],
+      ...health.recommendations.map(r => [report.repo, "recommendation", r.priority, r.action]),
+      ...health.strengths.map(s => [report.repo, "strength", "", s]),
+      ...securityRows(health).map(([feature, status]) => [report.repo, "security", "", `${feature}: ${status}`])
+    ]);
+  }
+
+  return csvRows([
+    ["repository", "url", "score", "high", "medium", "low", "issues", "rule_ids"],
+    ...sortedRepositories(report).map(repo => {
+      const counts = countBySeverity(repo.issues);
+      return [
+        repo.repo,
+        repo.url,
+        repo.score,
+        counts.high,
+        counts.medium,
+        counts.low,
+        repo.issues.map(i => i.title).join("; "),
+        repo.issues.map(i => i.ruleId).join(" ")
+      ];
+    })
+  ]);
+}
+
+const RENDERERS: Record<ReportFormat, { render: (report: Report) => string; contentType: string; extension: string }> = {
+  markdown: { render: renderMarkdown, contentType: "text/markdown; charset=utf-8", extension: "md" },
+  html: { render: renderHtml, contentType: "text/html; charset=utf-8", extension: "html" },
+  csv: { render: renderCsv, contentType: "text/csv; charset=utf-8", extension: "csv" },
+  json: { render: report => JSON.stringify(report, null, 2), contentType: "application/json; charset=utf-8", extension: "json" }
+};
+
+export function renderReport(report: Report, format: ReportFormat): RenderedReport {
+  const { render, contentType, extension } = RENDERERS[format];
+  return { content: render(report), contentType, extension };
+}
+
+/**
+ * File name offered to the browser, from the report's title and date.
+ */
+export function downloadName(report: { title: string; createdAt: string }, extension: string): string {
+  const slug = report.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${slug || "report"}-${report.createdAt.slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Base URL of this server as seen by whoever opens a download link (ORGANIZER_PUBLIC_URL).
+ */
+export function publicBaseUrl(): string {
+  const configured = process.env.ORGANIZER_PUBLIC_URL;
+  return configured ? configured.replace(/\/+$/, "") : `http://localhost:${process.env.PORT || 5000}`;
+}
+
+function newReportId(): string {
+  // The ID is all it takes to download a report, so it has to be unguessable
+  return `report_${randomBytes(16).toString("hex")}`;
+}
+
+/**
+ * Whether a saved report may be downloaded: by the credential that exported it at any time, and
+ * by anyone else with the link until it expires.
+ */
+export function canDownload(report: StoredReport, credential: string | null): boolean {
+  return report.credential === credential || Date.now() < new Date(report.expiresAt).getTime();
+}
+
+/**
+ * Rendered reports saved to the reports directory so they can be downloaded by link.
+ */
+export class ReportStore {
+  private index = new JsonFileStore<{ reports: StoredReport[] }>("reports.json", () => ({ reports: [] }));
+
+  save(report: Report, format: ReportFormat, credential: string): StoredReport {
+    const rendered = renderReport(report, format);
+    const id = newReportId();
+    const stored: StoredReport = {
+      id,
+      title: report.title,
+      format,
+      fileName: `${id}.${rendered.extension}`,
+      createdAt: report.generatedAt,
+      credential,
+      expiresAt: new Date(Date.now() + LINK_LIFETIME_MS).toISOString()
+    };
+
+    fs.writeFileSync(dataPath("reports", stored.fileName), rendered.content);
+    this.index.update(doc => {
+      doc.reports.push(stored);
+      for (const dropped of doc.reports.splice(0, Math.max(0, doc.reports.length - MAX_STORED_REPORTS))) {
+        fs.rmSync(dataPath("reports", dropped.fileName), { force: true });
+      }
+    });
+    return stored;
+  }
+
+  /**
+   * A saved report's file contents, or null if it's unknown or has been deleted.
+   */
+  read(reportId: string): { report: StoredReport; content: Buffer; contentType: string } | null {
+    const report = this.index.read().reports.find(r => r.id === reportId);
+    if (!report) return null;
+    try {
+      return {
+        report,
+        content: fs.readFileSync(dataPath("reports", report.fileName)),
+        contentType: RENDERERS[report.format].contentType
+      };
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
+
+export const reportStore = new ReportStore();
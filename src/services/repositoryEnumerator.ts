@@ -0,0 +1,149 @@
+import { Octokit, RestEndpointMethodTypes } from "@octokit/rest";
+import { z } from "zod";
+
+/**
+ * Repository shape shared by the user, org and authenticated-user listing endpoints.
+ */
+export type GitHubRepository =
+  RestEndpointMethodTypes["repos"]["listForOrg"]["response"]["data"][number];
+
+/**
+ * The repository fields the analysis code relies on, satisfied by both listing results and repos.get.
+ */
+export type RepositoryInfo = Pick<GitHubRepository,
+  "name" | "full_name" | "owner" | "html_url" | "description" | "homepage" |
+  "private" | "fork" | "archived" | "default_branch" | "language" | "topics" |
+  "stargazers_count" | "forks_count" | "open_issues_count" | "pushed_at" | "updated_at" | "created_at"> & {
+  license?: { key?: string; name?: string; spdx_id?: string | null } | null;
+};
+
+export type RepositoryAffiliation = "owner" | "collaborator" | "organization_member";
+
+/**
+ * Describes whose repositories to enumerate and which ones to keep.
+ */
+export interface RepositoryTarget {
+  username?: string;
+  org?: string;
+  affiliation?: RepositoryAffiliation[];
+  includePrivate?: boolean;
+  includeForks?: boolean;
+  includeArchived?: boolean;
+}
+
+/**
+ * Zod fields for RepositoryTarget, spread into the input schema of every listing function
+ * so the agent can target the same set of repositories everywhere.
+ */
+export const repositoryTargetFields = {
+  username: z.string().optional().describe("GitHub username to analyze (optional, defaults to authenticated user)"),
+  org: z.string().optional().describe("GitHub organization to analyze instead of a user (optional)"),
+  affiliation: z.array(z.enum(["owner", "collaborator", "organization_member"])).optional()
+    .describe("Which of the authenticated user's repositories to include: owned, collaborator or organization member (optional, defaults to all)"),
+  includePrivate: z.boolean().optional().default(true).describe("Include private repositories"),
+  includeForks: z.boolean().optional().default(true).describe("Include forked repositories"),
+  includeArchived: z.boolean().optional().default(true).describe("Include archived repositories")
+};
+
+/**
+ * Who the client acts as: a user, or the account a GitHub App installation belongs to.
+ */
+export interface AuthenticatedAccount {
+  login: string;
+  name: string;
+}
+
+/**
+ * Pages through every repository of the authenticated user, another user or an organization.
+ * Clients authenticated as a GitHub App installation list the repositories the installation can access.
+ */
+export class RepositoryEnumerator {
+  private account: AuthenticatedAccount | null = null;
+
+  constructor(private octokit: Octokit, private installationId?: number) {}
+
+  /**
+   * List all repositories for the target, applying the private/fork/archived filters.
+   */
+  async list(target: RepositoryTarget = {}): Promise<GitHubRepository[]> {
+    const repos = await this.fetchAll(target);
+
+    return repos.filter(repo => {
+      if (target.includePrivate === false && repo.private) return false;
+      if (target.includeForks === false && repo.fork) return false;
+      if (target.includeArchived === false && repo.archived) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Login of the user the client is authenticated as.
+   */
+  async getAuthenticatedLogin(): Promise<string> {
+    return (await this.getAuthenticatedAccount()).login;
+  }
+
+  /**
+   * Login and display name of the authenticated user, or of the installation's account for a GitHub App.
+   */
+  async getAuthenticatedAccount(): Promise<AuthenticatedAccount> {
+    if (!this.account) {
+      if (this.installationId) {
+        const { data: installation } = await this.octokit.apps.getInstallation({ installation_id: this.installationId });
+        const account = installation.account;
+        const login = account && "login" in account ? account.login : account?.slug ?? "";
+        this.account = { login, name: account?.name || login };
+      } else {
+        const { data: user } = await this.octokit.users.getAuthenticated();
+        this.account = { login: user.login, name: user.name || user.login };
+      }
+    }
+    return this.account;
+  }
+
+  private async fetchAll(target: RepositoryTarget): Promise<GitHubRepository[]> {
+    if (target.org) {
+      const repos = await this.octokit.paginate(this.octokit.repos.listForOrg, {
+        org: target.org,
+        type: "all",
+        sort: "updated",
+        direction: "desc",
+        per_page: 100
+      });
+      return repos;
+    }
+
+    if (target.username && !(await this.isAuthenticatedUser(target.username))) {
+      // The public listing for another user only distinguishes owned from member repos
+      const ownedOnly = !target.affiliation || target.affiliation.every(a => a === "owner");
+      const repos = await this.octokit.paginate(this.octokit.repos.listForUser, {
+        username: target.username,
+        type: ownedOnly ? "owner" : "all",
+        sort: "updated",
+        direction: "desc",
+        per_page: 100
+      });
+      return repos;
+    }
+
+    if (this.installationId) {
+      // An installation has no repositories of its own, only the ones it was granted
+      const repos = await this.octokit.paginate(this.octokit.apps.listReposAccessibleToInstallation, { per_page: 100 });
+      return repos as GitHubRepository[];
+    }
+
+    const repos = await this.octokit.paginate(this.octokit.repos.listForAuthenticatedUser, {
+      affiliation: target.affiliation?.length ? target.affiliation.join(",") : undefined,
+      visibility: target.includePrivate === false ? "public" : "all",
+      sort: "updated",
+      direction: "desc",
+      per_page: 100
+    });
+    return repos as GitHubRepository[];
+  }
+
+  private async isAuthenticatedUser(username: string): Promise<boolean> {
+    const login = await this.getAuthenticatedLogin();
+    return login.toLowerCase() === username.toLowerCase();
+  }
+}
@@ -0,0 +1,230 @@
+import { Octokit } from "@octokit/rest";
+import { RepoFileIndex } from "./repoFiles";
+import { TaskScheduler } from "./taskScheduler";
+
+export type SecretSeverity = "high" | "medium";
+
+/**
+ * A possible secret in a repository. The secret itself is never returned, only a masked excerpt.
+ */
+export interface SecretFinding {
+  rule: string;
+  title: string;
+  severity: SecretSeverity;
+  path: string;
+  line: number | null;
+  excerpt: string | null;
+  /** The commit that added it, for findings that are only in the history */
+  commit: string | null;
+}
+
+export interface SecretScanResult {
+  findings: SecretFinding[];
+  scannedFiles: number;
+  /** Files not read because they are binary, too large, vendored or over the file limit */
+  skippedFiles: number;
+  scannedCommits: number;
+  /** False when the tree was too large to list, or a text file was too large or over the file limit to read */
+  complete: boolean;
+}
+
+export interface SecretScanOptions {
+  /** Recent commits on the default branch whose added lines are scanned too */
+  historyCommits?: number;
+}
+
+interface ContentPattern {
+  rule: string;
+  title: string;
+  severity: SecretSeverity;
+  pattern: RegExp;
+  /** Capture group holding the secret, masked in the excerpt. The whole match when omitted. */
+  group?: number;
+}
+
+// Credential formats with a recognisable prefix or shape. Kept specific, since a false positive
+// blocks making a repository public until someone overrides it.
+const CONTENT_PATTERNS: ContentPattern[] = [
+  { rule: "private-key", title: "Private key", severity: "high", pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/ },
+  { rule: "aws-access-key-id", title: "AWS access key ID", severity: "high", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { rule: "aws-secret-access-key", title: "AWS secret access key", severity: "high", pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i, group: 1 },
+  { rule: "github-token", title: "GitHub token", severity: "high", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/ },
+  { rule: "gitlab-token", title: "GitLab personal access token", severity: "high", pattern: /\bglpat-[A-Za-z0-9_-]{20}\b/ },
+  { rule: "slack-token", title: "Slack token", severity: "high", pattern: /\bxox[abeprs]-[A-Za-z0-9-]{10,}/ },
+  { rule: "slack-webhook", title: "Slack webhook URL", severity: "medium", pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/([A-Za-z0-9]{16,})/, group: 1 },
+  { rule: "stripe-secret-key", title: "Stripe secret key", severity: "high", pattern: /\b[rs]k_live_[0-9a-zA-Z]{24,}\b/ },
+  { rule: "google-api-key", title: "Google API key", severity: "medium", pattern: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/ },
+  { rule: "openai-api-key", title: "OpenAI API key", severity: "high", pattern: /\bsk-(?:proj-|svcacct-)?[A-Za-z0-9_-]*T3BlbkFJ[A-Za-z0-9_-]+/ },
+  { rule: "anthropic-api-key", title: "Anthropic API key", severity: "high", pattern: /\bsk-ant-[A-Za-z0-9_-]{80,}/ },
+  { rule: "npm-token", title: "npm access token", severity: "high", pattern: /\bnpm_[A-Za-z0-9]{36}\b/ },
+  { rule: "sendgrid-api-key", title: "SendGrid API key", severity: "high", pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/ },
+  { rule: "twilio-api-key", title: "Twilio API key", severity: "medium", pattern: /\bSK[0-9a-f]{32}\b/ },
+  { rule: "database-url", title: "Connection string with a password", severity: "medium", pattern: /\b(?:postgres(?:ql)?|mysql|mongodb(?:\+srv)?|redis|amqps?):\/\/[^\s:@/"']+:([^\s@/"']+)@/, group: 1 },
+  { rule: "hardcoded-secret", title: "Hard-coded password or API key", severity: "medium", pattern: /\b(?:api[_-]?key|secret[_-]?key|client[_-]?secret|access[_-]?token|auth[_-]?token|passw(?:or)?d)["']?\s*[:=]\s*["']([^"'\s]{12,})["']/i, group: 1 }
+];
+
+interface PathPattern {
+  rule: string;
+  title: string;
+  severity: SecretSeverity;
+  pattern: RegExp;
+}
+
+// Files that hold credentials by their nature, whatever they contain
+const PATH_PATTERNS: PathPattern[] = [
+  { rule: "env-file", title: "Environment file", severity: "high", pattern: /(^|\/)\.env(\.(?!example$|sample$|template$|dist$|defaults$)[\w-]+)?$/i },
+  { rule: "ssh-private-key", title: "SSH private key", severity: "high", pattern: /(^|\/)id_(rsa|dsa|ecdsa|ed25519)$/ },
+  { rule: "keystore", title: "Certificate or key store", severity: "high", pattern: /\.(p12|pfx|jks|keystore)$/i },
+  { rule: "key-file", title: "Key file", severity: "medium", pattern: /\.(pem|key)$/i },
+  { rule: "credentials-file", title: "Credentials file", severity: "medium", pattern: /(^|\/)(\.git-credentials|\.netrc|\.pypirc|\.htpasswd|\.aws\/credentials|\.docker\/config\.json|credentials\.json|service[-_]?account[\w.-]*\.json)$/i },
+  { rule: "terraform-state", title: "Terraform state", severity: "medium", pattern: /\.tfstate(\.backup)?$/i }
+];
+
+// Values that are obviously not real secrets
+const PLACEHOLDER = /example|sample|dummy|placeholder|changeme|change_me|your[_-]|xxxx|\*\*\*\*|<[^>]*>|\$\{|\{\{|%\(|^(password|secret|test|redacted)/i;
+
+// Content that can't hold a readable secret, or belongs to someone else's code
+const BINARY_EXTENSIONS = /\.(png|jpe?g|gif|bmp|ico|webp|svg|pdf|zip|gz|tgz|bz2|xz|7z|rar|jar|war|class|exe|dll|so|dylib|o|a|wasm|woff2?|ttf|otf|eot|mp[34]|mov|avi|webm|wav|ogg|flac|psd|sqlite|db|bin)$/i;
+const VENDORED = /(^|\/)(node_modules|vendor|third_party|bower_components|\.git)\//;
+const LOCKFILES = /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|Gemfile\.lock|composer\.lock|go\.sum)$/;
+
+/** Files read per scan, one request each */
+const MAX_SCANNED_FILES = 500;
+const MAX_FILE_BYTES = 512 * 1024;
+
+function mask(secret: string): string {
+  return `${secret.slice(0, 4)}${"*".repeat(Math.min(12, Math.max(4, secret.length - 4)))}`;
+}
+
+/**
+ * Credential formats found in a file's text, with their line numbers.
+ */
+export function scanText(path: string, text: string, firstLine: number = 1): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  text.split("\n").forEach((line, index) => {
+    for (const { rule, title, severity, pattern, group } of CONTENT_PATTERNS) {
+      const match = line.match(pattern);
+      if (!match) continue;
+      const secret = match[group ?? 0];
+      if (rule !== "private-key" && PLACEHOLDER.test(secret)) continue;
+
+      findings.push({
+        rule,
+        title,
+        severity,
+        path,
+        line: firstLine + index,
+        excerpt: rule === "private-key" ? match[0] : match[0].replace(secret, mask(secret)).slice(0, 120),
+        commit: null
+      });
+    }
+  });
+  return findings;
+}
+
+/**
+ * The sensitive file type this path is, if any.
+ */
+export function scanPath(path: string): SecretFinding | null {
+  const match = PATH_PATTERNS.find(({ pattern }) => pattern.test(path));
+  return match
+    ? { rule: match.rule, title: match.title, severity: match.severity, path, line: null, excerpt: null, commit: null }
+    : null;
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Scan a repository's default branch for sensitive files and credentials in file contents and,
+ * optionally, in the lines added by recent commits. History findings already in the tree are
+ * left out, so each secret is reported where it is now.
+ */
+export async function scanRepositoryForSecrets(
+  octokit: Octokit,
+  scheduler: TaskScheduler,
+  repo: { owner: string; name: string; defaultBranch?: string },
+  files: RepoFileIndex,
+  options: SecretScanOptions = {}
+): Promise<SecretScanResult> {
+  const findings: SecretFinding[] = [];
+  const paths = files.files();
+
+  for (const path of paths) {
+    const finding = scanPath(path);
+    if (finding) findings.push(finding);
+  }
+
+  const candidates = paths.filter(path => !BINARY_EXTENSIONS.test(path) && !VENDORED.test(path) && !LOCKFILES.test(path));
+  const readable = candidates.filter(path => (files.size(path) ?? 0) <= MAX_FILE_BYTES);
+  const toRead = readable.slice(0, MAX_SCANNED_FILES);
+
+  let scannedFiles = 0;
+  const contents = await scheduler.map(toRead, async path => {
+    const { data } = await octokit.git.getBlob({ owner: repo.owner, repo: repo.name, file_sha: files.sha(path)! });
+    const content = Buffer.from(data.content, "base64");
+    if (isBinary(content)) return [];
+    scannedFiles++;
+    return scanText(path, content.toString("utf8"));
+  }, "Scanning files");
+  findings.push(...contents.flat());
+
+  let scannedCommits = 0;
+  if (options.historyCommits && options.historyCommits > 0 && paths.length > 0) {
+    const known = new Set(findings.map(f => `${f.rule}:${f.path}:${f.excerpt}`));
+    const { data: commits } = await octokit.repos.listCommits({
+      owner: repo.owner,
+      repo: repo.name,
+      sha: repo.defaultBranch,
+      per_page: Math.min(100, options.historyCommits)
+    });
+
+    const history = await scheduler.map(commits, async ({ sha }) => {
+      const { data: commit } = await octokit.repos.getCommit({ owner: repo.owner, repo: repo.name, ref: sha });
+      const found: SecretFinding[] = [];
+      for (const file of commit.files ?? []) {
+        const pathFinding = file.status === "added" || file.status === "renamed" ? scanPath(file.filename) : null;
+        if (pathFinding) found.push(pathFinding);
+        if (file.patch && !VENDORED.test(file.filename) && !LOCKFILES.test(file.filename)) {
+          found.push(...scanPatch(file.filename, file.patch));
+        }
+      }
+      return found.map(finding => ({ ...finding, commit: sha }));
+    }, "Scanning history");
+    scannedCommits = commits.length;
+
+    for (const finding of history.flat()) {
+      const key = `${finding.rule}:${finding.path}:${finding.excerpt}`;
+      if (known.has(key)) continue;
+      known.add(key);
+      findings.push({ ...finding, line: null });
+    }
+  }
+
+  return {
+    findings,
+    scannedFiles,
+    skippedFiles: paths.length - scannedFiles,
+    scannedCommits,
+    complete: !files.truncated && readable.length === candidates.length && readable.length <= MAX_SCANNED_FILES
+  };
+}
+
+/**
+ * Credentials in the lines a diff adds.
+ */
+function scanPatch(path: string, patch: string): SecretFinding[] {
+  const added = patch.split("\n")
+    .filter(line => line.startsWith("+") && !line.startsWith("+++"))
+    .map(line => line.slice(1));
+  return scanText(path, added.join("\n"));
+}
+
+/**
+ * One line per finding, for messages.
+ */
+export function describeFinding(finding: SecretFinding): string {
+  const location = finding.line ? `${finding.path}:${finding.line}` : finding.path;
+  return `${finding.title} in ${location}${finding.commit ? ` (commit ${finding.commit.slice(0, 7)})` : ""}`;
+}
@@ -0,0 +1,311 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+import { RepositorySettings } from "./branchProtection";
+
+/**
+ * Security features the organizer can turn on and off. Security updates need vulnerability alerts,
+ * and push protection needs secret scanning.
+ */
+export type SecurityFeature = "vulnerability-alerts" | "security-updates" | "secret-scanning" | "push-protection" | "code-scanning";
+
+export const SECURITY_FEATURES: [SecurityFeature, ...SecurityFeature[]] =
+  ["vulnerability-alerts", "security-updates", "secret-scanning", "push-protection", "code-scanning"];
+
+export const SECURITY_FEATURE_LABELS: Record<SecurityFeature, string> = {
+  "vulnerability-alerts": "Dependabot vulnerability alerts",
+  "security-updates": "Dependabot security updates",
+  "secret-scanning": "secret scanning",
+  "push-protection": "secret scanning push protection",
+  "code-scanning": "code scanning (default setup)"
+};
+
+/**
+ * A Dependabot package ecosystem and the directories its manifests were found in.
+ */
+export interface PackageEcosystem {
+  ecosystem: string;
+  directories: string[];
+}
+
+export interface DependabotAlertCounts {
+  total: number;
+  critical: number;
+  high: number;
+  medium: number;
+  low: number;
+}
+
+/**
+ * A repository's security settings and findings. Null means the token isn't allowed to tell.
+ */
+export interface SecurityPosture {
+  vulnerabilityAlerts: boolean | null;
+  securityUpdates: boolean | null;
+  /** Path of the Dependabot version updates config, if there is one */
+  dependabotConfig: string | null;
+  ecosystems: PackageEcosystem[];
+  /** Ecosystem directories the config doesn't cover */
+  uncoveredEcosystems: PackageEcosystem[];
+  openAlerts: DependabotAlertCounts | null;
+  secretScanning: boolean | null;
+  pushProtection: boolean | null;
+  /** Whether code scanning has analysed the repository, through default setup or a workflow */
+  codeScanning: boolean | null;
+}
+
+// Manifest file names and the ecosystem each belongs to
+const MANIFESTS: Array<{ pattern: RegExp; ecosystem: string }> = [
+  { pattern: /^package\.json$/, ecosystem: "npm" },
+  { pattern: /^(requirements[\w.-]*\.txt|pyproject\.toml|setup\.py|Pipfile)$/, ecosystem: "pip" },
+  { pattern: /^Cargo\.toml$/, ecosystem: "cargo" },
+  { pattern: /^go\.mod$/, ecosystem: "gomod" },
+  { pattern: /^Gemfile$/, ecosystem: "bundler" },
+  { pattern: /^composer\.json$/, ecosystem: "composer" },
+  { pattern: /^pom\.xml$/, ecosystem: "maven" },
+  { pattern: /^(build|settings)\.gradle(\.kts)?$/, ecosystem: "gradle" },
+  { pattern: /^(.+\.(csproj|fsproj|vbproj)|packages\.config|Directory\.Packages\.props)$/, ecosystem: "nuget" },
+  { pattern: /^(Dockerfile|.+\.Dockerfile|Dockerfile\..+)$/, ecosystem: "docker" },
+  { pattern: /^mix\.exs$/, ecosystem: "mix" },
+  { pattern: /^pubspec\.yaml$/, ecosystem: "pub" },
+  { pattern: /^Package\.swift$/, ecosystem: "swift" },
+  { pattern: /^.+\.tf$/, ecosystem: "terraform" }
+];
+
+// Dependencies checked in from elsewhere, which Dependabot shouldn't be pointed at
+const IGNORED_DIRECTORIES = /(^|\/)(node_modules|vendor|third_party|\.git)\//;
+
+/**
+ * The package ecosystems in a repository, from the manifests in its file tree. GitHub Actions
+ * workflows count as the github-actions ecosystem, which Dependabot expects at "/".
+ */
+export function detectEcosystems(files: RepoFileIndex): PackageEcosystem[] {
+  const found = new Map<string, Set<string>>();
+  const add = (ecosystem: string, directory: string) => {
+    const directories = found.get(ecosystem) ?? new Set<string>();
+    directories.add(directory);
+    found.set(ecosystem, directories);
+  };
+
+  for (const path of files.files()) {
+    if (IGNORED_DIRECTORIES.test(path)) continue;
+    if (/^\.github\/workflows\/[^/]+\.ya?ml$/i.test(path)) {
+      add("github-actions", "/");
+      continue;
+    }
+    const slash = path.lastIndexOf("/");
+    const name = path.slice(slash + 1);
+    const directory = slash === -1 ? "/" : `/${path.slice(0, slash)}`;
+    const manifest = MANIFESTS.find(m => m.pattern.test(name));
+    if (manifest) add(manifest.ecosystem, directory);
+  }
+
+  return [...found.entries()]
+    .map(([ecosystem, directories]) => ({ ecosystem, directories: [...directories].sort() }))
+    .sort((a, b) => a.ecosystem.localeCompare(b.ecosystem));
+}
+
+/**
+ * Ecosystem directories an existing dependabot.yml covers. A line-based reader is enough for the
+ * fields that matter here; directories may use Dependabot's glob patterns.
+ */
+export function parseDependabotConfig(config: string): PackageEcosystem[] {
+  const entries: PackageEcosystem[] = [];
+  let current: PackageEcosystem | null = null;
+  let inDirectories = false;
+  const unquote = (value: string) => value.trim().replace(/^["']|["']$/g, "");
+
+  for (const line of config.split(/\r?\n/)) {
+    const text = line.replace(/\s+#.*$/, "");
+    const ecosystem = text.match(/^\s*-?\s*package-ecosystem:\s*(.+)$/);
+    if (ecosystem) {
+      current = { ecosystem: unquote(ecosystem[1]), directories: [] };
+      entries.push(current);
+      inDirectories = false;
+      continue;
+    }
+    if (!current) continue;
+
+    const directory = text.match(/^\s*directory:\s*(.+)$/);
+    const directories = text.match(/^\s*directories:\s*(.*)$/);
+    if (directory) {
+      current.directories.push(unquote(directory[1]));
+      inDirectories = false;
+    } else if (directories) {
+      const inline = directories[1].match(/^\[(.*)\]$/);
+      if (inline) current.directories.push(...inline[1].split(",").map(unquote).filter(Boolean));
+      inDirectories = !inline;
+    } else if (inDirectories && /^\s*-\s*/.test(text)) {
+      current.directories.push(unquote(text.replace(/^\s*-\s*/, "")));
+    } else if (text.trim()) {
+      inDirectories = false;
+    }
+  }
+  return entries;
+}
+
+/**
+ * The detected ecosystem directories no config entry covers.
+ */
+export function uncoveredEcosystems(detected: PackageEcosystem[], configured: PackageEcosystem[]): PackageEcosystem[] {
+  const normalize = (directory: string) => `/${directory.replace(/^\/+|\/+$/g, "")}`.replace(/^\/$/, "/");
+  const matches = (pattern: string, directory: string) => {
+    const regex = normalize(pattern)
+      .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+      .replace(/\*\*/g, "\u0000")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\u0000/g, ".*");
+    return new RegExp(`^${regex}$`).test(normalize(directory));
+  };
+
+  return detected
+    .map(({ ecosystem, directories }) => {
+      const patterns = configured.filter(c => c.ecosystem === ecosystem).flatMap(c => c.directories);
+      return { ecosystem, directories: directories.filter(d => !patterns.some(p => matches(p, d))) };
+    })
+    .filter(e => e.directories.length > 0);
+}
+
+/**
+ * A dependabot.yml with weekly version updates for each ecosystem, grouping minor and patch
+ * updates into one pull request per ecosystem to keep the noise down.
+ */
+export function renderDependabotConfig(ecosystems: PackageEcosystem[]): string {
+  const lines = [
+    "# Dependabot version updates. Security updates are configured in the repository's settings.",
+    "version: 2",
+    "updates:"
+  ];
+  for (const { ecosystem, directories } of ecosystems) {
+    lines.push(`  - package-ecosystem: "${ecosystem}"`);
+    if (directories.length === 1) {
+      lines.push(`    directory: "${directories[0]}"`);
+    } else {
+      lines.push("    directories:", ...directories.map(directory => `      - "${directory}"`));
+    }
+    lines.push(
+      "    schedule:",
+      '      interval: "weekly"',
+      "    groups:",
+      "      minor-and-patch:",
+      '        update-types: ["minor", "patch"]'
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export async function loadSecurityPosture(
+  octokit: Octokit,
+  repo: RepositoryInfo,
+  files: RepoFileIndex,
+  settings: RepositorySettings
+): Promise<SecurityPosture> {
+  const owner = repo.owner.login;
+  const ecosystems = detectEcosystems(files);
+  const dependabotConfig = files.find("dependabot-config");
+
+  const [securityUpdates, openAlerts, analysis, codeScanning, config] = await Promise.all([
+    readSecurityFeature(octokit, owner, repo.name, "security-updates"),
+    countDependabotAlerts(octokit, owner, repo.name),
+    // Secret scanning status is only in the single-repository response, and only for admins
+    octokit.repos.get({ owner, repo: repo.name }).then(({ data }) => data.security_and_analysis),
+    hasCodeScanning(octokit, owner, repo.name),
+    dependabotConfig ? readRepoFile(octokit, owner, repo.name, dependabotConfig, repo.default_branch) : Promise.resolve(null)
+  ]);
+
+  const status = (feature?: { status?: "enabled" | "disabled" }) => feature?.status ? feature.status === "enabled" : null;
+
+  return {
+    vulnerabilityAlerts: settings.vulnerabilityAlerts,
+    securityUpdates,
+    dependabotConfig,
+    ecosystems,
+    uncoveredEcosystems: uncoveredEcosystems(ecosystems, config ? parseDependabotConfig(config) : []),
+    openAlerts,
+    secretScanning: status(analysis?.secret_scanning),
+    pushProtection: status(analysis?.secret_scanning_push_protection),
+    codeScanning
+  };
+}
+
+async function countDependabotAlerts(octokit: Octokit, owner: string, repo: string): Promise<DependabotAlertCounts | null> {
+  try {
+    const alerts = await octokit.paginate(octokit.dependabot.listAlertsForRepo, { owner, repo, state: "open", per_page: 100 });
+    const counts: DependabotAlertCounts = { total: alerts.length, critical: 0, high: 0, medium: 0, low: 0 };
+    for (const alert of alerts) {
+      counts[alert.security_advisory.severity]++;
+    }
+    return counts;
+  } catch (error: any) {
+    // 403: alerts are off or the token can't read them; 404: not available for the repository
+    if (error.status === 403 || error.status === 404) return null;
+    throw error;
+  }
+}
+
+async function hasCodeScanning(octokit: Octokit, owner: string, repo: string): Promise<boolean | null> {
+  try {
+    const { data } = await octokit.codeScanning.listRecentAnalyses({ owner, repo, per_page: 1 });
+    return data.length > 0;
+  } catch (error: any) {
+    // 404: no analysis yet; 403: code scanning isn't available, e.g. private without Advanced Security
+    if (error.status === 404) return false;
+    if (error.status === 403) return null;
+    throw error;
+  }
+}
+
+/**
+ * Whether a security feature is on, or null when the token can't tell.
+ */
+export async function readSecurityFeature(octokit: Octokit, owner: string, repo: string, feature: SecurityFeature): Promise<boolean | null> {
+  try {
+    switch (feature) {
+      case "vulnerability-alerts":
+        await octokit.repos.checkVulnerabilityAlerts({ owner, repo });
+        return true;
+      case "security-updates": {
+        const { data } = await octokit.repos.checkAutomatedSecurityFixes({ owner, repo });
+        return data.enabled;
+      }
+      case "secret-scanning":
+      case "push-protection": {
+        const { data } = await octokit.repos.get({ owner, repo });
+        const status = feature === "secret-scanning"
+          ? data.security_and_analysis?.secret_scanning?.status
+          : data.security_and_analysis?.secret_scanning_push_protection?.status;
+        return status ? status === "enabled" : null;
+      }
+      case "code-scanning": {
+        const { data } = await octokit.codeScanning.getDefaultSetup({ owner, repo });
+        return data.state === "configured";
+      }
+    }
+  } catch (error: any) {
+    // 404 means off for the check endpoints; anything else means the token isn't allowed to ask
+    if (error.status === 404 && feature !== "code-scanning") return false;
+    if (error.status === 403 || error.status === 404) return null;
+    throw error;
+  }
+}
+
+export async function writeSecurityFeature(octokit: Octokit, owner: string, repo: string, feature: SecurityFeature, enabled: boolean): Promise<void> {
+  const status = enabled ? "enabled" : "disabled";
+  switch (feature) {
+    case "vulnerability-alerts":
+      await (enabled ? octokit.repos.enableVulnerabilityAlerts : octokit.repos.disableVulnerabilityAlerts)({ owner, repo });
+      return;
+    case "security-updates":
+      await (enabled ? octokit.repos.enableAutomatedSecurityFixes : octokit.repos.disableAutomatedSecurityFixes)({ owner, repo });
+      return;
+    case "secret-scanning":
+      await octokit.repos.update({ owner, repo, security_and_analysis: { secret_scanning: { status } } });
+      return;
+    case "push-protection":
+      await octokit.repos.update({ owner, repo, security_and_analysis: { secret_scanning_push_protection: { status } } });
+      return;
+    case "code-scanning":
+      await octokit.codeScanning.updateDefaultSetup({ owner, repo, state: enabled ? "configured" : "not-configured" });
+      return;
+  }
+}
@@ -0,0 +1,179 @@
+import { Octokit } from "@octokit/rest";
+
+export interface SchedulerOptions {
+  /** Tasks run at the same time by map() */
+  concurrency: number;
+  /** Retries for a request that hit a rate limit or, for reads, a server error */
+  maxRetries: number;
+  /** Requests left in the rate limit window below which new requests wait for the reset */
+  reserve: number;
+  /** Longest wait for a rate limit before giving up */
+  maxWaitSeconds: number;
+  /** Gap between mutating requests, which GitHub's secondary rate limits punish when sent concurrently */
+  mutationIntervalMs: number;
+}
+
+export interface TaskProgress {
+  label: string;
+  completed: number;
+  total: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs bulk GitHub work with bounded concurrency while staying inside the rate limits.
+ *
+ * Installed as an Octokit request hook, it tracks x-ratelimit-remaining/reset from every response,
+ * holds new requests once the window is nearly used up, serializes mutating requests, and retries
+ * requests rejected by the primary or secondary rate limit after the time GitHub asks for.
+ */
+export class TaskScheduler {
+  private remaining: number | null = null;
+  private resetAt = 0;
+  private mutations: Promise<void> = Promise.resolve();
+
+  constructor(private options: SchedulerOptions) {}
+
+  /**
+   * Build the scheduler from GITHUB_CONCURRENCY, GITHUB_MAX_RETRIES, GITHUB_RATE_LIMIT_RESERVE
+   * and GITHUB_MAX_WAIT_SECONDS.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): TaskScheduler {
+    return new TaskScheduler({
+      concurrency: Math.max(1, Number(env.GITHUB_CONCURRENCY ?? 4)),
+      maxRetries: Number(env.GITHUB_MAX_RETRIES ?? 3),
+      reserve: Number(env.GITHUB_RATE_LIMIT_RESERVE ?? 50),
+      maxWaitSeconds: Number(env.GITHUB_MAX_WAIT_SECONDS ?? 15 * 60),
+      mutationIntervalMs: 1000
+    });
+  }
+
+  install(octokit: Octokit): void {
+    octokit.hook.wrap("request", async (request, options) => {
+      const { method, url } = octokit.request.endpoint.parse(options);
+      const mutating = method !== "GET" && method !== "HEAD";
+
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForCapacity();
+        try {
+          const response = mutating
+            ? await this.serialize(async () => request(options))
+            : await request(options);
+          this.observe(response.headers);
+          return response;
+        } catch (error: any) {
+          this.observe(error.response?.headers);
+          const delay = attempt < this.options.maxRetries ? this.retryDelay(error, attempt, mutating) : null;
+          if (delay === null) throw error;
+
+          console.log(`[Scheduler] ${method} ${url} returned ${error.status}, retrying in ${Math.ceil(delay / 1000)}s`);
+          await sleep(delay);
+        }
+      }
+    });
+  }
+
+  /**
+   * Run a task for every item with bounded concurrency. Results keep the order of the items;
+   * the first failure rejects the whole run and stops new tasks from starting.
+   */
+  async map<T, R>(
+    items: T[],
+    task: (item: T, index: number) => Promise<R>,
+    label: string,
+    onProgress?: (progress: TaskProgress) => void
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let completed = 0;
+    let failed = false;
+    let loggedStep = 0;
+
+    const worker = async () => {
+      while (!failed && next < items.length) {
+        const index = next++;
+        try {
+          results[index] = await task(items[index], index);
+        } catch (error) {
+          failed = true;
+          throw error;
+        }
+
+        completed++;
+        onProgress?.({ label, completed, total: items.length });
+
+        // Log every 10%, which is enough to follow a long run without flooding the console
+        const step = Math.floor((completed / items.length) * 10);
+        if (items.length >= 10 && step > loggedStep) {
+          loggedStep = step;
+          console.log(`[Scheduler] ${label}: ${completed}/${items.length}`);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.options.concurrency, items.length) }, worker));
+    return results;
+  }
+
+  private observe(headers?: Record<string, string | number | undefined>): void {
+    // Search and GraphQL have their own windows; the core limit is the one bulk work exhausts
+    if (!headers || (headers["x-ratelimit-resource"] && headers["x-ratelimit-resource"] !== "core")) return;
+
+    if (headers["x-ratelimit-remaining"] !== undefined) {
+      this.remaining = Number(headers["x-ratelimit-remaining"]);
+    }
+    if (headers["x-ratelimit-reset"] !== undefined) {
+      this.resetAt = Number(headers["x-ratelimit-reset"]) * 1000;
+    }
+  }
+
+  private async waitForCapacity(): Promise<void> {
+    if (this.remaining === null || this.remaining > this.options.reserve || Date.now() >= this.resetAt) return;
+
+    const wait = this.resetAt - Date.now() + 1000;
+    if (wait > this.options.maxWaitSeconds * 1000) {
+      throw new Error(`GitHub rate limit nearly exhausted (${this.remaining} requests left) until ${new Date(this.resetAt).toISOString()}`);
+    }
+
+    console.log(`[Scheduler] ${this.remaining} requests left in the rate limit window, waiting ${Math.ceil(wait / 1000)}s for the reset`);
+    await sleep(wait);
+    this.remaining = null;
+  }
+
+  /**
+   * How long to wait before retrying a failed request, or null if it shouldn't be retried.
+   */
+  private retryDelay(error: any, attempt: number, mutating: boolean): number | null {
+    const headers = error.response?.headers ?? {};
+    let delay: number | null = null;
+
+    if (error.status === 403 || error.status === 429) {
+      if (headers["retry-after"] !== undefined) {
+        delay = Number(headers["retry-after"]) * 1000;
+      } else if (Number(headers["x-ratelimit-remaining"]) === 0 && headers["x-ratelimit-reset"] !== undefined) {
+        delay = Math.max(0, Number(headers["x-ratelimit-reset"]) * 1000 - Date.now()) + 1000;
+      } else if (/secondary rate limit|abuse/i.test(error.message)) {
+        delay = 60_000 * 2 ** attempt;
+      }
+    } else if (!mutating && error.status >= 500) {
+      // A mutation that failed with a server error may still have gone through, so only reads are retried
+      delay = 1000 * 2 ** attempt;
+    }
+
+    return delay !== null && delay <= this.options.maxWaitSeconds * 1000 ? delay : null;
+  }
+
+  /**
+   * Run mutating requests one at a time, spaced out by the mutation interval.
+   */
+  private serialize<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.mutations.then(run);
+    this.mutations = result
+      .then(() => undefined, () => undefined)
+      .then(() => sleep(this.options.mutationIntervalMs));
+    return result;
+  }
+}
@@ -0,0 +1,243 @@
+import { Octokit } from "@octokit/rest";
+import { RepositoryInfo } from "./repositoryEnumerator";
+import { RepoFileIndex, readRepoFile } from "./repoFiles";
+
+export interface TopicSuggestion {
+  topic: string;
+  /** Why the topic was suggested, one entry per source that pointed at it */
+  reasons: string[];
+}
+
+// Languages with at least this share of the repository's bytes become topics
+const MIN_LANGUAGE_SHARE = 0.1;
+const MAX_LANGUAGE_TOPICS = 3;
+
+// Language names that don't turn into a usable topic by lowercasing and hyphenating
+const LANGUAGE_TOPICS: Record<string, string | null> = {
+  "C++": "cpp",
+  "C#": "csharp",
+  "F#": "fsharp",
+  "Vim Script": "vim",
+  "Jupyter Notebook": "jupyter-notebook",
+  // Build and config files say little about what the project is
+  "Makefile": null,
+  "CMake": null,
+  "Batchfile": null,
+  "Procfile": null,
+  "Dockerfile": "docker"
+};
+
+// Dependencies that say what a project is built with or for, per manifest
+const NPM_TOPICS: Record<string, string[]> = {
+  "react": ["react"],
+  "react-native": ["react-native", "mobile"],
+  "vue": ["vue"],
+  "svelte": ["svelte"],
+  "@angular/core": ["angular"],
+  "next": ["nextjs", "react"],
+  "nuxt": ["nuxt", "vue"],
+  "express": ["express", "nodejs"],
+  "fastify": ["fastify", "nodejs"],
+  "@nestjs/core": ["nestjs", "nodejs"],
+  "electron": ["electron", "desktop-app"],
+  "graphql": ["graphql"],
+  "typescript": ["typescript"],
+  "discord.js": ["discord-bot"],
+  "three": ["threejs", "3d"],
+  "socket.io": ["websocket"],
+  "@prisma/client": ["prisma"],
+  "mongoose": ["mongodb"],
+  "tailwindcss": ["tailwindcss"],
+  "commander": ["cli"],
+  "yargs": ["cli"]
+};
+
+const PYTHON_TOPICS: Record<string, string[]> = {
+  "django": ["django", "web"],
+  "flask": ["flask", "web"],
+  "fastapi": ["fastapi", "rest-api"],
+  "pandas": ["pandas", "data-analysis"],
+  "numpy": ["numpy"],
+  "scikit-learn": ["scikit-learn", "machine-learning"],
+  "tensorflow": ["tensorflow", "deep-learning"],
+  "torch": ["pytorch", "deep-learning"],
+  "keras": ["keras", "deep-learning"],
+  "opencv-python": ["opencv", "computer-vision"],
+  "streamlit": ["streamlit"],
+  "selenium": ["selenium", "automation"],
+  "beautifulsoup4": ["web-scraping"],
+  "scrapy": ["scrapy", "web-scraping"],
+  "discord.py": ["discord-bot"],
+  "python-telegram-bot": ["telegram-bot"],
+  "matplotlib": ["data-visualization"],
+  "click": ["cli"],
+  "typer": ["cli"]
+};
+
+const CARGO_TOPICS: Record<string, string[]> = {
+  "tokio": ["async", "tokio"],
+  "actix-web": ["actix-web", "web"],
+  "axum": ["axum", "web"],
+  "rocket": ["rocket", "web"],
+  "bevy": ["bevy", "game-development"],
+  "clap": ["cli"],
+  "wasm-bindgen": ["webassembly"],
+  "tauri": ["tauri", "desktop-app"]
+};
+
+// README phrases and the topic each points at. Single words have to appear twice to count.
+const README_KEYWORDS: Record<string, string> = {
+  "command line": "cli",
+  "command-line": "cli",
+  "cli": "cli",
+  "rest api": "rest-api",
+  "machine learning": "machine-learning",
+  "deep learning": "deep-learning",
+  "neural network": "neural-network",
+  "computer vision": "computer-vision",
+  "natural language processing": "nlp",
+  "docker": "docker",
+  "kubernetes": "kubernetes",
+  "chrome extension": "chrome-extension",
+  "browser extension": "browser-extension",
+  "discord bot": "discord-bot",
+  "telegram bot": "telegram-bot",
+  "web scraper": "web-scraping",
+  "web scraping": "web-scraping",
+  "portfolio": "portfolio",
+  "game": "game",
+  "blockchain": "blockchain",
+  "smart contract": "smart-contracts",
+  "data visualization": "data-visualization",
+  "dashboard": "dashboard",
+  "raspberry pi": "raspberry-pi",
+  "arduino": "arduino",
+  "home assistant": "home-assistant",
+  "static site": "static-site",
+  "github action": "github-actions"
+};
+
+/**
+ * Turn a name into a valid GitHub topic: lowercase letters, numbers and hyphens, at most 50 characters.
+ */
+export function normalizeTopic(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 50);
+}
+
+/**
+ * Suggest topics for a repository from its language bytes, dependency manifests and README.
+ * Topics the repository already has are left out. Suggestions backed by more sources come first.
+ */
+export async function suggestTopics(octokit: Octokit, repo: RepositoryInfo, files: RepoFileIndex): Promise<TopicSuggestion[]> {
+  const owner = repo.owner.login;
+  const suggestions = new Map<string, string[]>();
+  const suggest = (topic: string, reason: string) => {
+    const reasons = suggestions.get(topic) ?? [];
+    if (!reasons.includes(reason)) reasons.push(reason);
+    suggestions.set(topic, reasons);
+  };
+
+  // Language bytes
+  const { data: bytesByLanguage } = await octokit.repos.listLanguages({ owner, repo: repo.name });
+  const totalBytes = Object.values(bytesByLanguage).reduce((sum, bytes) => sum + bytes, 0);
+  Object.entries(bytesByLanguage)
+    .filter(([, bytes]) => totalBytes > 0 && bytes / totalBytes >= MIN_LANGUAGE_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_LANGUAGE_TOPICS)
+    .forEach(([language, bytes]) => {
+      const topic = language in LANGUAGE_TOPICS ? LANGUAGE_TOPICS[language] : normalizeTopic(language);
+      if (topic) suggest(topic, `${language} is ${Math.round((bytes / totalBytes) * 100)}% of the code`);
+    });
+
+  // Dependency manifests in the repository root
+  const read = (path: string) => files.has(path)
+    ? readRepoFile(octokit, owner, repo.name, path, repo.default_branch)
+    : Promise.resolve(null);
+  const [packageJson, requirements, cargoToml] = await Promise.all([
+    read("package.json"),
+    read("requirements.txt"),
+    read("Cargo.toml")
+  ]);
+
+  if (packageJson) {
+    try {
+      const manifest = JSON.parse(packageJson);
+      const dependencies = { ...manifest.dependencies, ...manifest.devDependencies, ...manifest.peerDependencies };
+      matchDependencies(Object.keys(dependencies), NPM_TOPICS, "package.json", suggest);
+      if (manifest.bin) suggest("cli", "package.json declares a bin");
+    } catch {
+      // An unparseable package.json just doesn't contribute suggestions
+    }
+  }
+
+  if (requirements) {
+    const packages = requirements.split(/\r?\n/)
+      .map(line => line.replace(/#.*/, "").trim())
+      .filter(line => line && !line.startsWith("-"))
+      .map(line => line.split(/[\s=<>!~;\[]/)[0].toLowerCase());
+    matchDependencies(packages, PYTHON_TOPICS, "requirements.txt", suggest);
+  }
+
+  if (cargoToml) {
+    matchDependencies(cargoDependencies(cargoToml), CARGO_TOPICS, "Cargo.toml", suggest);
+  }
+
+  // README keywords
+  const readmePath = files.find("readme");
+  const readme = readmePath ? await readRepoFile(octokit, owner, repo.name, readmePath, repo.default_branch) : null;
+  if (readme) {
+    const text = readme.toLowerCase();
+    for (const [keyword, topic] of Object.entries(README_KEYWORDS)) {
+      const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      const count = text.match(new RegExp(`\\b${escaped}s?\\b`, "g"))?.length ?? 0;
+      if (count >= (keyword.includes(" ") ? 1 : 2)) {
+        suggest(topic, `${readmePath} mentions "${keyword}" ${count} time${count === 1 ? "" : "s"}`);
+      }
+    }
+  }
+
+  const existing = new Set((repo.topics ?? []).map(topic => topic.toLowerCase()));
+  return [...suggestions.entries()]
+    .filter(([topic]) => !existing.has(topic))
+    .map(([topic, reasons]) => ({ topic, reasons }))
+    .sort((a, b) => b.reasons.length - a.reasons.length);
+}
+
+function matchDependencies(
+  dependencies: string[],
+  topics: Record<string, string[]>,
+  manifest: string,
+  suggest: (topic: string, reason: string) => void
+): void {
+  for (const dependency of dependencies) {
+    for (const topic of topics[dependency] ?? []) {
+      suggest(topic, `${manifest} depends on ${dependency}`);
+    }
+  }
+}
+
+/**
+ * Dependency names from the [dependencies] and [dev-dependencies] tables of a Cargo.toml.
+ */
+function cargoDependencies(cargoToml: string): string[] {
+  const names: string[] = [];
+  let inDependencies = false;
+
+  for (const line of cargoToml.split(/\r?\n/)) {
+    const table = line.match(/^\s*\[([^\]]+)\]/);
+    if (table) {
+      inDependencies = /^(dev-|build-)?dependencies$/.test(table[1].trim());
+      // [dependencies.tokio] style tables name the dependency in the header
+      const dotted = table[1].trim().match(/^(?:dev-|build-)?dependencies\.(.+)$/);
+      if (dotted) names.push(dotted[1]);
+      continue;
+    }
+    const key = inDependencies && line.match(/^\s*([A-Za-z0-9_-]+)\s*=/);
+    if (key) names.push(key[1]);
+  }
+  return names;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { nextRun, parseCron } from "../src/services/cronExpression";
+
+// Times are local, like the schedules themselves; January has no daylight saving changes
+
+describe("parseCron", () => {
+  it("parses steps, ranges and weekday names", () => {
+    const cron = parseCron("*/15 9-17 * * mon-fri");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.dayOfMonthRestricted).toBe(false);
+    expect(cron.dayOfWeekRestricted).toBe(true);
+  });
+
+  it("runs a step without a range to the end of the field", () => {
+    expect([...parseCron("5/15 * * * *").minutes]).toEqual([5, 20, 35, 50]);
+  });
+
+  it("expands shorthands", () => {
+    const cron = parseCron("@daily");
+
+    expect([...cron.minutes]).toEqual([0]);
+    expect([...cron.hours]).toEqual([0]);
+    expect(cron.source).toBe("@daily");
+  });
+
+  it("treats 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("accepts month names", () => {
+    expect([...parseCron("0 0 1 jan,jul *").months]).toEqual([1, 7]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("* * *")).toThrow(/needs 5 fields/);
+    expect(() => parseCron("60 * * * *")).toThrow(/"60" is out of range 0-59/);
+    expect(() => parseCron("5-1 * * * *")).toThrow(/Invalid range "5-1"/);
+    expect(() => parseCron("*/0 * * * *")).toThrow(/Invalid step/);
+    expect(() => parseCron("0 0 * * funday")).toThrow(/Invalid cron expression/);
+  });
+});
+
+describe("nextRun", () => {
+  it("finds the next matching minute after the given time", () => {
+    const cron = parseCron("30 9 * * *");
+
+    expect(nextRun(cron, new Date(2026, 0, 5, 9, 29, 30))).toEqual(new Date(2026, 0, 5, 9, 30));
+    expect(nextRun(cron, new Date(2026, 0, 5, 9, 30))).toEqual(new Date(2026, 0, 6, 9, 30));
+    expect(nextRun(cron, new Date(2026, 0, 5, 10, 0))).toEqual(new Date(2026, 0, 6, 9, 30));
+  });
+
+  it("skips to the next allowed weekday", () => {
+    // 9 January 2026 is a Friday
+    expect(nextRun(parseCron("0 8 * * mon"), new Date(2026, 0, 9, 12, 0))).toEqual(new Date(2026, 0, 12, 8, 0));
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 1 January 2026 is a Thursday, so Friday the 2nd comes before the 13th
+    expect(nextRun(parseCron("0 0 13 * fri"), new Date(2026, 0, 1, 12, 0))).toEqual(new Date(2026, 0, 2, 0, 0));
+  });
+
+  it("rolls over into the next month and year", () => {
+    expect(nextRun(parseCron("@monthly"), new Date(2026, 0, 15))).toEqual(new Date(2026, 1, 1, 0, 0));
+    expect(nextRun(parseCron("@yearly"), new Date(2026, 5, 1))).toEqual(new Date(2027, 0, 1, 0, 0));
+  });
+
+  it("waits for the next leap year for 29 February", () => {
+    expect(nextRun(parseCron("0 0 29 2 *"), new Date(2026, 2, 1))).toEqual(new Date(2028, 1, 29, 0, 0));
+  });
+
+  it("gives up on expressions that never match", () => {
+    expect(() => nextRun(parseCron("0 0 31 2 *"), new Date(2026, 0, 1))).toThrow(/never matches/);
+  });
+});
@@ -0,0 +1,213 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Octokit } from "@octokit/rest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ChangeJournal } from "../src/services/changeJournal";
+import { ChangeExecutor, ChangeProposal, FixPlanStore } from "../src/services/fixPlans";
+import { TaskScheduler } from "../src/services/taskScheduler";
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "organizer-test-"));
+  process.env.ORGANIZER_DATA_DIR = dataDir;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  delete process.env.ORGANIZER_DATA_DIR;
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function httpError(status: number, message: string) {
+  return Object.assign(new Error(message), { status });
+}
+
+function mockOctokit() {
+  return {
+    repos: {
+      get: vi.fn(),
+      update: vi.fn(),
+      getContent: vi.fn(),
+      deleteFile: vi.fn(),
+      createOrUpdateFileContents: vi.fn(),
+      getAllTopics: vi.fn(),
+      replaceAllTopics: vi.fn()
+    },
+    git: {
+      getBlob: vi.fn()
+    }
+  };
+}
+
+describe("ChangeExecutor.rollback", () => {
+  let octokit: ReturnType<typeof mockOctokit>;
+  let journal: ChangeJournal;
+  let executor: ChangeExecutor;
+
+  beforeEach(() => {
+    octokit = mockOctokit();
+    journal = new ChangeJournal("cred_a");
+    executor = new ChangeExecutor(octokit as unknown as Octokit, journal, TaskScheduler.fromEnv({}));
+  });
+
+  const base = { batchId: "batch_1", owner: "octo", repo: "app", summary: "Test change" };
+
+  it("deletes a created file that hasn't changed since", async () => {
+    const entry = journal.record({ ...base, kind: "file-created", path: "LICENSE", commitSha: "c1", blobSha: "b1" });
+    octokit.repos.getContent.mockResolvedValue({ data: { sha: "b1" } });
+    octokit.repos.deleteFile.mockResolvedValue({ data: { commit: { sha: "c2" } } });
+
+    const result = await executor.rollback(entry);
+
+    expect(result).toMatchObject({ entryId: entry.id, repo: "octo/app", status: "rolled-back", message: "Deleted LICENSE in c2" });
+    expect(octokit.repos.deleteFile).toHaveBeenCalledWith(expect.objectContaining({ path: "LICENSE", sha: "b1" }));
+    expect(journal.get(entry.id).rollbackNote).toBe("Deleted LICENSE in c2");
+  });
+
+  it("refuses to delete a file that has been modified", async () => {
+    const entry = journal.record({ ...base, kind: "file-created", path: "LICENSE", commitSha: "c1", blobSha: "b1" });
+    octokit.repos.getContent.mockResolvedValue({ data: { sha: "b2" } });
+
+    const result = await executor.rollback(entry);
+
+    expect(result).toMatchObject({ status: "refused", message: "LICENSE has been modified since it was created" });
+    expect(octokit.repos.deleteFile).not.toHaveBeenCalled();
+    expect(journal.get(entry.id).rolledBackAt).toBeUndefined();
+  });
+
+  it("refuses when the file is already gone", async () => {
+    const entry = journal.record({ ...base, kind: "file-created", path: "LICENSE", commitSha: "c1", blobSha: "b1" });
+    octokit.repos.getContent.mockRejectedValue(httpError(404, "Not Found"));
+
+    expect(await executor.rollback(entry)).toMatchObject({ status: "refused", message: "LICENSE no longer exists" });
+  });
+
+  it("refuses entries that were already rolled back", async () => {
+    const entry = journal.record({ ...base, kind: "file-created", path: "LICENSE", commitSha: "c1", blobSha: "b1" });
+    journal.markRolledBack(entry.id, "Deleted LICENSE");
+
+    const result = await executor.rollback(journal.get(entry.id));
+
+    expect(result.status).toBe("refused");
+    expect(result.message).toMatch(/^Already rolled back at /);
+    expect(octokit.repos.getContent).not.toHaveBeenCalled();
+  });
+
+  it("restores the previous topics", async () => {
+    const entry = journal.record({ ...base, kind: "topics-changed", previousTopics: ["cli"], newTopics: ["cli", "typescript"] });
+    octokit.repos.getAllTopics.mockResolvedValue({ data: { names: ["typescript", "cli"] } });
+
+    const result = await executor.rollback(entry);
+
+    expect(result).toMatchObject({ status: "rolled-back", message: "Restored topics: cli" });
+    expect(octokit.repos.replaceAllTopics).toHaveBeenCalledWith({ owner: "octo", repo: "app", names: ["cli"] });
+  });
+
+  it("refuses when the topics have changed again", async () => {
+    const entry = journal.record({ ...base, kind: "topics-changed", previousTopics: [], newTopics: ["cli"] });
+    octokit.repos.getAllTopics.mockResolvedValue({ data: { names: ["cli", "tools"] } });
+
+    expect(await executor.rollback(entry)).toMatchObject({ status: "refused" });
+    expect(octokit.repos.replaceAllTopics).not.toHaveBeenCalled();
+  });
+
+  it("unarchives and restores the README", async () => {
+    const entry = journal.record({
+      ...base,
+      kind: "archive-changed",
+      previousArchived: false,
+      newArchived: true,
+      readmePath: "README.md",
+      readmeBlobSha: "r2",
+      previousReadmeBlobSha: "r1"
+    });
+    octokit.repos.get.mockResolvedValue({ data: { archived: true } });
+    octokit.repos.getContent.mockResolvedValue({ data: { sha: "r2" } });
+    octokit.git.getBlob.mockResolvedValue({ data: { content: "IyBBcHAK\n" } });
+
+    const result = await executor.rollback(entry);
+
+    expect(result).toMatchObject({ status: "rolled-back", message: "Unarchived again and restored README.md" });
+    expect(octokit.repos.update).toHaveBeenCalledWith({ owner: "octo", repo: "app", archived: false });
+    expect(octokit.repos.createOrUpdateFileContents).toHaveBeenCalledWith(expect.objectContaining({ path: "README.md", content: "IyBBcHAK", sha: "r2" }));
+  });
+
+  it("still marks an unarchive rolled back when the README can't be restored", async () => {
+    const entry = journal.record({
+      ...base,
+      kind: "archive-changed",
+      previousArchived: false,
+      newArchived: true,
+      readmePath: "README.md",
+      readmeBlobSha: "r2",
+      previousReadmeBlobSha: "r1"
+    });
+    octokit.repos.get.mockResolvedValue({ data: { archived: true } });
+    octokit.repos.getContent.mockRejectedValue(httpError(500, "Server Error"));
+
+    const result = await executor.rollback(entry);
+
+    expect(result).toMatchObject({ status: "rolled-back", message: "Unarchived again, but README.md couldn't be restored: Server Error" });
+    expect(journal.get(entry.id).rolledBackAt).toBeDefined();
+  });
+
+  it("reports errors as failed", async () => {
+    const entry = journal.record({ ...base, kind: "visibility-changed", previousPrivate: true, newPrivate: false });
+    octokit.repos.get.mockRejectedValue(httpError(403, "Resource not accessible"));
+
+    expect(await executor.rollback(entry)).toMatchObject({ status: "failed", message: "Resource not accessible" });
+    expect(journal.get(entry.id).rolledBackAt).toBeUndefined();
+  });
+});
+
+describe("FixPlanStore", () => {
+  const proposals: ChangeProposal[] = [
+    { kind: "set-topics", owner: "octo", repo: "app", summary: "Add topics", topics: ["cli"], mode: "add" },
+    { kind: "set-description", owner: "octo", repo: "app", summary: "Add a description", description: "A command line app" }
+  ];
+
+  it("gives identical proposals from the same credential the same plan", () => {
+    const store = new FixPlanStore();
+    const plan = store.create(proposals, "cred_a");
+
+    expect(store.create([...proposals].reverse(), "cred_a").planId).toBe(plan.planId);
+    expect(store.create(proposals, "cred_b").planId).not.toBe(plan.planId);
+  });
+
+  it("keeps plans across restarts", () => {
+    const plan = new FixPlanStore().create(proposals, "cred_a");
+
+    expect(new FixPlanStore().get(plan.planId, "cred_a").changes).toHaveLength(2);
+  });
+
+  it("refuses plans of another credential", () => {
+    const store = new FixPlanStore();
+    const plan = store.create(proposals, "cred_a");
+
+    expect(() => store.get(plan.planId, "cred_b")).toThrow(/different credential/);
+  });
+
+  it("selects approved changes and rejects unknown ones", () => {
+    const store = new FixPlanStore();
+    const plan = store.create(proposals, "cred_a");
+    const [first] = plan.changes;
+
+    expect(store.select(plan.planId, [first.id], "cred_a")).toEqual([first]);
+    expect(store.select(plan.planId, [], "cred_a")).toHaveLength(2);
+    expect(() => store.select(plan.planId, ["chg_missing"], "cred_a")).toThrow(/Changes not in plan/);
+  });
+
+  it("expires plans after a week", () => {
+    vi.useFakeTimers({ now: new Date("2026-01-05T09:00:00Z") });
+    const store = new FixPlanStore();
+    const plan = store.create(proposals, "cred_a");
+
+    vi.setSystemTime(new Date("2026-01-12T08:59:00Z"));
+    expect(store.get(plan.planId, "cred_a").planId).toBe(plan.planId);
+
+    vi.setSystemTime(new Date("2026-01-12T09:01:00Z"));
+    expect(() => store.get(plan.planId, "cred_a")).toThrow(/Unknown or expired plan/);
+  });
+});
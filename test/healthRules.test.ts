@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from "vitest";
+import { HealthRule, HealthRuleRegistry, RuleContext, RuleEvaluation } from "../src/services/healthRules";
+
+function rule(id: string, weight: number, overrides: Partial<HealthRule> = {}): HealthRule {
+  return {
+    id,
+    title: id,
+    severity: "medium",
+    weight,
+    recommendation: `Fix ${id}`,
+    evaluate: async () => ({ passed: false }),
+    ...overrides
+  };
+}
+
+function evaluation(weight: number, passed: boolean): RuleEvaluation {
+  return { rule: rule(`rule-${weight}`, weight), passed };
+}
+
+describe("HealthRuleRegistry.score", () => {
+  const registry = new HealthRuleRegistry();
+
+  it("is 100 when every rule passes", () => {
+    expect(registry.score([])).toBe(100);
+    expect(registry.score([evaluation(15, true), evaluation(10, true)])).toBe(100);
+  });
+
+  it("deducts the weight of each failed rule", () => {
+    expect(registry.score([evaluation(15, false), evaluation(10, true), evaluation(5, false)])).toBe(80);
+  });
+
+  it("never drops below 0", () => {
+    expect(registry.score([evaluation(60, false), evaluation(50, false)])).toBe(0);
+  });
+});
+
+describe("HealthRuleRegistry", () => {
+  it("refuses to register a rule twice", () => {
+    const registry = new HealthRuleRegistry().register(rule("missing-license", 15));
+
+    expect(() => registry.register(rule("missing-license", 15))).toThrow(/already registered/);
+  });
+
+  it("selects every rule for an empty list or \"all\"", () => {
+    const registry = new HealthRuleRegistry().register(rule("a", 1)).register(rule("b", 2));
+
+    expect(registry.select().map(r => r.id)).toEqual(["a", "b"]);
+    expect(registry.select(["all"]).map(r => r.id)).toEqual(["a", "b"]);
+    expect(registry.select(["b"]).map(r => r.id)).toEqual(["b"]);
+    expect(() => registry.select(["c"])).toThrow(/Unknown health rule "c"/);
+  });
+
+  it("passes authorship rules for forks without evaluating them", async () => {
+    const evaluate = vi.fn(async () => ({ passed: false }));
+    const registry = new HealthRuleRegistry().register(rule("missing-readme", 10, { authorship: true, evaluate }));
+    const ctx = { repo: { fork: true } } as unknown as RuleContext;
+
+    const [result] = await registry.evaluate(ctx);
+
+    expect(result.passed).toBe(true);
+    expect(evaluate).not.toHaveBeenCalled();
+  });
+});
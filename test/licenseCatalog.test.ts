@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { normalizeLicenseId, recommendLicense } from "../src/services/licenseCatalog";
+
+describe("normalizeLicenseId", () => {
+  it("matches catalog IDs regardless of case and whitespace", () => {
+    expect(normalizeLicenseId("mit")).toBe("MIT");
+    expect(normalizeLicenseId(" apache-2.0 ")).toBe("Apache-2.0");
+  });
+
+  it("drops the -only, -or-later and + suffixes", () => {
+    expect(normalizeLicenseId("GPL-3.0-only")).toBe("GPL-3.0");
+    expect(normalizeLicenseId("GPL-2.0-or-later")).toBe("GPL-2.0");
+    expect(normalizeLicenseId("LGPL-2.1+")).toBe("LGPL-2.1");
+  });
+
+  it("returns null for licenses outside the catalog", () => {
+    expect(normalizeLicenseId("WTFPL")).toBeNull();
+    expect(normalizeLicenseId("")).toBeNull();
+  });
+});
+
+describe("recommendLicense", () => {
+  it("requires the AGPL when a dependency is AGPL-licensed", () => {
+    const recommendation = recommendLicense({
+      language: "JavaScript",
+      dependencies: [{ name: "left-pad", license: "MIT" }, { name: "server-kit", license: "AGPL-3.0-only" }]
+    });
+
+    expect(recommendation.recommended).toBe("AGPL-3.0");
+    expect(recommendation.alternatives).toEqual([]);
+    expect(recommendation.copyleftDependencies).toEqual([{ name: "server-kit", license: "AGPL-3.0-only" }]);
+  });
+
+  it("keeps GPL-2.0-only dependencies on GPL-2.0", () => {
+    const recommendation = recommendLicense({ language: "C", dependencies: [{ name: "libold", license: "GPL-2.0-only" }] });
+
+    expect(recommendation.recommended).toBe("GPL-2.0");
+    expect(recommendation.alternatives).toEqual([]);
+  });
+
+  it("recommends GPL-3.0 for other GPL dependencies", () => {
+    const recommendation = recommendLicense({ language: "C", dependencies: [{ name: "libnew", license: "GPL-3.0-or-later" }] });
+
+    expect(recommendation.recommended).toBe("GPL-3.0");
+    expect(recommendation.alternatives).toEqual(["AGPL-3.0"]);
+  });
+
+  it("ignores dual-licensed dependencies with a permissive option", () => {
+    const recommendation = recommendLicense({
+      language: "Rust",
+      dependencies: [{ name: "dual", license: "MIT OR GPL-3.0-only" }, { name: "unknown", license: null }]
+    });
+
+    expect(recommendation.recommended).toBe("MIT");
+    expect(recommendation.copyleftDependencies).toEqual([]);
+  });
+
+  it("treats a choice between copyleft licenses as binding", () => {
+    const recommendation = recommendLicense({
+      language: "Go",
+      dependencies: [{ name: "strict", license: "(GPL-3.0-only OR AGPL-3.0-only)" }]
+    });
+
+    expect(recommendation.recommended).toBe("GPL-3.0");
+  });
+
+  it("follows the ecosystem's most common license", () => {
+    expect(recommendLicense({ language: "Java", dependencies: [] }).recommended).toBe("Apache-2.0");
+    expect(recommendLicense({ language: "Python", dependencies: [] }).alternatives).toEqual(["Apache-2.0", "BSD-3-Clause"]);
+  });
+
+  it("suggests public domain alternatives for content repositories", () => {
+    const recommendation = recommendLicense({ language: "HTML", dependencies: [] });
+
+    expect(recommendation.recommended).toBe("MIT");
+    expect(recommendation.alternatives).toEqual(["CC0-1.0", "Unlicense"]);
+  });
+
+  it("falls back to MIT for unknown languages", () => {
+    const recommendation = recommendLicense({ language: null, dependencies: [] });
+
+    expect(recommendation.recommended).toBe("MIT");
+    expect(recommendation.alternatives).toEqual(["Apache-2.0"]);
+  });
+});
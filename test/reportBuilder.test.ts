@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { PortfolioReport, renderReport } from "../src/services/reportBuilder";
+
+function portfolio(repositories: PortfolioReport["repositories"]): PortfolioReport {
+  return {
+    kind: "portfolio",
+    title: "Portfolio report",
+    generatedAt: "2026-01-05T09:00:00.000Z",
+    summary: "",
+    snapshotId: "snap_1",
+    repositories,
+    statistics: null
+  };
+}
+
+describe("CSV reports", () => {
+  it("writes one row per repository, worst score first", () => {
+    const { content, contentType, extension } = renderReport(portfolio([
+      { repo: "octo/good", url: "https://github.com/octo/good", score: 95, issues: [] },
+      {
+        repo: "octo/bad",
+        url: "https://github.com/octo/bad",
+        score: 60,
+        issues: [
+          { ruleId: "missing-license", title: "Missing LICENSE file", severity: "high" },
+          { ruleId: "no-topics", title: "No topics", severity: "low" }
+        ]
+      }
+    ]), "csv");
+
+    expect(contentType).toBe("text/csv; charset=utf-8");
+    expect(extension).toBe("csv");
+    expect(content.split("\r\n")).toEqual([
+      "repository,url,score,high,medium,low,issues,rule_ids",
+      "octo/bad,https://github.com/octo/bad,60,1,0,1,Missing LICENSE file; No topics,missing-license no-topics",
+      "octo/good,https://github.com/octo/good,95,0,0,0,,",
+      ""
+    ]);
+  });
+
+  it("quotes cells with commas, quotes or line breaks", () => {
+    const { content } = renderReport(portfolio([
+      {
+        repo: "octo/app",
+        url: "https://github.com/octo/app",
+        score: 70,
+        issues: [
+          { ruleId: "short-description", title: "Description is short, or missing", severity: "medium" },
+          { ruleId: "readme", title: "README says \"TODO\"\nand nothing else", severity: null }
+        ]
+      }
+    ]), "csv");
+
+    const row = content.split("\r\n").slice(1).join("\r\n");
+    expect(row).toBe(
+      "octo/app,https://github.com/octo/app,70,0,1,0," +
+      "\"Description is short, or missing; README says \"\"TODO\"\"\nand nothing else\"," +
+      "short-description readme\r\n"
+    );
+  });
+});